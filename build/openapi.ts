@@ -0,0 +1,478 @@
+import {mkdirSync, writeFileSync} from 'node:fs';
+import {dirname, join} from 'node:path';
+import {fileURLToPath} from 'node:url';
+import ts from 'typescript';
+import {getEndpoint} from '../src/rest/catalog.ts';
+import {DEFAULT_BASE_URL} from '../src/util/constants.ts';
+
+/**
+ * A JSON schema, as used by OpenAPI 3.1
+ */
+export type JSONSchema = Record<string, unknown>;
+
+export interface GenerateOpenAPIOptions {
+	/**
+	 * The root of the repository, defaults to the parent of this folder
+	 */
+	root?: string;
+
+	/**
+	 * The version of the document, defaults to the version in package.json
+	 */
+	version?: string;
+}
+
+const root = join(fileURLToPath(import.meta.url), '..', '..');
+
+/**
+ * Generates an OpenAPI 3.1 document by walking the `Endpoints` union in
+ * `src/rest/endpoints.ts` with the TypeScript compiler. Named interfaces, type
+ * aliases and enums become components that operations reference.
+ *
+ * @param options - Options for generating the document
+ * @returns The OpenAPI document
+ */
+export function generateOpenAPIDocument(options: GenerateOpenAPIOptions = {}) {
+	const cwd = options.root ?? root;
+	const endpointsFile = join(cwd, 'src', 'rest', 'endpoints.ts');
+
+	const config = ts.getParsedCommandLineOfConfigFile(
+		join(cwd, 'tsconfig.json'),
+		{},
+		{
+			...ts.sys,
+			onUnRecoverableConfigFileDiagnostic: diagnostic => {
+				throw new Error(
+					ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+				);
+			},
+		},
+	);
+
+	const program = ts.createProgram([endpointsFile], config?.options ?? {});
+	const checker = program.getTypeChecker();
+	const source = program.getSourceFile(endpointsFile)!;
+
+	const components: Record<string, JSONSchema> = {};
+	const names = new Map<ts.Symbol, string>();
+
+	function findAlias(name: string) {
+		const alias = source.statements.find(
+			(statement): statement is ts.TypeAliasDeclaration =>
+				ts.isTypeAliasDeclaration(statement) && statement.name.text === name,
+		);
+
+		if (!alias) {
+			throw new Error(`Could not find type ${name} in ${endpointsFile}`);
+		}
+
+		return alias;
+	}
+
+	function isOwnDeclaration(symbol: ts.Symbol) {
+		return (symbol.declarations ?? []).some(declaration => {
+			const file = declaration.getSourceFile();
+			return (
+				!program.isSourceFileFromExternalLibrary(file) &&
+				!file.isDeclarationFile
+			);
+		});
+	}
+
+	/**
+	 * Returns the symbol a type should be stored as a component under,
+	 * or null if it should be inlined
+	 */
+	function getNamedSymbol(type: ts.Type) {
+		if (type.aliasSymbol) {
+			// Generic aliases like Id<'deployment'> are different for every use
+			return type.aliasTypeArguments?.length ||
+				!isOwnDeclaration(type.aliasSymbol)
+				? null
+				: type.aliasSymbol;
+		}
+
+		const symbol = type.getSymbol();
+
+		if (!symbol || !isOwnDeclaration(symbol)) {
+			return null;
+		}
+
+		if (symbol.flags & ts.SymbolFlags.Enum) {
+			return symbol;
+		}
+
+		if (
+			symbol.flags & ts.SymbolFlags.Interface &&
+			!checker.getTypeArguments(type as ts.TypeReference).length
+		) {
+			return symbol;
+		}
+
+		return null;
+	}
+
+	function ref(type: ts.Type, symbol: ts.Symbol): JSONSchema {
+		let name = names.get(symbol);
+
+		if (!name) {
+			name = symbol.getName();
+
+			for (let i = 2; [...names.values()].includes(name); i++) {
+				name = `${symbol.getName()}${i}`;
+			}
+
+			names.set(symbol, name);
+
+			// Reserve the name before walking so recursive types terminate
+			components[name] = {};
+			components[name] = describe(schemaFor(type), symbol);
+		}
+
+		return {$ref: `#/components/schemas/${name}`};
+	}
+
+	function describe(schema: JSONSchema, symbol: ts.Symbol) {
+		const description = ts.displayPartsToString(
+			symbol.getDocumentationComment(checker),
+		);
+
+		return description ? {description, ...schema} : schema;
+	}
+
+	function toSchema(type: ts.Type): JSONSchema {
+		const symbol = getNamedSymbol(type);
+
+		if (symbol) {
+			return ref(type, symbol);
+		}
+
+		return schemaFor(type);
+	}
+
+	function unionSchema(types: readonly ts.Type[]): JSONSchema {
+		const members = types.filter(
+			type => !(type.flags & (ts.TypeFlags.Undefined | ts.TypeFlags.Void)),
+		);
+
+		const hasTrue = members.some(
+			type =>
+				type.flags & ts.TypeFlags.BooleanLiteral &&
+				checker.typeToString(type) === 'true',
+		);
+
+		const hasFalse = members.some(
+			type =>
+				type.flags & ts.TypeFlags.BooleanLiteral &&
+				checker.typeToString(type) === 'false',
+		);
+
+		const schemas: JSONSchema[] = [];
+
+		if (hasTrue && hasFalse) {
+			schemas.push({type: 'boolean'});
+		}
+
+		const literals = members.filter(
+			type => type.isStringLiteral() || type.isNumberLiteral(),
+		);
+
+		if (literals.length > 1) {
+			schemas.push({
+				enum: literals.map(type => (type as ts.LiteralType).value),
+			});
+		}
+
+		for (const type of members) {
+			if (hasTrue && hasFalse && type.flags & ts.TypeFlags.BooleanLiteral) {
+				continue;
+			}
+
+			if (literals.length > 1 && literals.includes(type)) {
+				continue;
+			}
+
+			schemas.push(toSchema(type));
+		}
+
+		if (schemas.length === 1) {
+			return schemas[0]!;
+		}
+
+		return {anyOf: schemas};
+	}
+
+	function objectSchema(type: ts.Type): JSONSchema {
+		const properties: Record<string, JSONSchema> = {};
+		const required: string[] = [];
+
+		for (const property of checker.getPropertiesOfType(type)) {
+			const propertyType = checker.getTypeOfSymbol(property);
+
+			if (propertyType.getCallSignatures().length) {
+				continue;
+			}
+
+			properties[property.getName()] = describe(
+				toSchema(propertyType),
+				property,
+			);
+
+			if (!(property.flags & ts.SymbolFlags.Optional)) {
+				required.push(property.getName());
+			}
+		}
+
+		const schema: JSONSchema = {type: 'object', properties};
+
+		if (required.length) {
+			schema.required = required;
+		}
+
+		const [index] = checker.getIndexInfosOfType(type);
+
+		if (index) {
+			schema.additionalProperties = toSchema(index.type);
+		}
+
+		return schema;
+	}
+
+	function templateSchema(type: ts.TemplateLiteralType): JSONSchema {
+		const escape = (text: string) =>
+			text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+		const pattern = type.texts
+			.map((text, i) => {
+				const span = type.types[i];
+
+				if (!span) {
+					return escape(text);
+				}
+
+				return (
+					escape(text) + (span.flags & ts.TypeFlags.Number ? '-?[0-9.]+' : '.*')
+				);
+			})
+			.join('');
+
+		return {type: 'string', pattern: `^${pattern}$`};
+	}
+
+	function schemaFor(type: ts.Type): JSONSchema {
+		const {flags} = type;
+
+		if (flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) {
+			return {};
+		}
+
+		if (flags & ts.TypeFlags.Never) {
+			return {not: {}};
+		}
+
+		if (flags & ts.TypeFlags.Null) {
+			return {type: 'null'};
+		}
+
+		if (flags & ts.TypeFlags.Boolean) {
+			return {type: 'boolean'};
+		}
+
+		if (type.isUnion()) {
+			return unionSchema(type.types);
+		}
+
+		if (flags & ts.TypeFlags.BooleanLiteral) {
+			return {const: checker.typeToString(type) === 'true'};
+		}
+
+		if (type.isStringLiteral() || type.isNumberLiteral()) {
+			return {const: type.value};
+		}
+
+		if (flags & ts.TypeFlags.TemplateLiteral) {
+			return templateSchema(type as ts.TemplateLiteralType);
+		}
+
+		if (flags & ts.TypeFlags.StringLike) {
+			return {type: 'string'};
+		}
+
+		if (flags & ts.TypeFlags.NumberLike) {
+			return {type: 'number'};
+		}
+
+		if (flags & ts.TypeFlags.BigIntLike) {
+			return {type: 'integer'};
+		}
+
+		if (checker.isArrayType(type)) {
+			const [item] = checker.getTypeArguments(type as ts.TypeReference);
+			return {type: 'array', items: item ? toSchema(item) : {}};
+		}
+
+		if (checker.isTupleType(type)) {
+			const items = checker.getTypeArguments(type as ts.TypeReference);
+
+			return {
+				type: 'array',
+				prefixItems: items.map(toSchema),
+				minItems: items.length,
+				maxItems: items.length,
+			};
+		}
+
+		if (type.isIntersection()) {
+			// Tag<string, 'timestamp'> only exists at compile time, so just use the string
+			const primitive = type.types.find(
+				part => !(part.flags & ts.TypeFlags.Object),
+			);
+
+			if (primitive) {
+				return toSchema(primitive);
+			}
+		}
+
+		if (flags & (ts.TypeFlags.Object | ts.TypeFlags.Intersection)) {
+			return objectSchema(type);
+		}
+
+		throw new Error(`Unsupported type ${checker.typeToString(type)}`);
+	}
+
+	function propertyType(type: ts.Type, name: string) {
+		const property = type.getProperty(name);
+
+		if (!property) {
+			throw new Error(`Endpoint ${checker.typeToString(type)} has no ${name}`);
+		}
+
+		return checker.getTypeOfSymbol(property);
+	}
+
+	function operationId(method: string, path: string) {
+		const words = path
+			.split(/[^a-zA-Z0-9]+/)
+			.filter(word => word && word !== 'v1')
+			.map(word => word[0]!.toUpperCase() + word.slice(1));
+
+		return method.toLowerCase() + words.join('');
+	}
+
+	const errorResponse = {
+		description: 'The request failed',
+		content: {
+			'application/json': {
+				schema: toSchema(
+					checker.getTypeAtLocation(findAlias('ErroredAPIResponse').name),
+				),
+			},
+		},
+	};
+
+	const paths: Record<string, Record<string, unknown>> = {};
+
+	for (const node of (findAlias('Endpoints').type as ts.UnionTypeNode).types) {
+		const tag = node.getText(source).replace(/Endpoints$/, '');
+		const group = checker.getTypeFromTypeNode(node);
+
+		for (const endpoint of group.isUnion() ? group.types : [group]) {
+			const method = (propertyType(endpoint, 'method') as ts.StringLiteralType)
+				.value;
+			const path = (propertyType(endpoint, 'path') as ts.StringLiteralType)
+				.value;
+			const res = propertyType(endpoint, 'res');
+			const body = propertyType(endpoint, 'body');
+			const definition = getEndpoint(method, path);
+
+			const operation: Record<string, unknown> = {
+				operationId: operationId(method, path),
+				tags: [tag],
+				responses: {
+					[res.flags & ts.TypeFlags.Void ? '204' : '200']:
+						res.flags & ts.TypeFlags.Void
+							? {description: 'No content'}
+							: {
+									description: 'The request succeeded',
+									content: {
+										'application/json': {
+											schema: {
+												type: 'object',
+												properties: {
+													success: {const: true},
+													data: toSchema(res),
+												},
+												required: ['success', 'data'],
+											},
+										},
+									},
+							  },
+					default: errorResponse,
+				},
+			};
+
+			const params = definition?.params ?? [];
+
+			if (params.length) {
+				operation.parameters = params.map(name => ({
+					name,
+					in: 'path',
+					required: true,
+					schema: {type: 'string'},
+				}));
+			}
+
+			if (!(body.flags & ts.TypeFlags.Undefined)) {
+				operation.requestBody = {
+					required: true,
+					content: {'application/json': {schema: toSchema(body)}},
+				};
+			}
+
+			if (definition) {
+				operation['x-hop-permission'] = definition.permission;
+				operation['x-hop-project-tokens'] = definition.projectTokens;
+			}
+
+			const openAPIPath = path.replace(/:([^/]+)/g, '{$1}');
+			paths[openAPIPath] = {
+				...paths[openAPIPath],
+				[method.toLowerCase()]: operation,
+			};
+		}
+	}
+
+	const pkg = JSON.parse(
+		ts.sys.readFile(join(cwd, 'package.json')) ?? '{}',
+	) as {version?: string};
+
+	return {
+		openapi: '3.1.0',
+		info: {
+			title: 'Hop API',
+			version: options.version ?? pkg.version ?? '0.0.0',
+		},
+		servers: [{url: DEFAULT_BASE_URL}],
+		security: [{token: []}],
+		paths,
+		components: {
+			schemas: components,
+			securitySchemes: {
+				token: {
+					type: 'apiKey',
+					in: 'header',
+					name: 'Authorization',
+					description:
+						'A project token (ptk_), personal access token (pat_) or bearer token (bearer_)',
+				},
+			},
+		},
+	};
+}
+
+if (process.argv[1] && fileURLToPath(import.meta.url) === process.argv[1]) {
+	const output = process.argv[2] ?? join(root, 'dist', 'openapi.json');
+
+	mkdirSync(dirname(output), {recursive: true});
+	writeFileSync(output, JSON.stringify(generateOpenAPIDocument(), null, '\t'));
+}
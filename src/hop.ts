@@ -3,15 +3,19 @@ import {
 	APIClient,
 	type APIClientOptions,
 } from './rest/client.ts';
+import type {Id} from './rest/types/index.ts';
 import {
 	channels,
 	fleet,
 	ignite,
+	infra,
 	pipe,
 	projects,
 	registry,
+	releases,
 	users,
 } from './sdks/index.ts';
+import {shareDeploymentHistory} from './sdks/ignite.ts';
 import {DEFAULT_BASE_URL} from './util/constants.ts';
 
 /**
@@ -45,6 +49,10 @@ export class Hop {
 	public readonly registry;
 	public readonly channels;
 	public readonly fleet;
+	public readonly infra;
+	public readonly releases;
+
+	private readonly options: APIClientOptions;
 
 	constructor(options: PartialAPIOptions);
 	constructor(authentication: APIAuthentication, baseurl?: string);
@@ -63,11 +71,12 @@ export class Hop {
 			);
 		}
 
-		this.client = new APIClient(
+		this.options =
 			typeof authenticationOrOptions === 'object'
 				? {baseUrl: DEFAULT_BASE_URL, ...authenticationOrOptions}
-				: {authentication: authenticationOrOptions, baseUrl},
-		);
+				: {authentication: authenticationOrOptions, baseUrl};
+
+		this.client = new APIClient(this.options);
 
 		this.ignite = ignite(this.client);
 		this.users = users(this.client);
@@ -76,5 +85,28 @@ export class Hop {
 		this.registry = registry(this.client);
 		this.channels = channels(this.client);
 		this.fleet = fleet(this.client);
+		this.infra = infra(this.client);
+		this.releases = releases(this.client);
+	}
+
+	/**
+	 * Creates a client scoped to a project, so that the project ID does not have to be passed to every method.
+	 * With a project token, methods use the `@this` routes instead.
+	 *
+	 * @param projectId - The project to scope the client to
+	 * @returns A new Hop client that shares this client's options and deployment history
+	 *
+	 * @example
+	 * ```ts
+	 * const project = hop.project(projectId);
+	 * await project.channels.getAll();
+	 * ```
+	 */
+	project(projectId: Id<'project'>) {
+		const hop = new Hop({...this.options, project: projectId});
+
+		shareDeploymentHistory(this.client, hop.client);
+
+		return hop;
 	}
 }
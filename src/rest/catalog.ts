@@ -0,0 +1,551 @@
+import {
+	PROJECT_PERMISSION,
+	permissions,
+	permissionsMap,
+} from '../permissions.ts';
+import type {EndpointFromKey, EndpointKey} from './endpoints.ts';
+import type {Method} from './types/index.ts';
+
+type HasBody<K extends EndpointKey> = [EndpointFromKey<K>['body']] extends [
+	undefined,
+]
+	? false
+	: true;
+
+/**
+ * What we need to know about an endpoint that can't be read from its key.
+ * Typing this against {@link EndpointKey} means that adding, removing or
+ * changing the body of an endpoint won't compile until the catalog is updated.
+ */
+type Definitions = {
+	[K in EndpointKey]: {
+		body: HasBody<K>;
+		permission: PROJECT_PERMISSION | null;
+		projectTokens?: false;
+		projectQuery?: true;
+	};
+};
+
+const P = PROJECT_PERMISSION;
+
+const definitions: Definitions = {
+	// Channels
+	'GET /v1/channels': {
+		body: false,
+		permission: P.READ_CHANNELS,
+		projectQuery: true,
+	},
+	'POST /v1/channels': {
+		body: true,
+		permission: P.CREATE_CHANNEL,
+		projectQuery: true,
+	},
+	'PUT /v1/channels/:channel_id': {
+		body: true,
+		permission: P.CREATE_CHANNEL,
+		projectQuery: true,
+	},
+	'GET /v1/channels/:channel_id': {
+		body: false,
+		permission: P.READ_CHANNELS,
+		projectQuery: true,
+	},
+	'DELETE /v1/channels/:channel_id': {
+		body: false,
+		permission: P.DELETE_CHANNELS,
+		projectQuery: true,
+	},
+	'GET /v1/channels/:channel_id/state': {
+		body: false,
+		permission: P.READ_CHANNELS,
+		projectQuery: true,
+	},
+	'PUT /v1/channels/:channel_id/state': {
+		body: true,
+		permission: P.UPDATE_CHANNEL_STATE,
+		projectQuery: true,
+	},
+	'PATCH /v1/channels/:channel_id/state': {
+		body: true,
+		permission: P.UPDATE_CHANNEL_STATE,
+		projectQuery: true,
+	},
+	'POST /v1/channels/:channel_id/messages': {
+		body: true,
+		permission: P.PUBLISH_CHANNEL_MESSAGES,
+		projectQuery: true,
+	},
+	'GET /v1/channels/:channel_id/tokens': {
+		body: false,
+		permission: P.READ_CHANNELS,
+		projectQuery: true,
+	},
+	'GET /v1/channels/:channel_id/stats': {
+		body: false,
+		permission: P.READ_CHANNELS,
+		projectQuery: true,
+	},
+	'PUT /v1/channels/:channel_id/subscribers/:token': {
+		body: false,
+		permission: P.MANAGE_CHANNEL_SUBSCRIBERS,
+		projectQuery: true,
+	},
+	'DELETE /v1/channels/:channel_id/subscribers/:token': {
+		body: false,
+		permission: P.MANAGE_CHANNEL_SUBSCRIBERS,
+		projectQuery: true,
+	},
+	'POST /v1/channels/tokens': {
+		body: true,
+		permission: P.CREATE_LEAP_TOKEN,
+		projectQuery: true,
+	},
+	'GET /v1/channels/tokens/:token': {
+		body: false,
+		permission: P.READ_LEAP_TOKENS,
+	},
+	'PATCH /v1/channels/tokens/:token': {
+		body: true,
+		permission: P.UPDATE_LEAP_TOKEN,
+	},
+	'DELETE /v1/channels/tokens/:token': {
+		body: false,
+		permission: P.UPDATE_LEAP_TOKEN,
+	},
+	'POST /v1/channels/tokens/:token/messages': {
+		body: true,
+		permission: P.MESSAGE_TOKEN,
+	},
+
+	// Fleet
+	'GET /v1/fleet/nodes': {body: false, permission: null, projectQuery: true},
+	'POST /v1/fleet/nodes': {body: true, permission: null, projectQuery: true},
+	'POST /v1/fleet/nodes/:node_id/token': {
+		body: false,
+		permission: null,
+		projectQuery: true,
+	},
+	'PATCH /v1/fleet/nodes/:node_id': {
+		body: true,
+		permission: null,
+		projectQuery: true,
+	},
+	'DELETE /v1/fleet/nodes/:node_id': {
+		body: false,
+		permission: null,
+		projectQuery: true,
+	},
+
+	// Ignite
+	'GET /v1/ignite/deployments': {
+		body: false,
+		permission: P.READ_DEPLOYMENTS,
+		projectQuery: true,
+	},
+	'POST /v1/ignite/deployments': {
+		body: true,
+		permission: P.CREATE_DEPLOYMENT,
+		projectQuery: true,
+	},
+	'GET /v1/ignite/deployments/search': {
+		body: false,
+		permission: P.READ_DEPLOYMENTS,
+		projectQuery: true,
+	},
+	'GET /v1/ignite/deployments/:deployment_id': {
+		body: false,
+		permission: P.READ_DEPLOYMENTS,
+		projectQuery: true,
+	},
+	'PATCH /v1/ignite/deployments/:deployment_id': {
+		body: true,
+		permission: P.UPDATE_CONTAINER_CONFIG,
+	},
+	'DELETE /v1/ignite/deployments/:deployment_id': {
+		body: false,
+		permission: P.DELETE_DEPLOYMENT,
+	},
+	'PATCH /v1/ignite/deployments/:deployment_id/metadata': {
+		body: true,
+		permission: P.UPDATE_CONTAINER_CONFIG,
+	},
+	'GET /v1/ignite/deployments/:deployment_id/storage': {
+		body: false,
+		permission: P.READ_DEPLOYMENTS,
+	},
+	'POST /v1/ignite/deployments/:deployment_id/rollouts': {
+		body: false,
+		permission: P.ROLLOUT,
+	},
+	'GET /v1/ignite/deployments/:deployment_id/containers': {
+		body: false,
+		permission: P.READ_DEPLOYMENTS,
+	},
+	'POST /v1/ignite/deployments/:deployment_id/containers': {
+		body: false,
+		permission: P.CREATE_CONTAINER,
+	},
+	'POST /v1/ignite/deployments/:deployment_id/containers/:container_id': {
+		body: true,
+		permission: P.CREATE_CONTAINER,
+	},
+	'DELETE /v1/ignite/containers/:container_id': {
+		body: false,
+		permission: P.DELETE_CONTAINER,
+	},
+	'GET /v1/ignite/containers/:container_id': {
+		body: false,
+		permission: P.READ_DEPLOYMENTS,
+	},
+	'GET /v1/ignite/containers/:container_id/logs': {
+		body: false,
+		permission: P.READ_CONTAINER_LOGS,
+	},
+	'PUT /v1/ignite/containers/:container_id/state': {
+		body: true,
+		permission: P.UPDATE_CONTAINER_STATE,
+	},
+	'GET /v1/ignite/deployments/:deployment_id/health-check': {
+		body: false,
+		permission: P.READ_DEPLOYMENTS,
+	},
+	'POST /v1/ignite/deployments/:deployment_id/health-check': {
+		body: true,
+		permission: P.UPDATE_CONTAINER_CONFIG,
+	},
+	'PATCH /v1/ignite/deployments/:deployment_id/health-check': {
+		body: true,
+		permission: P.UPDATE_CONTAINER_CONFIG,
+	},
+	'GET /v1/ignite/deployments/:deployment_id/gateways': {
+		body: false,
+		permission: P.READ_GATEWAYS,
+	},
+	'POST /v1/ignite/deployments/:deployment_id/gateways': {
+		body: true,
+		permission: P.CREATE_GATEWAY,
+	},
+	'GET /v1/ignite/builds/:build_id': {
+		body: false,
+		permission: P.READ_DEPLOYMENTS,
+	},
+	'GET /v1/ignite/builds/:build_id/logs': {
+		body: false,
+		permission: P.READ_DEPLOYMENTS,
+	},
+	'POST /v1/ignite/builds/:build_id/cancel': {
+		body: false,
+		permission: P.ROLLOUT,
+	},
+	'GET /v1/ignite/deployments/:deployment_id/builds': {
+		body: false,
+		permission: P.READ_DEPLOYMENTS,
+	},
+	'POST /v1/ignite/deployments/:deployment_id/builds': {
+		body: true,
+		permission: P.ROLLOUT,
+	},
+	'GET /v1/ignite/gateways/:gateway_id': {
+		body: false,
+		permission: P.READ_GATEWAYS,
+	},
+	'PATCH /v1/ignite/gateways/:gateway_id': {
+		body: true,
+		permission: P.CREATE_GATEWAY,
+	},
+	'DELETE /v1/ignite/gateways/:gateway_id': {
+		body: false,
+		permission: P.DELETE_GATEWAY,
+	},
+	'POST /v1/ignite/gateways/:gateway_id/domains': {
+		body: true,
+		permission: P.ADD_DOMAIN,
+	},
+	'GET /v1/ignite/domains/:domain_id': {
+		body: false,
+		permission: P.READ_GATEWAYS,
+	},
+	'PATCH /v1/ignite/domains/:domain_id': {
+		body: true,
+		permission: P.ADD_DOMAIN,
+	},
+	'DELETE /v1/ignite/domains/:domain_id': {
+		body: false,
+		permission: P.DELETE_DOMAIN,
+	},
+	'POST /v1/ignite/groups': {
+		body: true,
+		permission: P.UPDATE_CONTAINER_CONFIG,
+		projectQuery: true,
+	},
+	'PATCH /v1/ignite/groups/:group_id': {
+		body: true,
+		permission: P.UPDATE_CONTAINER_CONFIG,
+		projectQuery: true,
+	},
+	'DELETE /v1/ignite/groups/:group_id': {
+		body: false,
+		permission: P.UPDATE_CONTAINER_CONFIG,
+		projectQuery: true,
+	},
+	'PUT /v1/ignite/groups/:group_id/deployments/:deployment_id': {
+		body: false,
+		permission: P.UPDATE_CONTAINER_CONFIG,
+		projectQuery: true,
+	},
+	'DELETE /v1/ignite/deployments/:deployment_id/group': {
+		body: false,
+		permission: P.UPDATE_CONTAINER_CONFIG,
+		projectQuery: true,
+	},
+
+	// Pipe
+	'GET /v1/pipe/rooms': {
+		body: false,
+		permission: P.READ_ROOM,
+		projectQuery: true,
+	},
+	'POST /v1/pipe/rooms': {body: true, permission: P.CREATE_ROOM},
+	'DELETE /v1/pipe/rooms/:room_id': {body: false, permission: P.DELETE_ROOM},
+
+	// Projects
+	'GET /v1/projects/:project_id/members': {
+		body: false,
+		permission: P.GET_PROJECT_MEMBERS,
+	},
+	'GET /v1/projects/@this/members': {
+		body: false,
+		permission: P.GET_PROJECT_MEMBERS,
+	},
+	'GET /v1/projects/:project_id/members/@me': {
+		body: false,
+		permission: null,
+		projectTokens: false,
+	},
+	'GET /v1/projects/:project_id/tokens': {
+		body: false,
+		permission: P.READ_PROJECT_TOKENS,
+	},
+	'GET /v1/projects/@this/tokens': {
+		body: false,
+		permission: P.READ_PROJECT_TOKENS,
+	},
+	'POST /v1/projects/:project_id/tokens': {
+		body: true,
+		permission: P.CREATE_PROJECT_TOKEN,
+	},
+	'POST /v1/projects/@this/tokens': {
+		body: true,
+		permission: P.CREATE_PROJECT_TOKEN,
+	},
+	'DELETE /v1/projects/:project_id/tokens/:project_token_id': {
+		body: false,
+		permission: P.DELETE_PROJECT_TOKEN,
+	},
+	'DELETE /v1/projects/@this/tokens/:project_token_id': {
+		body: false,
+		permission: P.DELETE_PROJECT_TOKEN,
+	},
+	'GET /v1/projects/:project_id/secrets': {
+		body: false,
+		permission: P.READ_PROJECT_SECRETS,
+	},
+	'GET /v1/projects/@this/secrets': {
+		body: false,
+		permission: P.READ_PROJECT_SECRETS,
+	},
+	'PUT /v1/projects/:project_id/secrets/:name': {
+		body: true,
+		permission: P.CREATE_PROJECT_SECRET,
+	},
+	'PUT /v1/projects/@this/secrets/:name': {
+		body: true,
+		permission: P.CREATE_PROJECT_SECRET,
+		projectQuery: true,
+	},
+	'DELETE /v1/projects/:project_id/secrets/:secret_id': {
+		body: false,
+		permission: P.DELETE_PROJECT_SECRET,
+	},
+	'DELETE /v1/projects/@this/secrets/:secret_id': {
+		body: false,
+		permission: P.DELETE_PROJECT_SECRET,
+	},
+	'GET /v1/projects/:project_id/webhooks': {
+		body: false,
+		permission: P.READ_WEBHOOKS,
+	},
+	'GET /v1/projects/@this/webhooks': {
+		body: false,
+		permission: P.READ_WEBHOOKS,
+	},
+	'POST /v1/projects/:project_id/webhooks': {
+		body: true,
+		permission: P.CREATE_WEBHOOK,
+	},
+	'POST /v1/projects/@this/webhooks': {
+		body: true,
+		permission: P.CREATE_WEBHOOK,
+	},
+	'PATCH /v1/projects/:project_id/webhooks/:webhook_id': {
+		body: true,
+		permission: P.UPDATE_WEBHOOK,
+	},
+	'PATCH /v1/projects/@this/webhooks/:webhook_id': {
+		body: true,
+		permission: P.UPDATE_WEBHOOK,
+	},
+	'DELETE /v1/projects/:project_id/webhooks/:webhook_id': {
+		body: false,
+		permission: P.DELETE_WEBHOOK,
+	},
+	'DELETE /v1/projects/@this/webhooks/:webhook_id': {
+		body: false,
+		permission: P.DELETE_WEBHOOK,
+	},
+	'POST /v1/projects/:project_id/webhooks/:webhook_id/regenerate': {
+		body: false,
+		permission: P.UPDATE_WEBHOOK,
+	},
+	'POST /v1/projects/@this/webhooks/:webhook_id/regenerate': {
+		body: false,
+		permission: P.UPDATE_WEBHOOK,
+	},
+
+	// Registry
+	'GET /v1/registry/images': {
+		body: false,
+		permission: P.GET_REGISTRY_IMAGES,
+		projectQuery: true,
+	},
+	'GET /v1/registry/images/:image/manifests': {
+		body: false,
+		permission: P.GET_REGISTRY_IMAGES,
+		projectQuery: true,
+	},
+	'DELETE /v1/registry/images/:image': {
+		body: false,
+		permission: P.DELETE_REGISTRY_IMAGES,
+		projectQuery: true,
+	},
+
+	// Users
+	'GET /v1/users/@me': {body: false, permission: null, projectTokens: false},
+	'GET /v1/users/@me/pats': {
+		body: false,
+		permission: null,
+		projectTokens: false,
+	},
+	'POST /v1/users/@me/pats': {
+		body: true,
+		permission: null,
+		projectTokens: false,
+	},
+	'DELETE /v1/users/@me/pats/:pat_id': {
+		body: false,
+		permission: null,
+		projectTokens: false,
+	},
+};
+
+/**
+ * Everything known about an endpoint at runtime
+ * @public
+ */
+export interface EndpointDefinition {
+	/**
+	 * The key of this endpoint, e.g. `GET /v1/channels/:channel_id`
+	 */
+	key: EndpointKey;
+
+	method: Method;
+
+	/**
+	 * The path template, e.g. `/v1/channels/:channel_id`
+	 */
+	path: string;
+
+	/**
+	 * Names of the params in the path template, in order
+	 */
+	params: readonly string[];
+
+	/**
+	 * If this endpoint accepts a request body
+	 */
+	hasBody: boolean;
+
+	/**
+	 * The permission a project token or member needs to call this endpoint.
+	 * This is null if no project permission is checked, for example for user endpoints
+	 */
+	permission: PROJECT_PERMISSION | null;
+
+	/**
+	 * If this endpoint can be called with a project token
+	 */
+	projectTokens: boolean;
+
+	/**
+	 * If this endpoint takes the project to use as a `project` query param, for bearer and PAT authentication
+	 */
+	projectQuery: boolean;
+}
+
+/**
+ * A runtime catalog of every endpoint in {@link Endpoints}
+ * @public
+ */
+export const ENDPOINT_CATALOG: readonly EndpointDefinition[] = Object.entries(
+	definitions,
+).map(([key, definition]) => {
+	const [method, path] = key.split(' ') as [Method, string];
+
+	return {
+		key: key as EndpointKey,
+		method,
+		path,
+		params: [...path.matchAll(/:([^/]+)/g)].map(match => match[1]!),
+		hasBody: definition.body,
+		permission: definition.permission,
+		projectTokens: definition.projectTokens ?? true,
+		projectQuery: definition.projectQuery ?? false,
+	};
+});
+
+/**
+ * Finds an endpoint by its method and path template
+ *
+ * @param method - The method of the endpoint
+ * @param path - The path template, e.g. `/v1/channels/:channel_id`
+ * @returns The definition of the endpoint, or undefined if it is not in the catalog
+ * @public
+ */
+export function getEndpoint(method: string, path: string) {
+	return ENDPOINT_CATALOG.find(
+		endpoint => endpoint.method === method && endpoint.path === path,
+	);
+}
+
+/**
+ * Checks if a project token with the given flags can call an endpoint
+ *
+ * @param flags - The flags of the project token
+ * @param endpoint - The endpoint to check
+ * @returns If the token is allowed to call the endpoint
+ * @public
+ */
+export function canProjectTokenAccess(
+	flags: bigint | number,
+	endpoint: EndpointDefinition,
+) {
+	if (!endpoint.projectTokens) {
+		return false;
+	}
+
+	if (!endpoint.permission) {
+		return true;
+	}
+
+	return permissions.test(BigInt(flags), permissionsMap[endpoint.permission]);
+}
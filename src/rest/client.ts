@@ -1,8 +1,23 @@
-import {IS_BROWSER} from '../util/constants.ts';
+import {DEFAULT_TIMEOUT, IS_BROWSER} from '../util/constants.ts';
 import {fetch, Headers, Request} from '../util/fetch.ts';
 import type {ExtractRouteParams} from '../util/index.ts';
+import {createAttemptSignal, sleep} from '../util/timers.ts';
 import {createURLBuilder} from '../util/urls.ts';
+import {getEndpoint} from './catalog.ts';
 import type {APIResponse, Endpoints, ErroredAPIResponse} from './endpoints.ts';
+import {
+	createHopAPIError,
+	HopAPIError,
+	HopResponseValidationError,
+	HopTimeoutError,
+	LOCAL_CLIENT_ERROR_CODE,
+} from './errors.ts';
+import {composeMiddleware, type Middleware} from './middleware.ts';
+import {
+	getRetryDelay,
+	resolveRetryOptions,
+	type RetryOptions,
+} from './retry.ts';
 import {getIdPrefix, type Id, type Method} from './types/index.ts';
 
 /**
@@ -47,6 +62,16 @@ export function validateAPIAuthentication(
 	return auth === 'bearer' || auth === 'pat' || auth === 'ptk';
 }
 
+/**
+ * A function that sends a request and resolves with the response. `globalThis.fetch`,
+ * undici's `fetch` and `node-fetch` all fit this signature, as does an in-memory transport.
+ * @public
+ */
+export type FetchFunction = (
+	request: Request,
+	init: RequestInit,
+) => Promise<Response>;
+
 /**
  * Options passed to the API client.
  * This will usually come from Hop#constructor in most cases
@@ -55,26 +80,79 @@ export function validateAPIAuthentication(
 export interface APIClientOptions {
 	readonly baseUrl: string;
 	readonly authentication: APIAuthentication;
+
+	/**
+	 * How failed requests should be retried. Pass `false` to disable retries entirely.
+	 * By default, idempotent requests are retried up to 3 times on rate limits and server errors.
+	 */
+	readonly retry?: Partial<RetryOptions> | false;
+
+	/**
+	 * The amount of milliseconds to wait for a response before a request is aborted.
+	 * Defaults to {@link DEFAULT_TIMEOUT} (30 seconds). Pass `false` for requests to never time out.
+	 */
+	readonly timeout?: number | false;
+
+	/**
+	 * Middleware that every request made by the client passes through, in order
+	 */
+	readonly middleware?: readonly Middleware[];
+
+	/**
+	 * The fetch implementation used to send requests.
+	 * Defaults to the runtime's native fetch, or a ponyfill where there is none.
+	 */
+	readonly fetch?: FetchFunction;
+
+	/**
+	 * An agent passed to fetch implementations that support one, like `node-fetch`.
+	 * In Node.js, this defaults to an `https.Agent` that keeps connections alive.
+	 */
+	readonly agent?: unknown;
+
+	/**
+	 * An undici `Dispatcher` (e.g. a `Pool` or `ProxyAgent`) passed to fetch
+	 * implementations that support one, like Node.js' native fetch.
+	 */
+	readonly dispatcher?: unknown;
+
+	/**
+	 * Checks the data of every successful response against a schema of the shape the SDK expects.
+	 * `strict` throws a {@link HopResponseValidationError} on a mismatch, `warn` logs it and carries on.
+	 * This is off by default, and loads zod only once enabled.
+	 */
+	readonly validateResponses?: 'strict' | 'warn';
+
+	/**
+	 * A project to scope requests to when authenticating with a bearer or PAT.
+	 * Methods that take an optional project ID use this one when none is passed.
+	 * This is ignored for project tokens, which are already scoped to a project.
+	 */
+	readonly project?: Id<'project'> | undefined;
 }
 
 /**
- * An error that occurred as a response from the Hop API.
+ * Options that can be passed to a single request made by the API client
  * @public
  */
-export class HopAPIError extends Error {
-	public readonly status: number;
-
-	constructor(
-		public readonly request: Request,
-		public readonly response: Response,
-		public readonly data: ErroredAPIResponse,
-	) {
-		super(data.error.message);
-
-		this.status = response.status;
-	}
+export interface APIRequestInit extends RequestInit {
+	/**
+	 * Overrides the client's retry options for this request only
+	 */
+	retry?: Partial<RetryOptions> | false;
+
+	/**
+	 * Overrides the client's timeout for this request only. Pass `false` for this request to never time out
+	 */
+	timeout?: number | false | undefined;
 }
 
+/**
+ * Options that can be passed to every method of the SDK
+ * @public
+ */
+export type RequestOptions = Pick<APIRequestInit, 'signal' | 'timeout'>;
+
 /**
  * Generate a query object that includes typed URL params
  * @public
@@ -98,26 +176,29 @@ export class APIClient {
 	}
 
 	private readonly options;
-	private agent: import('node:https').Agent | null;
+	private readonly fetch: FetchFunction;
+	private agent: unknown;
 
 	public readonly authType;
 	public readonly url;
+	public readonly project;
 
 	constructor(options: APIClientOptions) {
 		this.options = options;
 		this.authType = APIClient.getAuthType(options.authentication);
+		this.project = options.project;
 		this.url = createURLBuilder(options.baseUrl);
+		this.fetch = options.fetch ?? fetch;
 
-		// Be careful when using this property. It will only
-		// have a value in Node.js environments. This is because
-		// we add code at build time
-		this.agent = null;
+		// Be careful when using this property. Unless one was passed in the options, it will
+		// only have a value in Node.js environments. This is because we add code at build time
+		this.agent = options.agent ?? null;
 	}
 
 	async get<Path extends PathsFor<'GET'>>(
 		path: Path,
 		query: Query<Path>,
-		init?: RequestInit,
+		init?: APIRequestInit,
 	) {
 		return this.request<Extract<Endpoints, {path: Path; method: 'GET'}>['res']>(
 			'GET',
@@ -132,7 +213,7 @@ export class APIClient {
 		path: Path,
 		body: Extract<Endpoints, {path: Path; method: 'POST'}>['body'],
 		query: Query<Path>,
-		init?: RequestInit,
+		init?: APIRequestInit,
 	) {
 		return this.request<
 			Extract<Endpoints, {path: Path; method: 'POST'}>['res']
@@ -143,7 +224,7 @@ export class APIClient {
 		path: Path,
 		body: Extract<Endpoints, {path: Path; method: 'PUT'}>['body'],
 		query: Query<Path>,
-		init?: RequestInit,
+		init?: APIRequestInit,
 	) {
 		return this.request<Extract<Endpoints, {path: Path; method: 'PUT'}>['res']>(
 			'PUT',
@@ -158,7 +239,7 @@ export class APIClient {
 		path: Path,
 		body: Extract<Endpoints, {path: Path; method: 'PATCH'}>['body'],
 		query: Query<Path>,
-		init?: RequestInit,
+		init?: APIRequestInit,
 	) {
 		return this.request<
 			Extract<Endpoints, {path: Path; method: 'PATCH'}>['res']
@@ -169,66 +250,251 @@ export class APIClient {
 		path: Path,
 		body: Extract<Endpoints, {path: Path; method: 'DELETE'}>['body'],
 		query: Query<Path>,
-		init?: RequestInit,
+		init?: APIRequestInit,
 	) {
 		return this.request<
 			Extract<Endpoints, {path: Path; method: 'DELETE'}>['res']
 		>('DELETE', path, body, query, init);
 	}
 
-	async raw<T>(request: Request) {
+	async raw<T>(request: Request, init: APIRequestInit = {}) {
 		request.headers.set('Authorization', this.options.authentication);
 
 		if (!IS_BROWSER) {
 			request.headers.set('User-Agent', 'Hop-API-Client');
 		}
 
-		return this.executeRequest<T>(request);
+		return this.executeRequest<T>(request, init);
 	}
 
-	private async executeRequest<T>(request: Request): Promise<T> {
+	private async executeRequest<T>(
+		request: Request,
+		init: APIRequestInit = {},
+		endpoint: string | null = null,
+	): Promise<T> {
+		await this.resolveAgent();
+
+		const retry = resolveRetryOptions(
+			request.method,
+			this.options.retry,
+			init.retry,
+		);
+
+		const timeout = init.timeout ?? this.options.timeout ?? DEFAULT_TIMEOUT;
+		const signal = init.signal ?? request.signal;
+
+		for (let attempt = 1; ; attempt++) {
+			const isLastAttempt = attempt >= retry.maxAttempts;
+			const attemptSignal = createAttemptSignal(
+				signal,
+				timeout === false ? undefined : timeout,
+			);
+
+			try {
+				let response: Response;
+
+				const send = composeMiddleware(this.options.middleware ?? [], next =>
+					this.send(next, attemptSignal.signal),
+				);
+
+				try {
+					// A request body can only be read once, so we
+					// need to keep the original around for the next attempt
+					response = await send(isLastAttempt ? request : request.clone());
+				} catch (error: unknown) {
+					if (
+						isLastAttempt ||
+						attemptSignal.signal.aborted ||
+						(error instanceof HopAPIError &&
+							!retry.statusCodes.includes(error.status))
+					) {
+						throw error;
+					}
+
+					attemptSignal.clear();
+					await this.waitForRetry(
+						retry,
+						attempt,
+						request,
+						error instanceof HopAPIError ? error.response : null,
+						error,
+						signal,
+					);
+					continue;
+				}
+
+				if (!isLastAttempt && retry.statusCodes.includes(response.status)) {
+					// Free up the connection, we don't care about this body
+					await response.body?.cancel().catch(() => null);
+
+					attemptSignal.clear();
+					await this.waitForRetry(
+						retry,
+						attempt,
+						request,
+						response,
+						null,
+						signal,
+					);
+					continue;
+				}
+
+				return await this.parseResponse<T>(request, response, endpoint);
+			} catch (error: unknown) {
+				if (attemptSignal.timedOut && timeout !== false) {
+					throw new HopTimeoutError(request, timeout);
+				}
+
+				throw error;
+			} finally {
+				attemptSignal.clear();
+			}
+		}
+	}
+
+	private async waitForRetry(
+		retry: RetryOptions,
+		attempt: number,
+		request: Request,
+		response: Response | null,
+		error: unknown,
+		signal: AbortSignal | null,
+	) {
+		const delay = getRetryDelay(attempt, retry, response);
+
+		retry.onRetry?.({attempt, delay, request, response, error});
+
+		await sleep(delay, signal);
+	}
+
+	private async resolveAgent() {
 		if (TSUP_IS_NODE) {
 			if (!this.agent) {
 				const https = await import('https');
 				this.agent = new https.Agent({keepAlive: true});
 			}
 		}
+	}
 
-		const response = await fetch(request, {
+	/**
+	 * Sends a request to the API. This is the innermost handler of the middleware chain
+	 */
+	private async send(request: Request, signal: AbortSignal) {
+		const response = await this.fetch(request, {
 			keepalive: true,
 			headers: request.headers,
+			signal,
 
 			// @ts-expect-error Targeting multiple runtimes, this will only work in node
 			agent: this.agent,
+
+			// Undici (and Node's native fetch) will use this instead of an agent
+			...(this.options.dispatcher ? {dispatcher: this.options.dispatcher} : {}),
 		});
 
-		if (
-			response.status === 204 ||
-			!response.headers.get('Content-Type')?.includes('application/json')
-		) {
+		if (!response.ok) {
+			// Read a copy, so the original body is still
+			// available to anything that wants it later
+			const result = await this.readBody(response.clone());
+
+			if (result && !result.success) {
+				throw createHopAPIError(request, response, result);
+			}
+		}
+
+		return response;
+	}
+
+	private async parseResponse<T>(
+		request: Request,
+		response: Response,
+		endpoint: string | null,
+	): Promise<T> {
+		const result = await this.readBody<T>(response);
+
+		if (!result) {
 			// Probably a DELETE request with no body returned, so return undefined here
 			// This cast is (prolly) safe because endpoints that return nothing
 			// are typed as `Empty`
 			return undefined as unknown as T;
 		}
 
-		const result = await (response.json() as Promise<APIResponse<T>>).catch(
+		if (!result.success) {
+			throw createHopAPIError(request, response, result);
+		}
+
+		if (endpoint && this.options.validateResponses) {
+			await this.validateResponse(request, endpoint, result.data);
+		}
+
+		return result.data;
+	}
+
+	private async validateResponse(
+		request: Request,
+		endpoint: string,
+		data: unknown,
+	) {
+		// Imported lazily so that zod is only loaded by clients that opt in
+		const {validateResponse} = await import('../utils/zod/responses.ts');
+
+		const mismatches = validateResponse(endpoint, data);
+
+		if (mismatches.length === 0) {
+			return;
+		}
+
+		const error = new HopResponseValidationError(request, endpoint, mismatches);
+
+		if (this.options.validateResponses === 'strict') {
+			throw error;
+		}
+
+		console.warn(error.message);
+	}
+
+	private async readBody<T>(
+		response: Response,
+	): Promise<APIResponse<T> | undefined> {
+		if (
+			response.status === 204 ||
+			!response.headers.get('Content-Type')?.includes('application/json')
+		) {
+			return undefined;
+		}
+
+		return (response.json() as Promise<APIResponse<T>>).catch(
 			(error: Error): ErroredAPIResponse => {
 				return {
 					success: false,
 					error: {
-						code: 'local_client_error',
+						code: LOCAL_CLIENT_ERROR_CODE,
 						message: error.message,
 					},
 				};
 			},
 		);
+	}
 
-		if (!result.success) {
-			throw new HopAPIError(request, response, result);
+	/**
+	 * Adds the project this client is scoped to as the `project` query param,
+	 * for endpoints that take one
+	 */
+	private scopeQuery(
+		method: Method,
+		path: string,
+		query: Record<string, string | number | undefined>,
+	) {
+		if (
+			!this.project ||
+			this.authType === 'ptk' ||
+			query.project !== undefined ||
+			!getEndpoint(method, path)?.projectQuery
+		) {
+			return query;
 		}
 
-		return result.data;
+		return {...query, project: this.project};
 	}
 
 	private async request<T>(
@@ -236,9 +502,9 @@ export class APIClient {
 		path: string,
 		body: unknown,
 		query: Record<string, string | number | undefined> = {},
-		init: RequestInit = {},
+		init: APIRequestInit = {},
 	) {
-		const url = this.url(path, query);
+		const url = this.url(path, this.scopeQuery(method, path, query));
 
 		const headers = new Headers({
 			...(init?.headers ?? {}),
@@ -259,13 +525,15 @@ export class APIClient {
 			headers.set('Content-Type', 'application/json');
 		}
 
+		const {retry, timeout, ...requestInit} = init;
+
 		const request = new Request(url, {
 			method,
 			body: body ? JSON.stringify(body) : null,
 			headers,
-			...init,
+			...requestInit,
 		});
 
-		return this.executeRequest<T>(request);
+		return this.executeRequest<T>(request, init, `${method} ${path}`);
 	}
 }
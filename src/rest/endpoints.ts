@@ -62,3 +62,22 @@ export type Endpoints =
 	| PipeEndpoints
 	| ChannelEndpoints
 	| FleetEndpoints;
+
+/**
+ * A key identifying an endpoint, e.g. `GET /v1/channels/:channel_id`
+ * @public
+ */
+export type EndpointKey = Endpoints extends infer E
+	? E extends Endpoints
+		? `${E['method']} ${E['path']}`
+		: never
+	: never;
+
+/**
+ * Finds the endpoint for a key
+ * @public
+ */
+export type EndpointFromKey<K extends EndpointKey> =
+	K extends `${infer M} ${infer P}`
+		? Extract<Endpoints, {method: M; path: P}>
+		: never;
@@ -0,0 +1,357 @@
+import {PROJECT_PERMISSION} from '../permissions.ts';
+import type {ErroredAPIResponse} from './endpoints.ts';
+import type {
+	Build,
+	BuildState,
+	ContainerState,
+	DeploymentRollout,
+	ValidationFailure,
+} from './types/ignite.ts';
+import type {Id} from './types/index.ts';
+import {parseRetryAfter} from './retry.ts';
+
+/**
+ * The error code used when the client could not read the body the API responded with
+ * @public
+ */
+export const LOCAL_CLIENT_ERROR_CODE = 'local_client_error';
+
+/**
+ * An error that occurred as a response from the Hop API.
+ * @public
+ */
+export class HopAPIError extends Error {
+	public readonly status: number;
+
+	constructor(
+		public readonly request: Request,
+		public readonly response: Response,
+		public readonly data: ErroredAPIResponse,
+	) {
+		super(data.error.message);
+
+		this.status = response.status;
+	}
+
+	/**
+	 * The error code returned by the API, e.g. `deployment_not_found`
+	 */
+	get code() {
+		return this.data.error.code;
+	}
+}
+
+/**
+ * The API rejected the token the client is authenticating with
+ * @public
+ */
+export class HopAuthError extends HopAPIError {}
+
+/**
+ * The token the client is authenticating with is valid, but is not allowed to perform this action
+ * @public
+ */
+export class HopPermissionError extends HopAPIError {
+	/**
+	 * The permission that is missing, if the API told us which one
+	 */
+	public readonly permission: PROJECT_PERMISSION | null;
+
+	constructor(request: Request, response: Response, data: ErroredAPIResponse) {
+		super(request, response, data);
+
+		this.permission = findPermission(data.error.message);
+	}
+}
+
+/**
+ * The resource that was requested does not exist
+ * @public
+ */
+export class HopNotFoundError extends HopAPIError {
+	/**
+	 * The kind of resource that was not found, e.g. `deployment`. Taken from the error code
+	 */
+	public readonly resource: string | null;
+
+	constructor(request: Request, response: Response, data: ErroredAPIResponse) {
+		super(request, response, data);
+
+		this.resource = data.error.code.endsWith('_not_found')
+			? data.error.code.slice(0, -'_not_found'.length)
+			: null;
+	}
+}
+
+/**
+ * Too many requests were made to the API
+ * @public
+ */
+export class HopRateLimitError extends HopAPIError {
+	/**
+	 * How long in milliseconds the API asked us to wait before trying again
+	 */
+	public readonly retryAfter: number | null;
+
+	constructor(request: Request, response: Response, data: ErroredAPIResponse) {
+		super(request, response, data);
+
+		this.retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+	}
+}
+
+/**
+ * The API rejected the request body or query
+ * @public
+ */
+export class HopValidationError extends HopAPIError {}
+
+/**
+ * An error thrown when the Hop API did not respond in time.
+ * @public
+ */
+export class HopTimeoutError extends Error {
+	constructor(
+		public readonly request: Request,
+		public readonly timeout: number,
+	) {
+		super(`Request to ${request.url} timed out after ${timeout}ms`);
+	}
+}
+
+/**
+ * A waiter gave up before the thing it was waiting for happened
+ * @public
+ */
+export class HopWaitTimeoutError extends Error {
+	constructor(
+		public readonly description: string,
+		public readonly timeout: number,
+		/**
+		 * The last value the waiter saw before giving up
+		 */
+		public readonly last: unknown,
+	) {
+		super(`Timed out after ${timeout}ms waiting for ${description}`);
+	}
+}
+
+/**
+ * A rollout that was being waited for failed
+ * @public
+ */
+export class HopRolloutFailedError extends Error {
+	/**
+	 * If the rollout failed because a health check did not pass
+	 */
+	public readonly healthCheckFailed: boolean;
+
+	constructor(public readonly rollout: DeploymentRollout) {
+		super(
+			rollout.health_check_failed
+				? `Rollout ${rollout.id} failed because a health check did not pass`
+				: `Rollout ${rollout.id} failed`,
+		);
+
+		this.healthCheckFailed = rollout.health_check_failed;
+	}
+}
+
+/**
+ * A build that was being waited for did not succeed
+ * @public
+ */
+export class HopBuildFailedError extends Error {
+	/**
+	 * The state the build ended in
+	 */
+	public readonly state: BuildState;
+
+	/**
+	 * Why the build was rejected, if it failed validation
+	 */
+	public readonly validationFailure: ValidationFailure | null;
+
+	constructor(public readonly build: Build) {
+		const failure = build.validation_failure;
+
+		super(
+			[
+				`Build ${build.id} ended with state ${build.state}`,
+				failure ? `: ${failure.reason}` : '',
+				failure?.help_link ? ` (see ${failure.help_link})` : '',
+			].join(''),
+		);
+
+		this.state = build.state;
+		this.validationFailure = failure;
+	}
+}
+
+/**
+ * A canary regressed and was rolled back
+ * @public
+ */
+export class HopCanaryFailedError extends Error {
+	constructor(
+		public readonly deploymentId: Id<'deployment'>,
+		/**
+		 * The step the canary regressed at, counting from 1. 0 is the rollout before the first step
+		 */
+		public readonly step: number,
+		/**
+		 * What was wrong with the canary, e.g. a container that failed
+		 */
+		public readonly problems: readonly string[],
+	) {
+		super(
+			[
+				`Canary ${deploymentId} regressed at step ${step} and was rolled back:`,
+				...problems.map(problem => `  ${problem}`),
+			].join('\n'),
+		);
+	}
+}
+
+/**
+ * A container that was being waited for failed or was deleted before reaching the expected state
+ * @public
+ */
+export class HopContainerStateError extends Error {
+	constructor(
+		public readonly containerId: Id<'container'>,
+		public readonly expected: ContainerState,
+		/**
+		 * The state the container ended up in, or null if it was deleted
+		 */
+		public readonly state: ContainerState | null,
+	) {
+		super(
+			state
+				? `Container ${containerId} is ${state} but was expected to be ${expected}`
+				: `Container ${containerId} was deleted before it was ${expected}`,
+		);
+	}
+}
+
+/**
+ * A single place where a response did not match its schema
+ * @public
+ */
+export interface ResponseMismatch {
+	/**
+	 * Where in the response data the mismatch is, e.g. `deployment.config.resources.ram`
+	 */
+	path: string;
+
+	/**
+	 * What was expected at this path
+	 */
+	message: string;
+}
+
+/**
+ * A response from the API did not have the shape the SDK expects.
+ * This is only thrown when the client is created with `validateResponses: 'strict'`
+ * @public
+ */
+export class HopResponseValidationError extends Error {
+	constructor(
+		public readonly request: Request,
+		public readonly endpoint: string,
+		public readonly mismatches: readonly ResponseMismatch[],
+	) {
+		super(
+			[
+				`Response from ${endpoint} did not match the expected schema:`,
+				...mismatches.map(({path, message}) => `  ${path}: ${message}`),
+			].join('\n'),
+		);
+	}
+}
+
+/**
+ * A single problem with the config of a deployment manifest
+ * @public
+ */
+export interface ManifestIssue {
+	/**
+	 * Where in the config the problem is, e.g. `resources.ram`
+	 */
+	path: string;
+
+	/**
+	 * What is wrong with the value at this path
+	 */
+	message: string;
+}
+
+/**
+ * A deployment manifest could not be read or its config is invalid
+ * @public
+ */
+export class HopManifestError extends Error {
+	constructor(
+		message: string,
+		public readonly issues: readonly ManifestIssue[] = [],
+	) {
+		super(
+			[
+				message,
+				...issues.map(({path, message}) => `  ${path}: ${message}`),
+			].join('\n'),
+		);
+	}
+}
+
+const PERMISSIONS = Object.values(PROJECT_PERMISSION);
+
+function findPermission(message: string) {
+	return (
+		PERMISSIONS.find(permission =>
+			new RegExp(`\\b${permission}\\b`).test(message),
+		) ?? null
+	);
+}
+
+/**
+ * Creates the most specific error class for an errored response
+ * @internal
+ */
+export function createHopAPIError(
+	request: Request,
+	response: Response,
+	data: ErroredAPIResponse,
+) {
+	// We don't know what the API meant if we couldn't read the body,
+	// so we can only go off the status code
+	const code =
+		data.error.code === LOCAL_CLIENT_ERROR_CODE ? null : data.error.code;
+
+	if (response.status === 401) {
+		return new HopAuthError(request, response, data);
+	}
+
+	if (response.status === 403 || code === 'missing_permission') {
+		return new HopPermissionError(request, response, data);
+	}
+
+	if (response.status === 404 || code?.endsWith('_not_found')) {
+		return new HopNotFoundError(request, response, data);
+	}
+
+	if (response.status === 429 || code === 'ratelimited') {
+		return new HopRateLimitError(request, response, data);
+	}
+
+	if (
+		response.status === 400 ||
+		response.status === 422 ||
+		code === 'invalid_body' ||
+		code === 'validation_error'
+	) {
+		return new HopValidationError(request, response, data);
+	}
+
+	return new HopAPIError(request, response, data);
+}
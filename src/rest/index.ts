@@ -1,5 +1,32 @@
+export * from './catalog.ts';
 export * from './client.ts';
 export * from './endpoints.ts';
+export {
+	HopAPIError,
+	HopAuthError,
+	HopBuildFailedError,
+	HopCanaryFailedError,
+	HopContainerStateError,
+	HopManifestError,
+	HopNotFoundError,
+	HopPermissionError,
+	HopRateLimitError,
+	HopResponseValidationError,
+	HopRolloutFailedError,
+	HopTimeoutError,
+	HopValidationError,
+	HopWaitTimeoutError,
+	LOCAL_CLIENT_ERROR_CODE,
+	type ManifestIssue,
+	type ResponseMismatch,
+} from './errors.ts';
+export {type Middleware, type MiddlewareNext} from './middleware.ts';
+export {
+	DEFAULT_RETRY_OPTIONS,
+	parseRetryAfter,
+	type RetryEvent,
+	type RetryOptions,
+} from './retry.ts';
 export * from './types/api.ts';
 export * from './types/channels.ts';
 export * from './types/ignite.ts';
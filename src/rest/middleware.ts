@@ -0,0 +1,42 @@
+/**
+ * Passes a request on to the next middleware, or to the Hop API once there are none left.
+ * Rejects with a {@link HopAPIError} if the API responded with an error.
+ * @public
+ */
+export type MiddlewareNext = (request: Request) => Promise<Response>;
+
+/**
+ * Middleware wraps every attempt the API client makes. It can change the outgoing
+ * request before calling `next`, and inspect the response or error that comes back.
+ *
+ * @public
+ *
+ * @example
+ * ```ts
+ * const logger: Middleware = async (request, next) => {
+ * 	const response = await next(request);
+ * 	console.log(request.method, request.url, response.status);
+ * 	return response;
+ * };
+ *
+ * const hop = new Hop({authentication, middleware: [logger]});
+ * ```
+ */
+export type Middleware = (
+	request: Request,
+	next: MiddlewareNext,
+) => Promise<Response>;
+
+/**
+ * Wraps a handler in a list of middleware. The first middleware is the outermost one
+ * @internal
+ */
+export function composeMiddleware(
+	middleware: readonly Middleware[],
+	handler: MiddlewareNext,
+): MiddlewareNext {
+	return middleware.reduceRight<MiddlewareNext>(
+		(next, current) => request => current(request, next),
+		handler,
+	);
+}
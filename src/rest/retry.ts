@@ -0,0 +1,169 @@
+import type {Method} from './types/index.ts';
+
+/**
+ * Information about a request that is about to be retried
+ * @public
+ */
+export interface RetryEvent {
+	/**
+	 * The attempt that failed, starting at 1
+	 */
+	attempt: number;
+
+	/**
+	 * How long in milliseconds the client will wait before the next attempt
+	 */
+	delay: number;
+
+	/**
+	 * The request that failed
+	 */
+	request: Request;
+
+	/**
+	 * The response that caused the retry, or null if the request failed before a response was received
+	 */
+	response: Response | null;
+
+	/**
+	 * The error thrown while making the request, if there was no response
+	 */
+	error: unknown;
+}
+
+/**
+ * Options that control how the API client retries failed requests
+ * @public
+ */
+export interface RetryOptions {
+	/**
+	 * The maximum amount of attempts to make, including the first request.
+	 * Setting this to 1 disables retries.
+	 */
+	readonly maxAttempts: number;
+
+	/**
+	 * The delay in milliseconds that exponential backoff starts from
+	 */
+	readonly baseDelay: number;
+
+	/**
+	 * The maximum delay in milliseconds between two attempts. This does not cap a `Retry-After` sent by the API
+	 */
+	readonly maxDelay: number;
+
+	/**
+	 * Methods that are safe to retry. Defaults to idempotent methods only
+	 */
+	readonly methods: readonly Method[];
+
+	/**
+	 * Response status codes that will be retried
+	 */
+	readonly statusCodes: readonly number[];
+
+	/**
+	 * Whether to wait for the amount of time the API asks for in a `Retry-After` header
+	 */
+	readonly respectRetryAfter: boolean;
+
+	/**
+	 * Called every time before a request is retried
+	 */
+	readonly onRetry?: ((event: RetryEvent) => void) | undefined;
+}
+
+/**
+ * The retry options used when none are passed to the client
+ * @public
+ */
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+	maxAttempts: 3,
+	baseDelay: 250,
+	maxDelay: 10_000,
+	methods: ['GET', 'PUT', 'DELETE'],
+	statusCodes: [408, 429, 500, 502, 503, 504],
+	respectRetryAfter: true,
+};
+
+/**
+ * Merges client level and request level retry options
+ * @internal
+ */
+export function resolveRetryOptions(
+	method: string,
+	clientOptions: Partial<RetryOptions> | false | undefined,
+	requestOptions: Partial<RetryOptions> | false | undefined,
+): RetryOptions {
+	if (
+		requestOptions === false ||
+		(clientOptions === false && !requestOptions)
+	) {
+		return {...DEFAULT_RETRY_OPTIONS, maxAttempts: 1};
+	}
+
+	const options = {
+		...DEFAULT_RETRY_OPTIONS,
+		...(clientOptions || {}),
+		...requestOptions,
+	};
+
+	if (!options.methods.includes(method.toUpperCase() as Method)) {
+		return {...options, maxAttempts: 1};
+	}
+
+	return options;
+}
+
+/**
+ * Parses a `Retry-After` header into milliseconds
+ * @param header - The value of the header. Either an amount of seconds or an HTTP date
+ * @returns The amount of milliseconds to wait, or null if the header is missing or invalid
+ * @public
+ */
+export function parseRetryAfter(header: string | null) {
+	if (!header) {
+		return null;
+	}
+
+	const seconds = Number(header);
+
+	if (!isNaN(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+
+	const date = Date.parse(header);
+
+	if (isNaN(date)) {
+		return null;
+	}
+
+	return Math.max(0, date - Date.now());
+}
+
+/**
+ * Computes how long to wait before the next attempt
+ * @internal
+ */
+export function getRetryDelay(
+	attempt: number,
+	options: RetryOptions,
+	response: Response | null,
+) {
+	if (response && options.respectRetryAfter) {
+		const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+
+		if (retryAfter !== null) {
+			return retryAfter;
+		}
+	}
+
+	// "Full jitter" backoff, so that many clients failing at
+	// the same time don't all retry at the same time
+	const ceiling = Math.min(
+		options.maxDelay,
+		options.baseDelay * 2 ** (attempt - 1),
+	);
+
+	return Math.floor(Math.random() * ceiling);
+}
@@ -514,6 +514,32 @@ export interface Build {
 	validation_failure: ValidationFailure | null;
 }
 
+/**
+ * A line of output from a build
+ * @public
+ */
+export interface BuildLog {
+	/**
+	 * The timestamp of the log
+	 */
+	timestamp: Timestamp;
+
+	/**
+	 * The log message
+	 */
+	message: string;
+
+	/**
+	 * A unique ID for the log, useful for deduplicating logs between polls
+	 */
+	nonce: string;
+
+	/**
+	 * The level of the log. `info` logs are written by Hop rather than the build itself
+	 */
+	level: 'stdout' | 'stderr' | 'info';
+}
+
 /**
  * Information about a deployment's health check configuration
  * @public
@@ -567,6 +593,11 @@ export type HealthCheck = {
 	created_at: Timestamp;
 };
 
+/**
+ * The fields of a health check that can be set. The API fills in the rest
+ */
+export type HealthCheckConfig = Omit<HealthCheck, 'id' | 'created_at'>;
+
 export type Group = {
 	/**
 	 * The ID of the group
@@ -845,6 +876,17 @@ export interface ContainerLog {
 	level: 'stdout' | 'stderr' | 'error' | 'info';
 }
 
+/**
+ * A log from one of the containers in a deployment
+ * @public
+ */
+export interface DeploymentLog extends ContainerLog {
+	/**
+	 * The ID of the container this log came from
+	 */
+	container_id: Id<'container'>;
+}
+
 /**
  * Types of build methods supported by Hop
  * @public
@@ -1044,6 +1086,11 @@ export type IgniteEndpoints =
 			'/v1/ignite/containers/:container_id',
 			Empty | {container: Container}
 	  >
+	| Endpoint<
+			'GET',
+			'/v1/ignite/containers/:container_id',
+			{container: Container}
+	  >
 	| Endpoint<
 			'GET',
 			'/v1/ignite/containers/:container_id/logs',
@@ -1070,9 +1117,46 @@ export type IgniteEndpoints =
 			'POST',
 			'/v1/ignite/gateways/:gateway_id/domains',
 			Empty,
-			{domain: string}
+			{domain: string; redirect?: DomainRedirect | undefined}
 	  >
 	| Endpoint<'GET', '/v1/ignite/gateways/:gateway_id', {gateway: Gateway}>
+	| Endpoint<
+			'PATCH',
+			'/v1/ignite/gateways/:gateway_id',
+			{gateway: Gateway},
+			{
+				name?: string | undefined;
+				target_port?: number | undefined;
+				protocol?: Gateway['protocol'] | undefined;
+				hopsh_domain_enabled?: boolean | undefined;
+			}
+	  >
+	| Endpoint<'DELETE', '/v1/ignite/gateways/:gateway_id', Empty>
+	| Endpoint<
+			'PATCH',
+			'/v1/ignite/domains/:domain_id',
+			{domain: Domain},
+			{redirect: DomainRedirect | null}
+	  >
+	| Endpoint<'GET', '/v1/ignite/builds/:build_id', {build: Build}>
+	| Endpoint<'GET', '/v1/ignite/builds/:build_id/logs', {logs: BuildLog[]}>
+	| Endpoint<'POST', '/v1/ignite/builds/:build_id/cancel', {build: Build}>
+	| Endpoint<
+			'GET',
+			'/v1/ignite/deployments/:deployment_id/builds',
+			{builds: Build[]}
+	  >
+	| Endpoint<
+			'POST',
+			'/v1/ignite/deployments/:deployment_id/builds',
+			{build: Build},
+			{
+				/**
+				 * The commit to build, from the GitHub repo the deployment is linked to
+				 */
+				commit_sha: string;
+			}
+	  >
 	| Endpoint<
 			'GET',
 			'/v1/ignite/deployments/:deployment_id/gateways',
@@ -1106,11 +1190,16 @@ export type IgniteEndpoints =
 			'/v1/ignite/deployments/:deployment_id/rollouts',
 			{rollout: DeploymentRollout}
 	  >
+	| Endpoint<
+			'GET',
+			'/v1/ignite/deployments/:deployment_id/health-check',
+			{health_check: HealthCheck}
+	  >
 	| Endpoint<
 			'POST',
 			'/v1/ignite/deployments/:deployment_id/health-check',
 			{health_check: HealthCheck},
-			Omit<HealthCheck, 'id'>
+			HealthCheckConfig
 	  >
 	| Endpoint<
 			'GET',
@@ -1124,7 +1213,7 @@ export type IgniteEndpoints =
 			'PATCH',
 			'/v1/ignite/deployments/:deployment_id/health-check',
 			{health_check: HealthCheck},
-			Partial<Omit<HealthCheck, 'id'>>
+			Partial<HealthCheckConfig>
 	  >
 	| Endpoint<'DELETE', '/v1/ignite/domains/:domain_id', Empty>
 	| Endpoint<'GET', '/v1/ignite/domains/:domain_id', {domain: Domain}>
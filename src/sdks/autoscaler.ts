@@ -0,0 +1,334 @@
+import type {Hop} from '../hop.ts';
+import type {Id, RequestOptions} from '../rest/index.ts';
+import {ContainerState, type Container} from '../rest/types/ignite.ts';
+import {sleep} from '../util/timers.ts';
+import type {WaitOptions} from '../util/wait.ts';
+
+/**
+ * Options for an {@link Autoscaler}
+ * @public
+ */
+export interface AutoscalerOptions {
+	/**
+	 * The fewest containers the deployment can have
+	 */
+	min: number;
+
+	/**
+	 * The most containers the deployment can have
+	 */
+	max: number;
+
+	/**
+	 * The average usage in percent to aim for. Containers are added when usage is above
+	 * this and removed when it is below. Defaults to 70% CPU
+	 */
+	target?: Partial<Record<'cpu' | 'memory', number>>;
+
+	/**
+	 * How far usage can be from the target, as a fraction of it, before scaling. Defaults to 0.1
+	 */
+	tolerance?: number;
+
+	/**
+	 * The milliseconds between checks. Defaults to 30 seconds
+	 */
+	interval?: number;
+
+	/**
+	 * The milliseconds to wait after scaling before scaling up or down again.
+	 * Defaults to 1 minute up and 5 minutes down
+	 */
+	cooldown?: Partial<Record<'up' | 'down', number>>;
+
+	/**
+	 * The most containers to add or remove at once. Defaults to 1 both ways
+	 */
+	step?: Partial<Record<'up' | 'down', number>>;
+
+	/**
+	 * How many containers are created or deleted at once
+	 */
+	concurrency?: number;
+
+	/**
+	 * Timeout and interval for waiting on the container count to settle after scaling.
+	 * The timeout defaults to the interval between checks
+	 */
+	wait?: Pick<WaitOptions<unknown>, 'timeout' | 'interval'>;
+
+	/**
+	 * Called with every decision, including when the autoscaler decides to do nothing
+	 */
+	onDecision?: (decision: AutoscalerDecision) => void;
+
+	/**
+	 * Called when a check or scaling fails. The autoscaler keeps running afterwards
+	 */
+	onError?: (error: unknown) => void;
+}
+
+/**
+ * What an {@link Autoscaler} decided to do after a check
+ * @public
+ */
+export interface AutoscalerDecision {
+	action: 'scale_up' | 'scale_down' | 'hold';
+
+	/**
+	 * Why the action was chosen
+	 * - `bounds`: the container count was outside of min and max, or usage wanted it to go past them
+	 * - `utilization`: usage was too far from the target
+	 * - `cooldown`: usage was too far from the target, but the deployment was scaled too recently
+	 * - `on_target`: usage was close enough to the target
+	 * - `no_metrics`: no running container reported its usage
+	 */
+	reason: 'bounds' | 'utilization' | 'cooldown' | 'on_target' | 'no_metrics';
+
+	deploymentId: Id<'deployment'>;
+
+	/**
+	 * The number of containers before scaling
+	 */
+	from: number;
+
+	/**
+	 * The number of containers after scaling
+	 */
+	to: number;
+
+	/**
+	 * The average usage in percent over running containers, or null if it is not known
+	 */
+	utilization: Record<'cpu' | 'memory', number | null>;
+
+	timestamp: Date;
+}
+
+function average(containers: Container[], key: 'cpu' | 'memory') {
+	const values = containers.flatMap(container =>
+		container.metrics ? [container.metrics[`${key}_usage_percent`]] : [],
+	);
+
+	if (values.length === 0) {
+		return null;
+	}
+
+	return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Scales a deployment with the manual container strategy based on the usage its containers report.
+ * This runs in your own process, so it only scales while that process is running.
+ *
+ * @public
+ *
+ * @example
+ * ```ts
+ * const autoscaler = new sdks.Autoscaler(hop, deploymentId, {
+ * 	min: 1,
+ * 	max: 10,
+ * 	target: {cpu: 60},
+ * 	onDecision: decision => console.log(decision),
+ * });
+ *
+ * autoscaler.start();
+ * ```
+ */
+export class Autoscaler {
+	private controller: AbortController | null = null;
+	private lastScaledAt = 0;
+
+	constructor(
+		private readonly hop: Hop,
+		public readonly deploymentId: Id<'deployment'>,
+		private readonly options: AutoscalerOptions,
+	) {
+		if (options.min < 0 || options.max < options.min) {
+			throw new Error(
+				'Autoscaler min must be 0 or more and max must be at least min',
+			);
+		}
+	}
+
+	/**
+	 * If the autoscaler is checking the deployment on an interval
+	 */
+	get running() {
+		return this.controller !== null;
+	}
+
+	/**
+	 * Starts checking the deployment on an interval. Does nothing if it is already running
+	 */
+	start() {
+		if (this.controller) {
+			return;
+		}
+
+		const controller = new AbortController();
+		this.controller = controller;
+
+		void this.loop(controller.signal);
+	}
+
+	/**
+	 * Stops checking the deployment. A check that is in progress is aborted, which can
+	 * leave the deployment part way through scaling until the next time it is checked
+	 */
+	stop() {
+		this.controller?.abort();
+		this.controller = null;
+	}
+
+	/**
+	 * Checks the deployment once and scales it if needed
+	 *
+	 * @returns The decision that was made
+	 */
+	async evaluate(init?: RequestOptions) {
+		const {min, max, tolerance = 0.1} = this.options;
+
+		const containers = await this.hop.ignite.deployments.getContainers(
+			this.deploymentId,
+			init,
+		);
+
+		const current = containers.filter(
+			container => container.state !== ContainerState.TERMINATING,
+		).length;
+
+		const running = containers.filter(
+			container => container.state === ContainerState.RUNNING,
+		);
+
+		const utilization = {
+			cpu: average(running, 'cpu'),
+			memory: average(running, 'memory'),
+		};
+
+		const decide = (
+			reason: AutoscalerDecision['reason'],
+			to = current,
+		): AutoscalerDecision => ({
+			action: to > current ? 'scale_up' : to < current ? 'scale_down' : 'hold',
+			reason,
+			deploymentId: this.deploymentId,
+			from: current,
+			to,
+			utilization,
+			timestamp: new Date(),
+		});
+
+		let decision: AutoscalerDecision;
+
+		if (current < min || current > max) {
+			decision = decide('bounds', Math.min(Math.max(current, min), max));
+		} else {
+			decision = this.decideFromUsage(current, utilization, tolerance, decide);
+		}
+
+		if (decision.action !== 'hold') {
+			const {interval = 30_000, wait, concurrency} = this.options;
+
+			// The cooldown starts before scaling, so a scale that fails part way
+			// through still counts and the next check doesn't scale again straight away
+			this.lastScaledAt = Date.now();
+
+			await this.hop.ignite.deployments.scale(
+				this.deploymentId,
+				decision.to,
+				{
+					timeout: interval,
+					...wait,
+					...(concurrency === undefined ? {} : {concurrency}),
+				},
+				init,
+			);
+		}
+
+		this.options.onDecision?.(decision);
+
+		return decision;
+	}
+
+	private decideFromUsage(
+		current: number,
+		utilization: AutoscalerDecision['utilization'],
+		tolerance: number,
+		decide: (
+			reason: AutoscalerDecision['reason'],
+			to?: number,
+		) => AutoscalerDecision,
+	) {
+		const {
+			min,
+			max,
+			target = {cpu: 70},
+			cooldown = {},
+			step = {},
+		} = this.options;
+
+		// How far over or under the target the busiest resource is, e.g. 1.5 is 50% over
+		const ratios = (['cpu', 'memory'] as const).flatMap(key => {
+			const usage = utilization[key];
+			const goal = target[key];
+
+			return usage === null || goal === undefined ? [] : [usage / goal];
+		});
+
+		if (ratios.length === 0 || current === 0) {
+			return decide('no_metrics');
+		}
+
+		const ratio = Math.max(...ratios);
+
+		if (Math.abs(ratio - 1) <= tolerance) {
+			return decide('on_target');
+		}
+
+		const desired = Math.ceil(current * ratio);
+		const direction = desired > current ? 'up' : 'down';
+
+		const wait = cooldown[direction] ?? (direction === 'up' ? 60_000 : 300_000);
+
+		if (Date.now() - this.lastScaledAt < wait) {
+			return decide('cooldown');
+		}
+
+		const size = Math.max(step[direction] ?? 1, 1);
+
+		const to =
+			direction === 'up'
+				? Math.min(desired, current + size, max)
+				: Math.max(desired, current - size, min);
+
+		if (to === current) {
+			return decide(desired === current ? 'on_target' : 'bounds');
+		}
+
+		return decide('utilization', to);
+	}
+
+	private async loop(signal: AbortSignal) {
+		const {interval = 30_000} = this.options;
+
+		while (!signal.aborted) {
+			try {
+				await this.evaluate({signal});
+			} catch (error) {
+				if (signal.aborted) {
+					return;
+				}
+
+				this.options.onError?.(error);
+			}
+
+			try {
+				await sleep(interval, signal);
+			} catch {
+				return;
+			}
+		}
+	}
+}
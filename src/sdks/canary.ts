@@ -0,0 +1,419 @@
+import type {Hop} from '../hop.ts';
+import {
+	HopCanaryFailedError,
+	HopRolloutFailedError,
+	type HealthCheckEventUpdate,
+	type Id,
+	type RequestOptions,
+} from '../rest/index.ts';
+import {ContainerState, ContainerStrategy} from '../rest/types/ignite.ts';
+import {mapConcurrently} from '../util/concurrency.ts';
+import {sleep} from '../util/timers.ts';
+import {waitFor, type WaitOptions} from '../util/wait.ts';
+
+/**
+ * Options for a {@link CanaryController}
+ * @public
+ */
+export interface CanaryOptions {
+	/**
+	 * The percentage of containers the canary runs at each step. The last step should be 100
+	 * to fully replace the stable deployment. Defaults to 10, 25, 50 and 100
+	 */
+	steps?: number[];
+
+	/**
+	 * The milliseconds to watch the canary for after each shift before checking it. Defaults to 1 minute
+	 */
+	bake?: number;
+
+	/**
+	 * How many failed health checks the canary can report before it counts as regressed. Defaults to 0
+	 */
+	maxFailedHealthChecks?: number;
+
+	/**
+	 * How many containers are created or deleted at once
+	 */
+	concurrency?: number;
+
+	/**
+	 * Timeout and interval for waiting on rollouts and containers
+	 */
+	wait?: Pick<WaitOptions<unknown>, 'timeout' | 'interval'>;
+
+	/**
+	 * Called with every step event, for example to log the progress of the canary
+	 */
+	onStep?: (event: CanaryStepEvent) => void;
+}
+
+/**
+ * Something that happened while a {@link CanaryController} was running
+ * @public
+ */
+export interface CanaryStepEvent {
+	/**
+	 * - `rollout`: the canary's existing containers were rolled out to its latest config
+	 * - `shift`: containers were added to the canary
+	 * - `healthy`: the canary passed its checks and containers were removed from the stable deployment
+	 * - `regression`: the canary failed its checks
+	 * - `rolled_back`: both deployments were scaled back to where they started
+	 * - `promoted`: every step passed
+	 */
+	type:
+		| 'rollout'
+		| 'shift'
+		| 'healthy'
+		| 'regression'
+		| 'rolled_back'
+		| 'promoted';
+
+	/**
+	 * The step this happened at, counting from 1. 0 is the rollout before the first step
+	 */
+	step: number;
+
+	/**
+	 * The percentage of containers the canary should run at this step
+	 */
+	percent: number;
+
+	/**
+	 * The number of containers each deployment should have
+	 */
+	containers: Record<'canary' | 'stable', number>;
+
+	/**
+	 * What was wrong with the canary, for `regression` events
+	 */
+	problems: string[];
+
+	timestamp: Date;
+}
+
+/**
+ * Shifts containers from a stable deployment to a canary deployment step by step, checking the
+ * canary's containers and health checks between steps. If the canary regresses, both deployments
+ * are scaled back to where they started and a {@link HopCanaryFailedError} is thrown.
+ *
+ * Both deployments must use the manual container strategy. Health check failures are only
+ * sent as webhook events, so pass them to {@link CanaryController.reportHealthCheckEvent}
+ * for them to be checked.
+ *
+ * @public
+ *
+ * @example
+ * ```ts
+ * const canary = new sdks.CanaryController(hop, stableId, canaryId, {
+ * 	steps: [25, 50, 100],
+ * 	onStep: event => console.log(event),
+ * });
+ *
+ * // In your webhook handler
+ * if (event.event === 'ignite.deployment.healthcheck.events.failed') {
+ * 	canary.reportHealthCheckEvent(event.data);
+ * }
+ *
+ * await canary.run();
+ * ```
+ */
+export class CanaryController {
+	private readonly failedHealthChecks = new Map<string, number>();
+	private readonly steps: number[];
+
+	constructor(
+		private readonly hop: Hop,
+		public readonly stableId: Id<'deployment'>,
+		public readonly canaryId: Id<'deployment'>,
+		private readonly options: CanaryOptions = {},
+	) {
+		this.steps = options.steps ?? [10, 25, 50, 100];
+
+		const ascending = this.steps.every(
+			(percent, index) =>
+				percent > 0 && percent <= 100 && percent > (this.steps[index - 1] ?? 0),
+		);
+
+		if (this.steps.length === 0 || !ascending) {
+			throw new Error(
+				'Canary steps must be increasing percentages between 1 and 100',
+			);
+		}
+	}
+
+	/**
+	 * Records a health check event from a webhook. Events for other deployments are ignored
+	 *
+	 * @param event - The data of an `ignite.deployment.healthcheck.events.failed` or `succeeded` event
+	 */
+	reportHealthCheckEvent(event: HealthCheckEventUpdate) {
+		if (event.deployment_id !== this.canaryId || event.state !== 'failed') {
+			return;
+		}
+
+		this.failedHealthChecks.set(
+			event.container_id,
+			(this.failedHealthChecks.get(event.container_id) ?? 0) + 1,
+		);
+	}
+
+	/**
+	 * Runs every step of the canary. If the signal in `init` aborts, the deployments are left as they are
+	 *
+	 * @returns The stable and canary deployments once every step has passed
+	 * @throws {@link Error} if either deployment does not use the manual container strategy
+	 * @throws {@link HopCanaryFailedError} if the canary regressed and was rolled back
+	 * @throws The error that stopped the canary, with the rollback error as its `cause`, if rolling back failed too
+	 */
+	async run(init?: RequestOptions) {
+		const {deployments} = this.hop.ignite;
+
+		const [stable, canary] = await Promise.all([
+			deployments.get(this.stableId, init),
+			deployments.get(this.canaryId, init),
+		]);
+
+		for (const deployment of [stable, canary]) {
+			if (deployment.config.container_strategy !== ContainerStrategy.MANUAL) {
+				throw new Error(
+					`Deployment ${deployment.id} must use the manual container strategy to run a canary`,
+				);
+			}
+		}
+
+		this.failedHealthChecks.clear();
+
+		const total = Math.max(stable.target_container_count, 1);
+		const original = {
+			stable: stable.target_container_count,
+			canary: canary.target_container_count,
+		};
+
+		const containers = {...original};
+		let step = 0;
+		let percent = 0;
+
+		const emit = (type: CanaryStepEvent['type'], problems: string[] = []) => {
+			this.options.onStep?.({
+				type,
+				step,
+				percent,
+				containers: {...containers},
+				problems,
+				timestamp: new Date(),
+			});
+		};
+
+		try {
+			if (canary.target_container_count > 0) {
+				await this.rollOut(init);
+				emit('rollout');
+			}
+
+			for (const [index, stepPercent] of this.steps.entries()) {
+				step = index + 1;
+				percent = stepPercent;
+
+				const canaryCount = Math.ceil((total * percent) / 100);
+
+				// Containers are added to the canary before they are removed from the stable
+				// deployment, so the number of containers serving traffic never drops
+				await this.addCanaryContainers(canaryCount - containers.canary, init);
+
+				containers.canary = Math.max(canaryCount, containers.canary);
+				emit('shift');
+
+				await sleep(this.options.bake ?? 60_000, init?.signal);
+
+				const problems = await this.check(init);
+
+				if (problems.length > 0) {
+					throw new HopCanaryFailedError(this.canaryId, step, problems);
+				}
+
+				await this.removeStableContainers(
+					containers.stable - (total - canaryCount),
+					init,
+				);
+
+				containers.stable = Math.min(total - canaryCount, containers.stable);
+				emit('healthy');
+			}
+		} catch (error) {
+			if (init?.signal?.aborted) {
+				throw error;
+			}
+
+			const problems =
+				error instanceof HopCanaryFailedError
+					? [...error.problems]
+					: [error instanceof Error ? error.message : String(error)];
+
+			const failure =
+				error instanceof HopRolloutFailedError
+					? new HopCanaryFailedError(this.canaryId, step, problems)
+					: error;
+
+			emit('regression', problems);
+
+			try {
+				await this.rollBack(original, init);
+			} catch (rollbackError) {
+				// The failure that started the rollback is what the caller needs to see
+				if (failure instanceof Error) {
+					throw Object.assign(failure, {cause: rollbackError});
+				}
+
+				throw new Error(String(failure), {cause: rollbackError});
+			}
+
+			containers.stable = original.stable;
+			containers.canary = original.canary;
+			emit('rolled_back');
+
+			throw failure;
+		}
+
+		emit('promoted');
+
+		return Promise.all([
+			deployments.get(this.stableId, init),
+			deployments.get(this.canaryId, init),
+		]);
+	}
+
+	/**
+	 * Rolls out the canary's existing containers so they run its latest config
+	 */
+	private async rollOut(init: RequestOptions | undefined) {
+		const rollout = await this.hop.ignite.deployments.rollout(
+			this.canaryId,
+			init,
+		);
+
+		await this.hop.ignite.waitForRollout(rollout, this.options.wait, init);
+	}
+
+	private async addCanaryContainers(
+		count: number,
+		init: RequestOptions | undefined,
+	) {
+		if (count <= 0) {
+			return;
+		}
+
+		await mapConcurrently(
+			Array.from({length: count}),
+			this.options.concurrency ?? 5,
+			async () => this.hop.ignite.containers.create(this.canaryId, init),
+		);
+
+		// Containers can only be checked once they have started
+		await waitFor(
+			`the containers of canary ${this.canaryId} to start`,
+			async () =>
+				this.hop.ignite.deployments.getContainers(this.canaryId, init),
+			current =>
+				current.every(container => container.state !== ContainerState.PENDING),
+			this.options.wait ?? {},
+			init?.signal,
+		);
+	}
+
+	private async removeStableContainers(
+		count: number,
+		init: RequestOptions | undefined,
+	) {
+		if (count <= 0) {
+			return;
+		}
+
+		const containers = await this.hop.ignite.deployments.getContainers(
+			this.stableId,
+			init,
+		);
+
+		// Containers that are not serving traffic are removed first
+		const removable = containers
+			.filter(container => container.state !== ContainerState.TERMINATING)
+			.sort(
+				(a, b) =>
+					Number(a.state === ContainerState.RUNNING) -
+					Number(b.state === ContainerState.RUNNING),
+			)
+			.slice(0, count);
+
+		await mapConcurrently(
+			removable,
+			this.options.concurrency ?? 5,
+			async container =>
+				this.hop.ignite.containers.delete(container.id, {}, init),
+		);
+	}
+
+	/**
+	 * Lists what is wrong with the canary, if anything
+	 */
+	private async check(init: RequestOptions | undefined) {
+		const [deployment, containers] = await Promise.all([
+			this.hop.ignite.deployments.get(this.canaryId, init),
+			this.hop.ignite.deployments.getContainers(this.canaryId, init),
+		]);
+
+		const problems = containers
+			.filter(
+				container =>
+					container.state === ContainerState.FAILED ||
+					container.state === ContainerState.EXITED,
+			)
+			.map(container => `Container ${container.id} is ${container.state}`);
+
+		if (deployment.latest_rollout?.health_check_failed) {
+			problems.push(
+				`Rollout ${deployment.latest_rollout.id} failed a health check`,
+			);
+		}
+
+		const failed = [...this.failedHealthChecks.values()].reduce(
+			(sum, value) => sum + value,
+			0,
+		);
+
+		if (failed > (this.options.maxFailedHealthChecks ?? 0)) {
+			problems.push(`${failed} health checks failed`);
+		}
+
+		return problems;
+	}
+
+	/**
+	 * Scales both deployments back to the number of containers they started with
+	 */
+	private async rollBack(
+		original: Record<'canary' | 'stable', number>,
+		init: RequestOptions | undefined,
+	) {
+		const options = {
+			...this.options.wait,
+			...(this.options.concurrency === undefined
+				? {}
+				: {concurrency: this.options.concurrency}),
+		};
+
+		// The stable deployment is restored first so that it can take all the traffic again
+		await this.hop.ignite.deployments.scale(
+			this.stableId,
+			original.stable,
+			options,
+			init,
+		);
+
+		await this.hop.ignite.deployments.scale(
+			this.canaryId,
+			original.canary,
+			options,
+			init,
+		);
+	}
+}
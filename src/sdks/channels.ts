@@ -1,6 +1,6 @@
 import {create} from '@onehop/json-methods';
-import type {API, Id} from '../rest/index.ts';
-import {sdk} from './create.ts';
+import type {API, Id, RequestOptions} from '../rest/index.ts';
+import {resolveProjectInit, sdk} from './create.ts';
 
 /**
  * New state to set to a channel, or a callback function that will produce the new state
@@ -18,30 +18,35 @@ export const channels = sdk(client => {
 	const Channels = create<API.Channels.Channel>().methods({
 		async setState<T extends API.Channels.AnyStateObject>(
 			state: SetStateAction<T>,
+			init?: RequestOptions,
 		) {
-			await updateState(this.id, state, 'set');
+			await updateState(this.id, state, 'set', init);
 		},
 
 		async patchState<T extends API.Channels.AnyStateObject>(
 			state: SetStateAction<T>,
+			init?: RequestOptions,
 		) {
-			await updateState(this.id, state, 'patch');
+			await updateState(this.id, state, 'patch', init);
 		},
 
-		async subscribeToken(token: Id<'leap_token'>) {
-			await channelsSDK.subscribeToken(this.id, token);
+		async subscribeToken(token: Id<'leap_token'>, init?: RequestOptions) {
+			await channelsSDK.subscribeToken(this.id, token, init);
 		},
 
-		async subscribeTokens(tokens: Id<'leap_token'>[] | Set<Id<'leap_token'>>) {
-			await channelsSDK.subscribeTokens(this.id, tokens);
+		async subscribeTokens(
+			tokens: Id<'leap_token'>[] | Set<Id<'leap_token'>>,
+			init?: RequestOptions,
+		) {
+			await channelsSDK.subscribeTokens(this.id, tokens, init);
 		},
 
-		async removeToken(token: Id<'leap_token'>) {
-			await channelsSDK.removeToken(this.id, token);
+		async removeToken(token: Id<'leap_token'>, init?: RequestOptions) {
+			await channelsSDK.removeToken(this.id, token, init);
 		},
 
-		async publishMessage(name: string, data: unknown) {
-			await channelsSDK.publishMessage(this.id, name, data);
+		async publishMessage(name: string, data: unknown, init?: RequestOptions) {
+			await channelsSDK.publishMessage(this.id, name, data, init);
 		},
 	});
 
@@ -49,6 +54,7 @@ export const channels = sdk(client => {
 		channelId: API.Channels.Channel['id'],
 		newState: SetStateAction<T>,
 		mode: 'patch' | 'set',
+		init?: RequestOptions,
 	) {
 		let state: API.Channels.AnyStateObject;
 
@@ -56,6 +62,7 @@ export const channels = sdk(client => {
 			const {state: oldState} = await client.get(
 				'/v1/channels/:channel_id/state',
 				{channel_id: channelId},
+				init,
 			);
 
 			state = await newState(oldState as T);
@@ -64,13 +71,19 @@ export const channels = sdk(client => {
 		}
 
 		if (mode === 'patch') {
-			await client.patch('/v1/channels/:channel_id/state', state, {
-				channel_id: channelId,
-			});
+			await client.patch(
+				'/v1/channels/:channel_id/state',
+				state,
+				{channel_id: channelId},
+				init,
+			);
 		} else {
-			await client.put('/v1/channels/:channel_id/state', state, {
-				channel_id: channelId,
-			});
+			await client.put(
+				'/v1/channels/:channel_id/state',
+				state,
+				{channel_id: channelId},
+				init,
+			);
 		}
 	}
 
@@ -81,13 +94,21 @@ export const channels = sdk(client => {
 		 * @param type - The type of the channel to create
 		 * @param id - An ID to assign to the channel (optional, set this to `undefined` or `null` if you do not want to specify an ID)
 		 * @param project - A project ID (if necessary) to assign this to
+		 * @param init - Options for this request
 		 */
 		async create<T extends API.Channels.AnyStateObject>(
 			type: API.Channels.ChannelType,
 			id?: string | null,
 			options?: {state?: T} | null,
-			project?: Id<'project'>,
+			projectOrInit?: Id<'project'> | RequestOptions,
+			maybeInit?: RequestOptions,
 		) {
+			const [project, init] = resolveProjectInit(
+				client,
+				projectOrInit,
+				maybeInit,
+			);
+
 			if (!project && client.authType !== 'ptk') {
 				throw new Error(
 					'Project must be provided when creating a channel with bearer or PAT auth',
@@ -99,20 +120,24 @@ export const channels = sdk(client => {
 						'/v1/channels/:channel_id',
 						{type, state: options?.state ?? {}},
 						{project, channel_id: id},
+						init,
 				  )
 				: await client.post(
 						'/v1/channels',
 						{type, state: options?.state ?? {}},
 						{project},
+						init,
 				  );
 
 			return Channels.from(channel);
 		},
 
-		async get(id: API.Channels.Channel['id']) {
-			const {channel} = await client.get('/v1/channels/:channel_id', {
-				channel_id: id,
-			});
+		async get(id: API.Channels.Channel['id'], init?: RequestOptions) {
+			const {channel} = await client.get(
+				'/v1/channels/:channel_id',
+				{channel_id: id},
+				init,
+			);
 
 			return Channels.from(channel);
 		},
@@ -121,15 +146,25 @@ export const channels = sdk(client => {
 		 * Get all channels for a project
 		 *
 		 * @param project - An optional project ID if authenticating with a PAT or Bearer
+		 * @param init - Options for this request
 		 */
-		async getAll(project?: Id<'project'>) {
-			const {channels} = await client.get('/v1/channels', {project});
+		async getAll(
+			projectOrInit?: Id<'project'> | RequestOptions,
+			maybeInit?: RequestOptions,
+		) {
+			const [project, init] = resolveProjectInit(
+				client,
+				projectOrInit,
+				maybeInit,
+			);
+			const {channels} = await client.get('/v1/channels', {project}, init);
 			return channels.map(Channels.from);
 		},
 
 		async subscribeToken(
 			channel: API.Channels.Channel | API.Channels.Channel['id'],
 			token: Id<'leap_token'>,
+			init?: RequestOptions,
 		) {
 			const id = typeof channel === 'object' ? channel.id : channel;
 
@@ -137,12 +172,14 @@ export const channels = sdk(client => {
 				'/v1/channels/:channel_id/subscribers/:token',
 				undefined,
 				{channel_id: id, token},
+				init,
 			);
 		},
 
 		async removeToken(
 			channel: API.Channels.Channel | API.Channels.Channel['id'],
 			token: Id<'leap_token'>,
+			init?: RequestOptions,
 		) {
 			const id = typeof channel === 'object' ? channel.id : channel;
 
@@ -150,17 +187,19 @@ export const channels = sdk(client => {
 				'/v1/channels/:channel_id/subscribers/:token',
 				undefined,
 				{channel_id: id, token},
+				init,
 			);
 		},
 
 		async subscribeTokens(
 			channel: API.Channels.Channel | API.Channels.Channel['id'],
 			tokens: Iterable<Id<'leap_token'>>,
+			init?: RequestOptions,
 		) {
 			const promises: Array<Promise<void>> = [];
 
 			for (const subscription of tokens) {
-				promises.push(this.subscribeToken(channel, subscription));
+				promises.push(this.subscribeToken(channel, subscription, init));
 			}
 
 			await Promise.allSettled(promises);
@@ -169,11 +208,12 @@ export const channels = sdk(client => {
 		async removeTokens(
 			channel: API.Channels.Channel | API.Channels.Channel['id'],
 			tokens: Iterable<Id<'leap_token'>>,
+			init?: RequestOptions,
 		) {
 			const promises: Array<Promise<void>> = [];
 
 			for (const subscription of tokens) {
-				promises.push(this.removeToken(channel, subscription));
+				promises.push(this.removeToken(channel, subscription, init));
 			}
 
 			await Promise.allSettled(promises);
@@ -181,12 +221,15 @@ export const channels = sdk(client => {
 
 		async getAllTokens(
 			channel: API.Channels.Channel['id'] | API.Channels.Channel,
+			init?: RequestOptions,
 		) {
 			const id = typeof channel === 'object' ? channel.id : channel;
 
-			const {tokens} = await client.get('/v1/channels/:channel_id/tokens', {
-				channel_id: id,
-			});
+			const {tokens} = await client.get(
+				'/v1/channels/:channel_id/tokens',
+				{channel_id: id},
+				init,
+			);
 
 			return tokens;
 		},
@@ -196,17 +239,19 @@ export const channels = sdk(client => {
 		>(
 			channel: API.Channels.Channel | API.Channels.Channel['id'],
 			state: SetStateAction<T>,
+			init?: RequestOptions,
 		) {
 			const id = typeof channel === 'object' ? channel.id : channel;
-			return updateState(id, state, 'set');
+			return updateState(id, state, 'set', init);
 		},
 
 		async patchState<T extends API.Channels.AnyStateObject>(
 			channel: API.Channels.Channel | API.Channels.Channel['id'],
 			state: SetStateAction<T>,
+			init?: RequestOptions,
 		) {
 			const id = typeof channel === 'object' ? channel.id : channel;
-			return updateState(id, state, 'patch');
+			return updateState(id, state, 'patch', init);
 		},
 
 		/**
@@ -215,11 +260,13 @@ export const channels = sdk(client => {
 		 * @param channel - The channel to publish to
 		 * @param event - The event name
 		 * @param data - The data for this event
+		 * @param init - Options for this request
 		 */
 		async publishMessage<T>(
 			channel: API.Channels.Channel | API.Channels.Channel['id'],
 			event: string,
 			data: T,
+			init?: RequestOptions,
 		) {
 			const id = typeof channel === 'object' ? channel.id : channel;
 
@@ -227,28 +274,37 @@ export const channels = sdk(client => {
 				'/v1/channels/:channel_id/messages',
 				{e: event, d: data},
 				{channel_id: id},
+				init,
 			);
 		},
 
-		async delete(id: API.Channels.Channel['id']) {
-			await client.delete('/v1/channels/:channel_id', undefined, {
-				channel_id: id,
-			});
+		async delete(id: API.Channels.Channel['id'], init?: RequestOptions) {
+			await client.delete(
+				'/v1/channels/:channel_id',
+				undefined,
+				{channel_id: id},
+				init,
+			);
 		},
 
-		async getStats(id: API.Channels.Channel['id']) {
-			const {stats} = await client.get('/v1/channels/:channel_id/stats', {
-				channel_id: id,
-			});
+		async getStats(id: API.Channels.Channel['id'], init?: RequestOptions) {
+			const {stats} = await client.get(
+				'/v1/channels/:channel_id/stats',
+				{channel_id: id},
+				init,
+			);
 
 			return stats;
 		},
 
 		tokens: {
-			async delete(token: Id<'leap_token'>) {
-				await client.delete('/v1/channels/tokens/:token', undefined, {
-					token,
-				});
+			async delete(token: Id<'leap_token'>, init?: RequestOptions) {
+				await client.delete(
+					'/v1/channels/tokens/:token',
+					undefined,
+					{token},
+					init,
+				);
 			},
 
 			/**
@@ -256,11 +312,19 @@ export const channels = sdk(client => {
 			 *
 			 * @param state - The state to set on the token
 			 * @param project - The project to attach this token to
+			 * @param init - Options for this request
 			 */
 			async create(
 				state: API.Channels.AnyStateObject = {},
-				project?: Id<'project'>,
+				projectOrInit?: Id<'project'> | RequestOptions,
+				maybeInit?: RequestOptions,
 			) {
+				const [project, init] = resolveProjectInit(
+					client,
+					projectOrInit,
+					maybeInit,
+				);
+
 				if (!project && client.authType !== 'ptk') {
 					throw new Error(
 						'Project must be provided when creating a channel token with bearer or PAT auth',
@@ -271,6 +335,7 @@ export const channels = sdk(client => {
 					'/v1/channels/tokens',
 					{state},
 					{project},
+					init,
 				);
 
 				return token;
@@ -279,32 +344,41 @@ export const channels = sdk(client => {
 			async setState(
 				id: Id<'leap_token'>,
 				state: API.Channels.ChannelToken['state'],
+				init?: RequestOptions,
 			) {
 				const {token} = await client.patch(
 					'/v1/channels/tokens/:token',
 					{state},
 					{token: id},
+					init,
 				);
 
 				return token;
 			},
 
-			async get(id: Id<'leap_token'>) {
-				const {token} = await client.get('/v1/channels/tokens/:token', {
-					token: id,
-				});
+			async get(id: Id<'leap_token'>, init?: RequestOptions) {
+				const {token} = await client.get(
+					'/v1/channels/tokens/:token',
+					{token: id},
+					init,
+				);
 
 				return token;
 			},
 
-			async isOnline(idOrToken: Id<'leap_token'> | API.Channels.ChannelToken) {
+			async isOnline(
+				idOrToken: Id<'leap_token'> | API.Channels.ChannelToken,
+				init?: RequestOptions,
+			) {
 				if (typeof idOrToken === 'object') {
 					return idOrToken.is_online;
 				}
 
-				const {token} = await client.get('/v1/channels/tokens/:token', {
-					token: idOrToken,
-				});
+				const {token} = await client.get(
+					'/v1/channels/tokens/:token',
+					{token: idOrToken},
+					init,
+				);
 
 				return token.is_online;
 			},
@@ -314,16 +388,19 @@ export const channels = sdk(client => {
 			 * @param token - The token to publish a direct message to
 			 * @param event - The event name
 			 * @param data - The data for this event
+			 * @param init - Options for this request
 			 */
 			async publishDirectMessage<T>(
 				token: Id<'leap_token'>,
 				event: string,
 				data: T,
+				init?: RequestOptions,
 			) {
 				await client.post(
 					'/v1/channels/tokens/:token/messages',
 					{e: event, d: data},
 					{token},
+					init,
 				);
 			},
 		},
@@ -1,6 +1,28 @@
-import {APIClient} from '../rest/index.ts';
+import type {APIClient, Id, RequestOptions} from '../rest/index.ts';
 
 // TODO: Add `const T` here when esbuild supports it
 export function sdk<T>(builder: (client: APIClient) => T) {
 	return builder;
 }
+
+/**
+ * Methods that take an optional project ID as their last argument can also be
+ * called with request options in its place. This splits the two apart.
+ *
+ * When no project ID is passed, the project the client is scoped to is used instead.
+ * Project tokens never get one so that methods fall back to the `@this` routes.
+ * @internal
+ */
+export function resolveProjectInit(
+	client: APIClient,
+	projectIdOrInit: Id<'project'> | RequestOptions | undefined,
+	init: RequestOptions | undefined,
+): [projectId: Id<'project'> | undefined, init: RequestOptions | undefined] {
+	const scoped = client.authType === 'ptk' ? undefined : client.project;
+
+	if (typeof projectIdOrInit === 'object') {
+		return [scoped, projectIdOrInit];
+	}
+
+	return [projectIdOrInit ?? scoped, init];
+}
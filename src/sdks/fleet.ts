@@ -1,33 +1,47 @@
 import {create} from '@onehop/json-methods';
-import type {FleetSchedulingState, Id, Node} from '..';
-import {sdk} from './create';
+import type {FleetSchedulingState, Id, Node, RequestOptions} from '..';
+import {resolveProjectInit, sdk} from './create';
 
 export const fleet = sdk(client => {
 	const Nodes = create<Node>().methods({
-		async deleteNode() {
-			return await fleetSDK.deleteNode(this.id, this.project_id);
+		async deleteNode(init?: RequestOptions) {
+			return await fleetSDK.deleteNode(this.id, this.project_id, init);
 		},
 
-		async editNode(data: {schedulingState: FleetSchedulingState}) {
-			return await fleetSDK.editNode(this.id, data, this.project_id);
+		async editNode(
+			data: {schedulingState: FleetSchedulingState},
+			init?: RequestOptions,
+		) {
+			return await fleetSDK.editNode(this.id, data, this.project_id, init);
 		},
 
-		async regenerateToken() {
-			return await fleetSDK.regenerateToken(this.id, this.project_id);
+		async regenerateToken(init?: RequestOptions) {
+			return await fleetSDK.regenerateToken(this.id, this.project_id, init);
 		},
 	});
 
 	const fleetSDK = {
-		async getNodes(projectId?: Id<'project'>) {
+		async getNodes(
+			projectIdOrInit?: Id<'project'> | RequestOptions,
+			maybeInit?: RequestOptions,
+		) {
+			const [projectId, init] = resolveProjectInit(
+				client,
+				projectIdOrInit,
+				maybeInit,
+			);
+
 			if (client.authType !== 'ptk' && !projectId) {
 				throw new Error(
 					'Project ID is required for bearer or PAT authentication to get all fleet nodes.',
 				);
 			}
 
-			const {nodes} = await client.get('/v1/fleet/nodes', {
-				project: projectId,
-			});
+			const {nodes} = await client.get(
+				'/v1/fleet/nodes',
+				{project: projectId},
+				init,
+			);
 
 			return nodes.map(n => Nodes.from(n));
 		},
@@ -35,8 +49,15 @@ export const fleet = sdk(client => {
 		async createNode(
 			name: string,
 			schedulingState: FleetSchedulingState,
-			projectId?: Id<'project'>,
+			projectIdOrInit?: Id<'project'> | RequestOptions,
+			maybeInit?: RequestOptions,
 		) {
+			const [projectId, init] = resolveProjectInit(
+				client,
+				projectIdOrInit,
+				maybeInit,
+			);
+
 			if (client.authType !== 'ptk' && !projectId) {
 				throw new Error(
 					'Project ID is required for bearer or PAT authentication to patch a fleet node.',
@@ -52,12 +73,17 @@ export const fleet = sdk(client => {
 				{
 					project: projectId,
 				},
+				init,
 			);
 
 			return {node: Nodes.from(node), token};
 		},
 
-		async regenerateToken(nodeId: Id<'fleet_node'>, projectId: Id<'project'>) {
+		async regenerateToken(
+			nodeId: Id<'fleet_node'>,
+			projectId: Id<'project'>,
+			init?: RequestOptions,
+		) {
 			const {token} = await client.post(
 				'/v1/fleet/nodes/:node_id/token',
 				undefined,
@@ -65,6 +91,7 @@ export const fleet = sdk(client => {
 					node_id: nodeId,
 					project: projectId,
 				},
+				init,
 			);
 
 			return token;
@@ -75,8 +102,15 @@ export const fleet = sdk(client => {
 			data: {
 				schedulingState: FleetSchedulingState;
 			},
-			projectId?: Id<'project'>,
+			projectIdOrInit?: Id<'project'> | RequestOptions,
+			maybeInit?: RequestOptions,
 		) {
+			const [projectId, init] = resolveProjectInit(
+				client,
+				projectIdOrInit,
+				maybeInit,
+			);
+
 			if (client.authType !== 'ptk' && !projectId) {
 				throw new Error(
 					'Project ID is required for bearer or PAT authentication to edit a fleet node.',
@@ -92,22 +126,35 @@ export const fleet = sdk(client => {
 					node_id: nodeId,
 					project: projectId,
 				},
+				init,
 			);
 
 			return node;
 		},
 
-		async deleteNode(nodeId: Id<'fleet_node'>, projectId?: Id<'project'>) {
+		async deleteNode(
+			nodeId: Id<'fleet_node'>,
+			projectIdOrInit?: Id<'project'> | RequestOptions,
+			maybeInit?: RequestOptions,
+		) {
+			const [projectId, init] = resolveProjectInit(
+				client,
+				projectIdOrInit,
+				maybeInit,
+			);
+
 			if (client.authType !== 'ptk' && !projectId) {
 				throw new Error(
 					'Project ID is required for bearer or PAT authentication to delete a fleet node.',
 				);
 			}
 
-			await client.delete('/v1/fleet/nodes/:node_id', undefined, {
-				node_id: nodeId,
-				project: projectId,
-			});
+			await client.delete(
+				'/v1/fleet/nodes/:node_id',
+				undefined,
+				{node_id: nodeId, project: projectId},
+				init,
+			);
 		},
 	};
 
@@ -1,50 +1,415 @@
-import {create, type Infer} from '@onehop/json-methods';
-import {API, assertId, type Id} from '../rest/index.ts';
 import {
+	create,
+	type Infer,
+	type JSONMethodInstance,
+} from '@onehop/json-methods';
+import {
+	API,
+	type APIClient,
+	assertId,
+	HopBuildFailedError,
+	HopContainerStateError,
+	HopManifestError,
+	HopNotFoundError,
+	HopRolloutFailedError,
+	type Id,
+	type RequestOptions,
+} from '../rest/index.ts';
+import {
+	ContainerState,
+	ContainerStrategy,
 	GatewayType,
-	RuntimeType,
 	type Deployment,
 	type DeploymentConfig,
 	type DeploymentMetadata,
 	type Gateway,
 } from '../rest/types/ignite.ts';
-import {parseSize, validateId} from '../util/index.ts';
-import {sdk} from './create.ts';
+import {mapConcurrently} from '../util/concurrency.ts';
+import {
+	checkDeploymentConfig,
+	diffDeploymentConfig,
+} from '../util/deployments.ts';
+import {validateId} from '../util/index.ts';
+import {
+	DEPLOYMENT_MANIFEST_VERSION,
+	getSecretReferences,
+	readDeploymentManifest,
+	remapSecretReferences,
+	type DeploymentManifest,
+} from '../util/manifests.ts';
+import {sleep} from '../util/timers.ts';
+import {waitFor, type WaitOptions} from '../util/wait.ts';
+import {resolveProjectInit, sdk} from './create.ts';
+
+/**
+ * The order that containers are removed in when scaling down, so that
+ * containers that are not doing anything go first
+ */
+const CONTAINER_REMOVAL_ORDER = [
+	ContainerState.FAILED,
+	ContainerState.EXITED,
+	ContainerState.STOPPED,
+	ContainerState.PENDING,
+	ContainerState.RUNNING,
+];
+
+/**
+ * The status codes that a domain can redirect with
+ */
+const REDIRECT_STATUS_CODES: ReadonlySet<number> = new Set([
+	301, 302, 307, 308,
+]);
+
+/**
+ * Checks a redirect before sending it, for callers that pass an untyped status code or URL
+ */
+function assertRedirect(redirect: API.Ignite.DomainRedirect) {
+	if (!REDIRECT_STATUS_CODES.has(redirect.status_code)) {
+		throw new Error(
+			`Redirects must use a 301, 302, 307 or 308 status code, not ${redirect.status_code}`,
+		);
+	}
+
+	try {
+		new URL(redirect.url);
+	} catch {
+		throw new Error(`Redirect URL ${redirect.url} is not a valid URL`);
+	}
+}
+
+/**
+ * How many configs are kept in the local history of each deployment
+ */
+const MAX_HISTORY_ENTRIES = 20;
+
+/**
+ * A config that was applied to a deployment through this client
+ * @public
+ */
+export interface DeploymentHistoryEntry {
+	config: Deployment['config'];
+
+	/**
+	 * The build the deployment was on when this config was applied
+	 */
+	buildId: Id<'build'> | null;
+
+	/**
+	 * The rollout that this config was rolled out with, or null if it has not been rolled out
+	 */
+	rolloutId: Id<'rollout'> | null;
+
+	appliedAt: Date;
+}
+
+/**
+ * The local history of every deployment, kept per client so that every SDK made from a client shares it
+ */
+const histories = new WeakMap<
+	APIClient,
+	Map<Id<'deployment'>, DeploymentHistoryEntry[]>
+>();
+
+function getHistoryStore(client: APIClient) {
+	let history = histories.get(client);
+
+	if (!history) {
+		history = new Map();
+		histories.set(client, history);
+	}
+
+	return history;
+}
+
+/**
+ * Makes a client use the same local deployment history as another, for clients created from another client
+ * @internal
+ */
+export function shareDeploymentHistory(from: APIClient, to: APIClient) {
+	histories.set(to, getHistoryStore(from));
+}
+
+/**
+ * Options for streaming the logs of a container or deployment
+ * @public
+ */
+export type LogStreamOptions = Partial<{
+	/**
+	 * Keep polling for new logs instead of ending after the existing ones
+	 */
+	follow: boolean;
+
+	/**
+	 * Skip logs older than this
+	 */
+	since: Date | string;
+
+	/**
+	 * Only include logs of these levels
+	 */
+	levels: Array<API.Ignite.ContainerLog['level']>;
+
+	/**
+	 * The milliseconds to wait between polls when following. Defaults to 2 seconds
+	 */
+	interval: number;
+}>;
+
+/**
+ * Options for reading a page of the logs of a container or build
+ * @public
+ */
+export type LogPageOptions = Partial<{
+	sortBy: 'timestamp';
+	orderBy: 'desc' | 'asc';
+	limit: number;
+	offset: number;
+}>;
+
+/**
+ * Changes to make to a gateway
+ * @public
+ */
+export type GatewayUpdate = Partial<{
+	name: string;
+	targetPort: number;
+	protocol: API.Ignite.Gateway['protocol'];
+	hopShDomainEnabled: boolean;
+}>;
+
+/**
+ * A gateway, with methods to manage it and its domains
+ * @public
+ */
+export interface GatewayModel extends API.Ignite.Gateway {
+	addDomain(domain: string, init?: RequestOptions): Promise<void>;
+
+	/**
+	 * Adds a domain that redirects to another URL instead of routing to the deployment
+	 */
+	addRedirect(
+		domain: string,
+		redirect: API.Ignite.DomainRedirect,
+		init?: RequestOptions,
+	): Promise<void>;
+
+	deleteDomain(domainId: Id<'domain'>, init?: RequestOptions): Promise<void>;
+
+	/**
+	 * Changes the gateway
+	 *
+	 * @returns The updated gateway
+	 */
+	update(changes: GatewayUpdate, init?: RequestOptions): Promise<GatewayModel>;
+
+	/**
+	 * Turns the hop.sh domain of an external gateway on or off
+	 *
+	 * @returns The updated gateway
+	 */
+	setHopShDomainEnabled(
+		enabled: boolean,
+		init?: RequestOptions,
+	): Promise<GatewayModel>;
+
+	delete(init?: RequestOptions): Promise<void>;
+}
+
+/**
+ * A container, with methods to manage it
+ * @public
+ */
+export interface ContainerModel extends API.Ignite.Container {
+	start(init?: RequestOptions): Promise<void>;
+	stop(init?: RequestOptions): Promise<void>;
+
+	/**
+	 * Deletes the container without creating a new one
+	 */
+	delete(init?: RequestOptions): Promise<undefined>;
+
+	/**
+	 * Deletes the container and creates a new one in its place
+	 *
+	 * @returns The new container
+	 */
+	recreate(init?: RequestOptions): Promise<ContainerModel>;
+
+	getLogs(
+		options?: LogPageOptions,
+		init?: RequestOptions,
+	): Promise<API.Ignite.ContainerLog[]>;
+
+	/**
+	 * Streams the logs of the container from oldest to newest. With `follow`, this stops once the container exits
+	 */
+	streamLogs(
+		options?: LogStreamOptions,
+		init?: RequestOptions,
+	): AsyncGenerator<API.Ignite.ContainerLog, void, undefined>;
+
+	waitForState(
+		state: API.Ignite.ContainerState,
+		options?: WaitOptions<API.Ignite.Container>,
+		init?: RequestOptions,
+	): Promise<ContainerModel>;
+
+	/**
+	 * Fetches the container again
+	 *
+	 * @returns The current container
+	 * @throws {@link HopNotFoundError} if the container no longer exists
+	 */
+	refresh(init?: RequestOptions): Promise<ContainerModel>;
+}
+
+/**
+ * A rollout, with methods to follow it
+ * @public
+ */
+export interface DeploymentRolloutModel extends API.Ignite.DeploymentRollout {
+	/**
+	 * Waits for the rollout to finish
+	 *
+	 * @returns The finished rollout
+	 */
+	wait(
+		options?: WaitOptions<API.Ignite.DeploymentRollout>,
+		init?: RequestOptions,
+	): Promise<DeploymentRolloutModel>;
+}
+
+/**
+ * A build, with methods to manage it
+ * @public
+ */
+export interface BuildModel extends API.Ignite.Build {
+	cancel(init?: RequestOptions): Promise<BuildModel>;
+
+	/**
+	 * Starts a new build of the same deployment, from the same commit unless `commitSha` is passed
+	 *
+	 * @returns The new build
+	 */
+	retrigger(
+		options?: {commitSha?: string},
+		init?: RequestOptions,
+	): Promise<BuildModel>;
+
+	getLogs(
+		options?: LogPageOptions,
+		init?: RequestOptions,
+	): Promise<API.Ignite.BuildLog[]>;
+
+	streamLogs(
+		options?: LogStreamOptions,
+		init?: RequestOptions,
+	): AsyncGenerator<API.Ignite.BuildLog, void, undefined>;
+
+	/**
+	 * Waits for the build to succeed
+	 *
+	 * @returns The build once it has succeeded
+	 */
+	wait(
+		options?: WaitOptions<API.Ignite.Build>,
+		init?: RequestOptions,
+	): Promise<BuildModel>;
+
+	/**
+	 * Fetches the build again
+	 *
+	 * @returns The current build
+	 */
+	refresh(init?: RequestOptions): Promise<BuildModel>;
+}
+
+/**
+ * A health check, with methods to change it
+ * @public
+ */
+export interface HealthCheckModel extends API.Ignite.HealthCheck {
+	/**
+	 * Changes the health check
+	 *
+	 * @returns The updated health check
+	 */
+	update(
+		config: Partial<API.Ignite.HealthCheckConfig>,
+		init?: RequestOptions,
+	): Promise<HealthCheckModel>;
 
-const SIX_MB_IN_BYTES = 6 * 1024 * 1024;
+	/**
+	 * Fetches the health check again
+	 *
+	 * @returns The current health check
+	 */
+	refresh(init?: RequestOptions): Promise<HealthCheckModel>;
+}
 
 /**
  * Ignite SDK client
  * @public
  */
 export const ignite = sdk(client => {
-	const Gateways = create<API.Ignite.Gateway>().methods({
-		async addDomain(domain: string) {
-			await client.post(
-				'/v1/ignite/gateways/:gateway_id/domains',
-				{domain},
-				{gateway_id: this.id},
-			);
-		},
+	const Gateways: JSONMethodInstance<API.Ignite.Gateway, GatewayModel> =
+		create<API.Ignite.Gateway>().methods<
+			Omit<GatewayModel, keyof API.Ignite.Gateway>
+		>({
+			async addDomain(domain: string, init?: RequestOptions) {
+				await client.post(
+					'/v1/ignite/gateways/:gateway_id/domains',
+					{domain},
+					{gateway_id: this.id},
+					init,
+				);
+			},
 
-		async deleteDomain(domainId: Id<'domain'>) {
-			await client.delete('/v1/ignite/domains/:domain_id', undefined, {
-				domain_id: domainId,
-			});
-		},
-	});
+			async addRedirect(
+				domain: string,
+				redirect: API.Ignite.DomainRedirect,
+				init?: RequestOptions,
+			) {
+				await igniteSDK.gateways.addRedirect(this.id, domain, redirect, init);
+			},
+
+			async deleteDomain(domainId: Id<'domain'>, init?: RequestOptions) {
+				await client.delete(
+					'/v1/ignite/domains/:domain_id',
+					undefined,
+					{domain_id: domainId},
+					init,
+				);
+			},
+
+			async update(changes: GatewayUpdate, init?: RequestOptions) {
+				return igniteSDK.gateways.update(this.id, changes, init);
+			},
+
+			async setHopShDomainEnabled(enabled: boolean, init?: RequestOptions) {
+				return igniteSDK.gateways.update(
+					this.id,
+					{hopShDomainEnabled: enabled},
+					init,
+				);
+			},
+
+			async delete(init?: RequestOptions) {
+				await igniteSDK.gateways.delete(this.id, init);
+			},
+		});
 
 	const Deployments = create<API.Ignite.Deployment>().methods({
-		getContainers() {
-			return igniteSDK.deployments.getContainers(this.id);
+		getContainers(init?: RequestOptions) {
+			return igniteSDK.deployments.getContainers(this.id, init);
 		},
 
-		delete() {
-			return igniteSDK.deployments.delete(this.id);
+		delete(init?: RequestOptions) {
+			return igniteSDK.deployments.delete(this.id, init);
 		},
 
-		createContainer() {
-			return igniteSDK.containers.create(this.id);
+		createContainer(init?: RequestOptions) {
+			return igniteSDK.containers.create(this.id, init);
 		},
 
 		createGateway(
@@ -62,53 +427,180 @@ export const ignite = sdk(client => {
 						targetPort: number;
 						internalDomain: string;
 				  },
+			init?: RequestOptions,
 		) {
-			return igniteSDK.gateways.create(this.id, config);
+			return igniteSDK.gateways.create(this.id, config, init);
 		},
 
-		getStorageStats() {
-			return igniteSDK.deployments.getStorageStats(this.id);
+		getStorageStats(init?: RequestOptions) {
+			return igniteSDK.deployments.getStorageStats(this.id, init);
 		},
 	});
 
+	const Containers: JSONMethodInstance<API.Ignite.Container, ContainerModel> =
+		create<API.Ignite.Container>().methods<
+			Omit<ContainerModel, keyof API.Ignite.Container>
+		>({
+			async start(init?: RequestOptions) {
+				await igniteSDK.containers.start(this.id, init);
+			},
+
+			async stop(init?: RequestOptions) {
+				await igniteSDK.containers.stop(this.id, init);
+			},
+
+			async delete(init?: RequestOptions) {
+				return igniteSDK.containers.delete(this.id, {}, init);
+			},
+
+			async recreate(init?: RequestOptions) {
+				return igniteSDK.containers.delete(this.id, {recreate: true}, init);
+			},
+
+			async getLogs(options?: LogPageOptions, init?: RequestOptions) {
+				return igniteSDK.containers.getLogs(this.id, options, init);
+			},
+
+			streamLogs(options?: LogStreamOptions, init?: RequestOptions) {
+				return igniteSDK.containers.streamLogs(this, options, init);
+			},
+
+			async waitForState(
+				state: API.Ignite.ContainerState,
+				options?: WaitOptions<API.Ignite.Container>,
+				init?: RequestOptions,
+			) {
+				return igniteSDK.waitForContainerState(this.id, state, options, init);
+			},
+
+			async refresh(init?: RequestOptions) {
+				return igniteSDK.containers.get(this.id, init);
+			},
+		});
+
+	const Rollouts: JSONMethodInstance<
+		API.Ignite.DeploymentRollout,
+		DeploymentRolloutModel
+	> = create<API.Ignite.DeploymentRollout>().methods<
+		Omit<DeploymentRolloutModel, keyof API.Ignite.DeploymentRollout>
+	>({
+		async wait(
+			options?: WaitOptions<API.Ignite.DeploymentRollout>,
+			init?: RequestOptions,
+		) {
+			return igniteSDK.waitForRollout(this, options, init);
+		},
+	});
+
+	const Builds: JSONMethodInstance<API.Ignite.Build, BuildModel> =
+		create<API.Ignite.Build>().methods<
+			Omit<BuildModel, keyof API.Ignite.Build>
+		>({
+			async cancel(init?: RequestOptions) {
+				return igniteSDK.builds.cancel(this.id, init);
+			},
+
+			async retrigger(options?: {commitSha?: string}, init?: RequestOptions) {
+				return igniteSDK.builds.retrigger(this.id, options, init);
+			},
+
+			async getLogs(options?: LogPageOptions, init?: RequestOptions) {
+				return igniteSDK.builds.getLogs(this.id, options, init);
+			},
+
+			streamLogs(options?: LogStreamOptions, init?: RequestOptions) {
+				return igniteSDK.builds.streamLogs(this.id, options, init);
+			},
+
+			async wait(
+				options?: WaitOptions<API.Ignite.Build>,
+				init?: RequestOptions,
+			) {
+				return igniteSDK.waitForBuild(this.id, options, init);
+			},
+
+			async refresh(init?: RequestOptions) {
+				return igniteSDK.builds.get(this.id, init);
+			},
+		});
+
+	/**
+	 * Health checks don't include the deployment they belong to, so the methods are created for each deployment
+	 */
+	function createHealthCheck(
+		deploymentId: Id<'deployment'>,
+		check: API.Ignite.HealthCheck,
+	): HealthCheckModel {
+		return create<API.Ignite.HealthCheck>()
+			.methods<Omit<HealthCheckModel, keyof API.Ignite.HealthCheck>>({
+				async update(
+					config: Partial<API.Ignite.HealthCheckConfig>,
+					init?: RequestOptions,
+				) {
+					return igniteSDK.healthChecks.update(deploymentId, config, init);
+				},
+
+				async refresh(init?: RequestOptions) {
+					return igniteSDK.healthChecks.get(deploymentId, init);
+				},
+			})
+			.from(check);
+	}
+
 	/**
 	 * Creates a new deployment.
 	 * You should use this overload if you are authorizing with a bearer or pat.
 	 *
 	 * @param configOrProject - The project ID to create the deployment in.
 	 * @param bearerOrPatConfig - The deployment config to create.
+	 * @param init - Options for this request
 	 */
 	async function createDeployment(
 		configOrProject: Id<'project'>,
 		bearerOrPatConfig: API.Ignite.CreateDeploymentConfig,
+		init?: RequestOptions,
 	): Promise<Infer<typeof Deployments>>;
 
 	/**
 	 * Create a new deployment. You should use this overload if you are authorizing with a project token and
-	 * not with a bearer or pat.
+	 * not with a bearer or pat, or if the client is scoped to a project with `hop.project()`.
 	 *
 	 * @param configOrProject - The config for this deployment.
+	 * @param init - Options for this request
 	 */
 	async function createDeployment(
 		configOrProject: API.Ignite.CreateDeploymentConfig,
+		init?: RequestOptions,
 	): Promise<Infer<typeof Deployments>>;
 
 	async function createDeployment(
 		configOrProject: Id<'project'> | API.Ignite.CreateDeploymentConfig,
-		bearerOrPatConfig?: API.Ignite.CreateDeploymentConfig,
+		bearerOrPatConfigOrInit?:
+			| API.Ignite.CreateDeploymentConfig
+			| RequestOptions,
+		maybeInit?: RequestOptions,
 	): Promise<Infer<typeof Deployments>> {
 		let config: API.Ignite.CreateDeploymentConfig;
 		let project: Id<'project'> | undefined = undefined;
+		let init: RequestOptions | undefined = maybeInit;
 
 		if (typeof configOrProject === 'object') {
-			if (client.authType === 'ptk') {
+			const [scoped] = resolveProjectInit(client, undefined, undefined);
+
+			if (client.authType === 'ptk' || scoped) {
 				config = configOrProject;
+				project = scoped;
+				init = bearerOrPatConfigOrInit as RequestOptions | undefined;
 			} else {
 				throw new Error(
 					'First argument must be the project ID when using bearer authentication to create deployments.',
 				);
 			}
 		} else {
+			const bearerOrPatConfig = bearerOrPatConfigOrInit as
+				| API.Ignite.CreateDeploymentConfig
+				| undefined;
+
 			if (!bearerOrPatConfig) {
 				throw new Error(
 					'Second argument must be the deployment config when using bearer authentication to create deployments.',
@@ -125,23 +617,26 @@ export const ignite = sdk(client => {
 			}
 		}
 
-		// Hop's runtime requires a minimum of 6mb of memory per container
-		// It's useful to validate this at the SDK level as well as API level.
-		if (parseSize(config.resources.ram) <= SIX_MB_IN_BYTES) {
+		const problems = checkDeploymentConfig(config);
+
+		if (problems.resources) {
 			throw new Error(
 				'Allocated memory must be greater than 6MB when creating a deployment.',
 			);
 		}
 
-		if (config.volume && config.type !== RuntimeType.STATEFUL) {
+		if (problems.volume) {
 			throw new Error(
 				'Cannot create a deployment with a volume that is not stateful.',
 			);
 		}
 
-		const {deployment} = await client.post('/v1/ignite/deployments', config, {
-			project,
-		});
+		const {deployment} = await client.post(
+			'/v1/ignite/deployments',
+			config,
+			{project},
+			init,
+		);
 
 		return Deployments.from(deployment);
 	}
@@ -151,11 +646,13 @@ export const ignite = sdk(client => {
 		state:
 			| API.Ignite.ContainerState.RUNNING
 			| API.Ignite.ContainerState.STOPPED,
+		init?: RequestOptions,
 	) {
 		await client.put(
 			'/v1/ignite/containers/:container_id/state',
 			{preferred_state: state},
 			{container_id: container},
+			init,
 		);
 	}
 
@@ -164,31 +661,43 @@ export const ignite = sdk(client => {
 	 *
 	 * @param projectId - The project ID. You only need to provide this if you are getting by name.
 	 * @param name - The deployment name to get
+	 * @param init - Options for this request
 	 */
 	async function getDeployment(
 		name: string,
-		projectId?: Id<'project'>,
+		projectId?: Id<'project'> | RequestOptions,
+		init?: RequestOptions,
 	): Promise<Infer<typeof Deployments>>;
 
 	/**
 	 * Gets a deployment by id
 	 *
 	 * @param id - The deployment ID
+	 * @param init - Options for this request
 	 */
 	async function getDeployment(
 		id: Id<'deployment'>,
-		projectId?: Id<'project'>,
+		projectId?: Id<'project'> | RequestOptions,
+		init?: RequestOptions,
 	): Promise<Infer<typeof Deployments>>;
 
 	async function getDeployment(
 		idOrName: Id<'deployment'> | string,
-		projectId?: Id<'project'>,
+		projectIdOrInit?: Id<'project'> | RequestOptions,
+		maybeInit?: RequestOptions,
 	): Promise<Infer<typeof Deployments>> {
+		const [projectId, init] = resolveProjectInit(
+			client,
+			projectIdOrInit,
+			maybeInit,
+		);
+
 		if (!validateId(idOrName, 'deployment')) {
-			const {deployment} = await client.get('/v1/ignite/deployments/search', {
-				name: idOrName,
-				project: projectId,
-			});
+			const {deployment} = await client.get(
+				'/v1/ignite/deployments/search',
+				{name: idOrName, project: projectId},
+				init,
+			);
 
 			return Deployments.from(deployment);
 		}
@@ -201,6 +710,7 @@ export const ignite = sdk(client => {
 				deployment_id: idOrName,
 				project: projectId,
 			},
+			init,
 		);
 
 		return Deployments.from(deployment);
@@ -215,7 +725,8 @@ export const ignite = sdk(client => {
 	async function deleteContainer(
 		container_id: Id<'container'>,
 		options: {recreate: true},
-	): Promise<API.Ignite.Container>;
+		init?: RequestOptions,
+	): Promise<ContainerModel>;
 
 	/**
 	 * Deletes a container. This will not recreate the container.
@@ -226,6 +737,7 @@ export const ignite = sdk(client => {
 	async function deleteContainer(
 		container_id: Id<'container'>,
 		options?: {recreate?: false},
+		init?: RequestOptions,
 	): Promise<undefined>;
 
 	/**
@@ -239,18 +751,20 @@ export const ignite = sdk(client => {
 		options: {
 			recreate?: boolean;
 		} = {},
+		init?: RequestOptions,
 	) {
 		const d = await client.delete(
 			'/v1/ignite/containers/:container_id',
 			undefined,
 			{container_id, recreate: options.recreate ? 'true' : undefined},
+			init,
 		);
 
 		if (!d) {
 			return;
 		}
 
-		return d.container;
+		return Containers.from(d.container);
 	}
 
 	const deploymentGateways = {
@@ -259,10 +773,11 @@ export const ignite = sdk(client => {
 		 *
 		 * @param deploymentId - The ID of the deployment to fetch gateways for
 		 */
-		async getAll(deploymentId: Id<'deployment'>) {
+		async getAll(deploymentId: Id<'deployment'>, init?: RequestOptions) {
 			const {gateways} = await client.get(
 				'/v1/ignite/deployments/:deployment_id/gateways',
 				{deployment_id: deploymentId},
+				init,
 			);
 
 			return gateways.map(Gateways.from);
@@ -292,6 +807,7 @@ export const ignite = sdk(client => {
 						name: string;
 						internalDomain: string;
 				  },
+			init?: RequestOptions,
 		) {
 			const deploymentId =
 				typeof deployment === 'object' ? deployment.id : deployment;
@@ -309,6 +825,7 @@ export const ignite = sdk(client => {
 				'/v1/ignite/deployments/:deployment_id/gateways',
 				body,
 				{deployment_id: deploymentId},
+				init,
 			);
 
 			return Gateways.from(gateway);
@@ -322,8 +839,15 @@ export const ignite = sdk(client => {
 				deploymentIds: Id<'deployment'>[];
 				position: number;
 			}>,
-			projectId?: Id<'project'>,
+			projectIdOrInit?: Id<'project'> | RequestOptions,
+			maybeInit?: RequestOptions,
 		) {
+			const [projectId, init] = resolveProjectInit(
+				client,
+				projectIdOrInit,
+				maybeInit,
+			);
+
 			if (client.authType !== 'ptk' && !projectId) {
 				throw new Error(
 					'Project ID is required for Bearer or PAT authentication',
@@ -338,6 +862,7 @@ export const ignite = sdk(client => {
 					position: options?.position,
 				},
 				projectId ? {project: projectId} : {},
+				init,
 			);
 
 			return group;
@@ -349,8 +874,15 @@ export const ignite = sdk(client => {
 				name,
 				position,
 			}: {name?: string | undefined; position?: number | undefined},
-			projectId?: Id<'project'>,
+			projectIdOrInit?: Id<'project'> | RequestOptions,
+			maybeInit?: RequestOptions,
 		) {
+			const [projectId, init] = resolveProjectInit(
+				client,
+				projectIdOrInit,
+				maybeInit,
+			);
+
 			if (client.authType !== 'ptk' && !projectId) {
 				throw new Error(
 					'Project ID is required for Bearer or PAT authentication',
@@ -364,6 +896,7 @@ export const ignite = sdk(client => {
 					position,
 				},
 				{group_id: groupId, ...(projectId ? {project: projectId} : {})},
+				init,
 			);
 
 			return group;
@@ -375,8 +908,15 @@ export const ignite = sdk(client => {
 		async move(
 			deploymentId: Id<'deployment'>,
 			groupId: Id<'deployment_group'> | null,
-			projectId?: Id<'project'>,
+			projectIdOrInit?: Id<'project'> | RequestOptions,
+			maybeInit?: RequestOptions,
 		) {
+			const [projectId, init] = resolveProjectInit(
+				client,
+				projectIdOrInit,
+				maybeInit,
+			);
+
 			if (client.authType !== 'ptk' && !projectId) {
 				throw new Error(
 					'Project ID is required for Bearer or PAT authentication',
@@ -391,6 +931,7 @@ export const ignite = sdk(client => {
 						deployment_id: deploymentId,
 						...(projectId ? {project: projectId} : {}),
 					},
+					init,
 				);
 
 				return;
@@ -404,98 +945,439 @@ export const ignite = sdk(client => {
 					deployment_id: deploymentId,
 					...(projectId ? {project: projectId} : {}),
 				},
+				init,
 			);
 
 			return group;
 		},
 
-		async delete(groupId: Id<'deployment_group'>, projectId?: Id<'project'>) {
+		async delete(
+			groupId: Id<'deployment_group'>,
+			projectIdOrInit?: Id<'project'> | RequestOptions,
+			maybeInit?: RequestOptions,
+		) {
+			const [projectId, init] = resolveProjectInit(
+				client,
+				projectIdOrInit,
+				maybeInit,
+			);
+
 			if (client.authType !== 'ptk' && !projectId) {
 				throw new Error(
 					'Project ID is required for Bearer or PAT authentication',
 				);
 			}
 
-			await client.delete('/v1/ignite/groups/:group_id', undefined, {
-				group_id: groupId,
-				...(projectId ? {project: projectId} : {}),
-			});
+			await client.delete(
+				'/v1/ignite/groups/:group_id',
+				undefined,
+				{group_id: groupId, ...(projectId ? {project: projectId} : {})},
+				init,
+			);
 		},
 	};
 
-	const igniteSDK = {
-		groups,
-
-		domains: {
-			delete: async (id: Id<'domain'>) => {
-				await client.delete('/v1/ignite/domains/:domain_id', undefined, {
-					domain_id: id,
-				});
+	/**
+	 * Reads the logs of a container or build, returning only the logs that are new since the last call.
+	 * Pages are read newest first, starting small and doubling, and reading stops at the newest log already
+	 * returned (or at `since`). A poll only downloads the new logs and at most one small page of older ones
+	 */
+	function createLogCursor<
+		I extends string,
+		T extends {nonce: string; timestamp: string},
+	>(
+		getLogs: (
+			id: I,
+			options: {
+				sortBy: 'timestamp';
+				orderBy: 'desc';
+				limit: number;
+				offset: number;
 			},
+			init?: RequestOptions,
+		) => Promise<T[]>,
+		id: I,
+		since: Date | string | undefined,
+		maxPageSize = 100,
+	) {
+		// The timestamp of the newest log returned so far, and the logs that have it.
+		// Logs can share a timestamp, so those are told apart by their nonce
+		let newest = since ? new Date(since).getTime() : -Infinity;
+		let atNewest = new Set<string>();
 
-			get: async (id: Id<'domain'>) => {
-				const {domain} = await client.get('/v1/ignite/domains/:domain_id', {
-					domain_id: id,
-				});
+		return async (init?: RequestOptions) => {
+			const logs: T[] = [];
 
-				return domain;
-			},
-		},
+			// Logs written while paging push older ones onto the next page, so they can be read twice
+			const read = new Set<string>();
 
-		gateways: {
-			...deploymentGateways,
+			let offset = 0;
+			let limit = Math.min(10, maxPageSize);
 
-			/**
-			 * Adds a domain to a gateway
-			 *
-			 * @param gatewayId - The ID of the gateway
-			 * @param domain - The full name of the domain
-			 */
-			async addDomain(gatewayId: Id<'gateway'>, domain: string) {
-				await client.post(
-					'/v1/ignite/gateways/:gateway_id/domains',
-					{domain},
-					{gateway_id: gatewayId},
+			while (true) {
+				const page = await getLogs(
+					id,
+					{sortBy: 'timestamp', orderBy: 'desc', limit, offset},
+					init,
 				);
-			},
 
-			/**
-			 * Fetches a gateway by ID
-			 *
-			 * @param gatewayId - The ID of the gateway to retrieve
-			 */
-			async get(gatewayId: Id<'gateway'>) {
-				const {gateway} = await client.get('/v1/ignite/gateways/:gateway_id', {
-					gateway_id: gatewayId,
-				});
+				const caughtUp = page.some(
+					log => new Date(log.timestamp).getTime() < newest,
+				);
+
+				for (const log of page) {
+					const time = new Date(log.timestamp).getTime();
+
+					if (
+						time < newest ||
+						(time === newest && atNewest.has(log.nonce)) ||
+						read.has(log.nonce)
+					) {
+						continue;
+					}
+
+					read.add(log.nonce);
+					logs.push(log);
+				}
+
+				if (caughtUp || page.length < limit) {
+					break;
+				}
+
+				offset += limit;
+				limit = Math.min(limit * 2, maxPageSize);
+			}
+
+			logs.reverse();
+
+			for (const log of logs) {
+				const time = new Date(log.timestamp).getTime();
+
+				if (time > newest) {
+					newest = time;
+					atNewest = new Set();
+				}
+
+				if (time === newest) {
+					atNewest.add(log.nonce);
+				}
+			}
+
+			return logs;
+		};
+	}
+
+	/**
+	 * Gets the local history of a deployment, starting it with the current config if it is empty
+	 */
+	async function getHistory(
+		deploymentId: Id<'deployment'>,
+		init?: RequestOptions,
+	) {
+		const history = getHistoryStore(client);
+		const existing = history.get(deploymentId);
+
+		if (existing) {
+			return existing;
+		}
+
+		const deployment = await getDeployment(deploymentId, init);
+
+		const entries: DeploymentHistoryEntry[] = [
+			{
+				config: deployment.config,
+				buildId: deployment.build_id,
+				rolloutId: deployment.latest_rollout?.id ?? null,
+				appliedAt: new Date(),
+			},
+		];
+
+		history.set(deploymentId, entries);
+
+		return entries;
+	}
+
+	function addHistoryEntry(
+		deploymentId: Id<'deployment'>,
+		entry: Omit<DeploymentHistoryEntry, 'appliedAt'>,
+	) {
+		const history = getHistoryStore(client);
+		const entries = history.get(deploymentId) ?? [];
+
+		history.set(deploymentId, entries);
+		entries.push({...entry, appliedAt: new Date()});
+
+		if (entries.length > MAX_HISTORY_ENTRIES) {
+			entries.shift();
+		}
+	}
+
+	/**
+	 * Finds the image of a build by pinning the image of the deployment to the digest of the build
+	 */
+	async function getBuildImage(
+		deploymentId: Id<'deployment'>,
+		config: Deployment['config'],
+		buildId: Id<'build'>,
+		init?: RequestOptions,
+	) {
+		const {build} = await client.get(
+			'/v1/ignite/builds/:build_id',
+			{build_id: buildId},
+			init,
+		);
+
+		if (build.deployment_id !== deploymentId) {
+			throw new Error(
+				`Build ${buildId} does not belong to deployment ${deploymentId}`,
+			);
+		}
+
+		if (!build.digest || !config.image.name) {
+			throw new Error(
+				`Build ${buildId} has no image that can be rolled back to`,
+			);
+		}
+
+		// Replace any tag or digest on the last part of the image name
+		const name = config.image.name.replace(/[@:][^/]*$/, '');
+
+		return {...config.image, name: `${name}@${build.digest}`};
+	}
 
-				return gateway;
+	/**
+	 * Snapshots a deployment with its gateways and health check into a manifest
+	 */
+	async function createManifest(
+		deployment: Deployment,
+		group: string | null,
+		init?: RequestOptions,
+	) {
+		const [gateways, healthCheck] = await Promise.all([
+			deploymentGateways.getAll(deployment.id, init),
+			igniteSDK.healthChecks.get(deployment.id, init).catch(error => {
+				if (error instanceof HopNotFoundError) {
+					return null;
+				}
+
+				throw error;
+			}),
+		]);
+
+		return readDeploymentManifest({
+			version: DEPLOYMENT_MANIFEST_VERSION,
+			kind: 'deployment',
+			name: deployment.name,
+			config: deployment.config,
+			group,
+			metadata: deployment.metadata,
+			health_check: healthCheck,
+			gateways,
+			secrets: getSecretReferences(deployment.config.env),
+		});
+	}
+
+	function createLogFilter({levels}: LogStreamOptions) {
+		return (log: API.Ignite.ContainerLog | API.Ignite.BuildLog) =>
+			!levels || levels.includes(log.level);
+	}
+
+	const igniteSDK = {
+		groups,
+
+		domains: {
+			delete: async (id: Id<'domain'>, init?: RequestOptions) => {
+				await client.delete(
+					'/v1/ignite/domains/:domain_id',
+					undefined,
+					{domain_id: id},
+					init,
+				);
+			},
+
+			get: async (id: Id<'domain'>, init?: RequestOptions) => {
+				const {domain} = await client.get(
+					'/v1/ignite/domains/:domain_id',
+					{domain_id: id},
+					init,
+				);
+
+				return domain;
+			},
+
+			/**
+			 * Makes a domain redirect to another URL, or removes its redirect
+			 *
+			 * @param id - The ID of the domain
+			 * @param redirect - Where to redirect to and the status code to use, or null to route to the deployment again
+			 * @returns The updated domain
+			 */
+			setRedirect: async (
+				id: Id<'domain'>,
+				redirect: API.Ignite.DomainRedirect | null,
+				init?: RequestOptions,
+			) => {
+				if (redirect) {
+					assertRedirect(redirect);
+				}
+
+				const {domain} = await client.patch(
+					'/v1/ignite/domains/:domain_id',
+					{redirect},
+					{domain_id: id},
+					init,
+				);
+
+				return domain;
+			},
+		},
+
+		gateways: {
+			...deploymentGateways,
+
+			/**
+			 * Adds a domain to a gateway
+			 *
+			 * @param gatewayId - The ID of the gateway
+			 * @param domain - The full name of the domain
+			 */
+			async addDomain(
+				gatewayId: Id<'gateway'>,
+				domain: string,
+				init?: RequestOptions,
+			) {
+				await client.post(
+					'/v1/ignite/gateways/:gateway_id/domains',
+					{domain},
+					{gateway_id: gatewayId},
+					init,
+				);
+			},
+
+			/**
+			 * Adds a domain to a gateway that redirects to another URL instead of routing to the deployment
+			 *
+			 * @param gatewayId - The ID of the gateway
+			 * @param domain - The full name of the domain
+			 * @param redirect - Where to redirect to, and whether to use a 301, 302, 307 or 308 status code
+			 */
+			async addRedirect(
+				gatewayId: Id<'gateway'>,
+				domain: string,
+				redirect: API.Ignite.DomainRedirect,
+				init?: RequestOptions,
+			) {
+				assertRedirect(redirect);
+
+				await client.post(
+					'/v1/ignite/gateways/:gateway_id/domains',
+					{domain, redirect},
+					{gateway_id: gatewayId},
+					init,
+				);
+			},
+
+			/**
+			 * Fetches a gateway by ID
+			 *
+			 * @param gatewayId - The ID of the gateway to retrieve
+			 */
+			async get(gatewayId: Id<'gateway'>, init?: RequestOptions) {
+				const {gateway} = await client.get(
+					'/v1/ignite/gateways/:gateway_id',
+					{gateway_id: gatewayId},
+					init,
+				);
+
+				return Gateways.from(gateway);
+			},
+
+			/**
+			 * Changes the name, target port or protocol of a gateway, or turns its hop.sh domain on or off
+			 *
+			 * @param gatewayId - The ID of the gateway
+			 * @param changes - The fields to change
+			 * @returns The updated gateway
+			 */
+			async update(
+				gatewayId: Id<'gateway'>,
+				changes: GatewayUpdate,
+				init?: RequestOptions,
+			) {
+				const {gateway} = await client.patch(
+					'/v1/ignite/gateways/:gateway_id',
+					{
+						name: changes.name,
+						target_port: changes.targetPort,
+						protocol: changes.protocol,
+						hopsh_domain_enabled: changes.hopShDomainEnabled,
+					},
+					{gateway_id: gatewayId},
+					init,
+				);
+
+				return Gateways.from(gateway);
+			},
+
+			/**
+			 * Deletes a gateway and the domains attached to it
+			 *
+			 * @param gatewayId - The ID of the gateway
+			 */
+			async delete(gatewayId: Id<'gateway'>, init?: RequestOptions) {
+				await client.delete(
+					'/v1/ignite/gateways/:gateway_id',
+					undefined,
+					{gateway_id: gatewayId},
+					init,
+				);
 			},
 		},
 
 		healthChecks: {
+			/**
+			 * Fetches the health check of a deployment
+			 *
+			 * @param deployment - The ID of the deployment
+			 */
+			get: async (deployment: Id<'deployment'>, init?: RequestOptions) => {
+				const {health_check: check} = await client.get(
+					'/v1/ignite/deployments/:deployment_id/health-check',
+					{deployment_id: deployment},
+					init,
+				);
+
+				return createHealthCheck(deployment, check);
+			},
+
 			create: async (
 				deployment: Id<'deployment'>,
-				config: Omit<API.Ignite.HealthCheck, 'id'>,
+				config: API.Ignite.HealthCheckConfig,
+				init?: RequestOptions,
 			) => {
 				const {health_check: check} = await client.post(
 					'/v1/ignite/deployments/:deployment_id/health-check',
 					config,
 					{deployment_id: deployment},
+					init,
 				);
 
-				return check;
+				return createHealthCheck(deployment, check);
 			},
 
 			update: async (
 				deployment: Id<'deployment'>,
-				config: Partial<Omit<API.Ignite.HealthCheck, 'id'>>,
+				config: Partial<API.Ignite.HealthCheckConfig>,
+				init?: RequestOptions,
 			) => {
-				await client.patch(
+				const {health_check: check} = await client.patch(
 					'/v1/ignite/deployments/:deployment_id/health-check',
 					config,
 					{deployment_id: deployment},
+					init,
 				);
+
+				return createHealthCheck(deployment, check);
 			},
 		},
 
@@ -503,32 +1385,174 @@ export const ignite = sdk(client => {
 			create: createDeployment,
 			get: getDeployment,
 
-			async rollout(id: Id<'deployment'>) {
+			/**
+			 * Starts a rollout, replacing every container with one using the latest config and build.
+			 * The rollout is added to the local history used by {@link igniteSDK.deployments.rollback}
+			 *
+			 * @param id - The ID of the deployment
+			 */
+			async rollout(id: Id<'deployment'>, init?: RequestOptions) {
+				const entries = await getHistory(id, init);
+
 				const {rollout} = await client.post(
 					'/v1/ignite/deployments/:deployment_id/rollouts',
 					undefined,
 					{deployment_id: id},
+					init,
 				);
 
-				return rollout;
+				const latest = entries[entries.length - 1]!;
+				const buildId = rollout.build?.id ?? latest.buildId;
+
+				if (latest.rolloutId === null) {
+					latest.rolloutId = rollout.id;
+					latest.buildId = buildId;
+				} else {
+					addHistoryEntry(id, {
+						config: latest.config,
+						buildId,
+						rolloutId: rollout.id,
+					});
+				}
+
+				return Rollouts.from(rollout);
 			},
 
-			async getStorageStats(id: Id<'deployment'>) {
-				return client.get('/v1/ignite/deployments/:deployment_id/storage', {
-					deployment_id: id,
-				});
+			/**
+			 * Restores an earlier config and starts a rollout with it. Without options, this goes back to
+			 * the config before the latest one. Configs are remembered when they are applied with
+			 * `update` or `rollout` through this client, or any SDK or project client made from it, so only
+			 * changes made by this client can be restored. The history starts with the config the deployment
+			 * had before the first `update` or `rollout`.
+			 *
+			 * @param deploymentId - The ID of the deployment
+			 * @param options - `toRollout` restores the config of a rollout, and `toBuild` restores the config that was used with a build.
+			 * Builds that are not in the local history are restored by pinning the image to the digest of the build
+			 * @returns The rollout that was started
+			 */
+			async rollback(
+				deploymentId: Id<'deployment'>,
+				options: Partial<{toBuild: Id<'build'>; toRollout: Id<'rollout'>}> = {},
+				init?: RequestOptions,
+			) {
+				const entries = await getHistory(deploymentId, init);
+				const current = entries[entries.length - 1]!.config;
+
+				let target: Deployment['config'];
+
+				if (options.toRollout) {
+					const entry = entries.findLast(
+						entry => entry.rolloutId === options.toRollout,
+					);
+
+					if (!entry) {
+						throw new Error(
+							`Rollout ${options.toRollout} is not in the local history of deployment ${deploymentId}`,
+						);
+					}
+
+					target = entry.config;
+				} else if (options.toBuild) {
+					const entry = entries.findLast(
+						entry => entry.buildId === options.toBuild,
+					);
+
+					target = entry?.config ?? {
+						...current,
+						image: await getBuildImage(
+							deploymentId,
+							current,
+							options.toBuild,
+							init,
+						),
+					};
+				} else {
+					const entry = entries[entries.length - 2];
+
+					if (!entry) {
+						throw new Error(
+							`Deployment ${deploymentId} has no earlier config in the local history to roll back to`,
+						);
+					}
+
+					target = entry.config;
+				}
+
+				const diff = diffDeploymentConfig(current, target);
+
+				if (diff.blocked.length > 0) {
+					throw new Error(
+						`Cannot roll back deployment ${deploymentId}: ${diff.blocked
+							.map(change => change.blocked)
+							.join(', ')}`,
+					);
+				}
+
+				const fields = new Set(diff.changes.map(change => change.field));
+
+				if (fields.size > 0) {
+					await igniteSDK.deployments.update(
+						deploymentId,
+						Object.fromEntries(
+							[...fields].map(field => [
+								field,
+								target[field as keyof typeof target],
+							]),
+						),
+						init,
+					);
+				}
+
+				return igniteSDK.deployments.rollout(deploymentId, init);
+			},
+
+			/**
+			 * Lists the configs that were applied to a deployment through this client, oldest first
+			 *
+			 * @param deploymentId - The ID of the deployment
+			 */
+			getHistory(deploymentId: Id<'deployment'>): DeploymentHistoryEntry[] {
+				return (getHistoryStore(client).get(deploymentId) ?? []).map(entry => ({
+					...entry,
+				}));
 			},
 
+			async getStorageStats(id: Id<'deployment'>, init?: RequestOptions) {
+				return client.get(
+					'/v1/ignite/deployments/:deployment_id/storage',
+					{deployment_id: id},
+					init,
+				);
+			},
+
+			/**
+			 * Updates the config of a deployment. The new config is added to the local history
+			 * used by {@link igniteSDK.deployments.rollback}
+			 *
+			 * @param deploymentId - The ID of the deployment
+			 * @param config - The fields of the config to change
+			 */
 			async update(
 				deploymentId: Id<'deployment'>,
 				config: Partial<DeploymentConfig>,
+				init?: RequestOptions,
 			) {
+				// The config that is replaced is saved first, so that it can be rolled back to
+				await getHistory(deploymentId, init);
+
 				const {deployment} = await client.patch(
 					'/v1/ignite/deployments/:deployment_id',
 					config,
 					{deployment_id: deploymentId},
+					init,
 				);
 
+				addHistoryEntry(deploymentId, {
+					config: deployment.config,
+					buildId: deployment.build_id,
+					rolloutId: null,
+				});
+
 				return deployment;
 			},
 
@@ -538,13 +1562,186 @@ export const ignite = sdk(client => {
 			 * @param deployment - The ID of the deployment to get
 			 * @returns A list of all containers for that project
 			 */
-			async getContainers(deployment: Id<'deployment'>) {
+			async getContainers(deployment: Id<'deployment'>, init?: RequestOptions) {
 				const {containers} = await client.get(
 					'/v1/ignite/deployments/:deployment_id/containers',
 					{deployment_id: deployment},
+					init,
+				);
+
+				return containers.map(container => Containers.from(container));
+			},
+
+			/**
+			 * Scales a deployment with the manual container strategy to a number of containers, then waits
+			 * until that many are running. When scaling down, failed and exited containers are removed first.
+			 *
+			 * @param deploymentId - The ID of the deployment to scale
+			 * @param count - The number of containers the deployment should have
+			 * @param options - `concurrency` is how many containers are created or deleted at once, and defaults to 5. The other options are for waiting until the count settles
+			 * @returns The deployment once it has settled
+			 * @throws {@link HopWaitTimeoutError} if the containers are not all running in time
+			 */
+			async scale(
+				deploymentId: Id<'deployment'>,
+				count: number,
+				options: WaitOptions<Deployment> & {concurrency?: number} = {},
+				init?: RequestOptions,
+			) {
+				if (!Number.isInteger(count) || count < 0) {
+					throw new Error(
+						'Container count must be a whole number of 0 or more',
+					);
+				}
+
+				const deployment = await getDeployment(deploymentId, init);
+
+				if (deployment.config.container_strategy !== ContainerStrategy.MANUAL) {
+					throw new Error(
+						'Only deployments with the manual container strategy can be scaled',
+					);
+				}
+
+				const {concurrency = 5, ...waitOptions} = options;
+				const difference = count - deployment.target_container_count;
+
+				if (difference > 0) {
+					await mapConcurrently(
+						Array.from({length: difference}),
+						concurrency,
+						async () => igniteSDK.containers.create(deployment.id, init),
+					);
+				}
+
+				if (difference < 0) {
+					const containers = await igniteSDK.deployments.getContainers(
+						deployment.id,
+						init,
+					);
+
+					const removable = containers
+						.filter(container => container.state !== ContainerState.TERMINATING)
+						.sort(
+							(a, b) =>
+								CONTAINER_REMOVAL_ORDER.indexOf(a.state) -
+								CONTAINER_REMOVAL_ORDER.indexOf(b.state),
+						)
+						.slice(0, -difference);
+
+					await mapConcurrently(removable, concurrency, async container =>
+						deleteContainer(container.id, {}, init),
+					);
+				}
+
+				return waitFor(
+					`deployment ${deployment.id} to have ${count} running containers`,
+					async () => getDeployment(deployment.id, init),
+					current =>
+						current.target_container_count === count &&
+						current.running_container_count === count,
+					waitOptions,
+					init?.signal,
 				);
+			},
 
-				return containers;
+			/**
+			 * Streams the logs of every container in a deployment, tagged with the container they came from.
+			 * Logs are read from all containers at once and merged by their timestamp. With `follow`, this keeps
+			 * polling for new logs and picks up containers as they are created, until the signal in `init` aborts
+			 * or the deployment is deleted. Logs are only sorted within each poll, so a container that is slow to
+			 * write can still produce a log older than one already returned.
+			 *
+			 * @param deploymentId - The ID of the deployment
+			 * @param options - `since` skips older logs, `levels` only includes logs of those levels and `interval` is the milliseconds between polls when following
+			 * @returns An async iterator of logs
+			 */
+			async *getLogs(
+				deploymentId: Id<'deployment'>,
+				options: LogStreamOptions = {},
+				init?: RequestOptions,
+			): AsyncGenerator<API.Ignite.DeploymentLog, void, undefined> {
+				const signal = init?.signal ?? null;
+				const include = createLogFilter(options);
+				const cursors = new Map<
+					Id<'container'>,
+					(init?: RequestOptions) => Promise<API.Ignite.ContainerLog[]>
+				>();
+
+				let following = false;
+
+				try {
+					while (true) {
+						const containers = await igniteSDK.deployments.getContainers(
+							deploymentId,
+							init,
+						);
+
+						for (const container of containers) {
+							if (!cursors.has(container.id)) {
+								cursors.set(
+									container.id,
+									createLogCursor(
+										igniteSDK.containers.getLogs,
+										container.id,
+										options.since,
+									),
+								);
+							}
+						}
+
+						const batches = await Promise.all(
+							[...cursors].map(async ([id, read]) => {
+								// Containers that were deleted are read one last time, then forgotten
+								if (!containers.some(container => container.id === id)) {
+									cursors.delete(id);
+								}
+
+								try {
+									const logs = await read(init);
+
+									return logs
+										.filter(include)
+										.map(log => ({...log, container_id: id}));
+								} catch (error) {
+									if (error instanceof HopNotFoundError) {
+										cursors.delete(id);
+										return [];
+									}
+
+									throw error;
+								}
+							}),
+						);
+
+						const logs = batches
+							.flat()
+							.sort(
+								(a, b) =>
+									new Date(a.timestamp).getTime() -
+									new Date(b.timestamp).getTime(),
+							);
+
+						yield* logs;
+
+						if (!options.follow) {
+							return;
+						}
+
+						following = true;
+						await sleep(options.interval ?? 2000, signal);
+					}
+				} catch (error) {
+					if (signal?.aborted) {
+						return;
+					}
+
+					// The deployment was deleted while we were following it
+					if (following && error instanceof HopNotFoundError) {
+						return;
+					}
+
+					throw error;
+				}
 			},
 
 			/**
@@ -553,7 +1750,16 @@ export const ignite = sdk(client => {
 			 * @param projectId - The project ID to list deployments for. You only need to provide this if you are using bearer or PAT authentication.
 			 * @returns A list of deployments for the given project.
 			 */
-			async getAll(projectId?: Id<'project'>) {
+			async getAll(
+				projectIdOrInit?: Id<'project'> | RequestOptions,
+				maybeInit?: RequestOptions,
+			) {
+				const [projectId, init] = resolveProjectInit(
+					client,
+					projectIdOrInit,
+					maybeInit,
+				);
+
 				if (client.authType !== 'ptk' && !projectId) {
 					throw new Error(
 						'Project ID is required for Bearer or PAT authentication',
@@ -569,6 +1775,7 @@ export const ignite = sdk(client => {
 				const {deployments, groups} = await client.get(
 					'/v1/ignite/deployments',
 					projectId ? {project: projectId} : {},
+					init,
 				);
 
 				return {
@@ -582,31 +1789,313 @@ export const ignite = sdk(client => {
 			 *
 			 * @param deployment - The ID of the deployment
 			 */
-			async delete(deployment: Id<'deployment'>) {
+			async delete(deployment: Id<'deployment'>, init?: RequestOptions) {
 				await client.delete(
 					'/v1/ignite/deployments/:deployment_id',
 					undefined,
 					{deployment_id: deployment},
+					init,
 				);
 			},
 
 			async patchMetadata(
 				deploymentId: Id<'deployment'>,
 				metadata: Partial<DeploymentMetadata>,
+				init?: RequestOptions,
 			) {
 				const {deployment} = await client.patch(
 					'/v1/ignite/deployments/:deployment_id/metadata',
 					metadata,
 					{deployment_id: deploymentId},
+					init,
 				);
 
 				return deployment;
 			},
+
+			/**
+			 * Snapshots a deployment into a manifest that can be saved and imported into any project
+			 *
+			 * @param deploymentId - The ID of the deployment to export
+			 * @param projectId - The project the deployment is in. You only need to provide this if you are using bearer or PAT authentication and the deployment is in a group.
+			 * @returns The manifest. Use {@link formatDeploymentManifest} to turn it into JSON or YAML
+			 */
+			async exportManifest(
+				deploymentId: Id<'deployment'>,
+				projectIdOrInit?: Id<'project'> | RequestOptions,
+				maybeInit?: RequestOptions,
+			): Promise<DeploymentManifest> {
+				const [projectId, init] = resolveProjectInit(
+					client,
+					projectIdOrInit,
+					maybeInit,
+				);
+
+				const deployment = await getDeployment(deploymentId, init);
+
+				let group: string | null = null;
+
+				if (deployment.group_id) {
+					if (client.authType !== 'ptk' && !projectId) {
+						throw new Error(
+							'Project ID is required for bearer or PAT authentication to export a deployment in a group',
+						);
+					}
+
+					const {groups} = await igniteSDK.deployments.getAll(projectId, init);
+					group =
+						groups.find(({id}) => id === deployment.group_id)?.name ?? null;
+				}
+
+				return createManifest(deployment, group, init);
+			},
+
+			/**
+			 * Copies a deployment with its health check and gateways, for example into a sibling project for a preview environment.
+			 * Domains are not copied, as they can only be attached to one gateway.
+			 *
+			 * @param deploymentId - The ID of the deployment to clone
+			 * @param options - `targetProject` is the project to create the copy in, and defaults to the same project. Project tokens can only clone within their own project.
+			 * `name` defaults to the name of the deployment when cloning into another project, and to the name with a `-clone` suffix otherwise. `envOverrides` are merged into its environment variables
+			 * @returns The new deployment, and the secrets its environment variables reference that do not exist in the target project
+			 */
+			async clone(
+				deploymentId: Id<'deployment'>,
+				options: Partial<{
+					targetProject: Id<'project'>;
+					name: string;
+					envOverrides: Record<string, string>;
+				}> = {},
+				init?: RequestOptions,
+			) {
+				if (client.authType === 'ptk' && options.targetProject) {
+					throw new Error(
+						'Project tokens can only clone deployments within their own project',
+					);
+				}
+
+				const [targetProject] = resolveProjectInit(
+					client,
+					options.targetProject,
+					init,
+				);
+
+				if (client.authType !== 'ptk' && !targetProject) {
+					throw new Error(
+						'Target project is required for bearer or PAT authentication to clone a deployment',
+					);
+				}
+
+				const deployment = await getDeployment(deploymentId, init);
+				const manifest = await createManifest(deployment, null, init);
+
+				const env = {...manifest.config.env, ...options.envOverrides};
+
+				const {secrets} = targetProject
+					? await client.get(
+							'/v1/projects/:project_id/secrets',
+							{project_id: targetProject},
+							init,
+					  )
+					: await client.get('/v1/projects/@this/secrets', {}, init);
+
+				const missingSecrets = getSecretReferences(env).filter(
+					name => !secrets.some(secret => secret.name === name),
+				);
+
+				const clone = await igniteSDK.deployments.importManifest(
+					{...manifest, config: {...manifest.config, env}},
+					{
+						// Names are unique within a project, so a copy next to the original needs a new one
+						name:
+							options.name ??
+							(options.targetProject
+								? deployment.name
+								: `${deployment.name}-clone`),
+						domains: false,
+					},
+					targetProject,
+					init,
+				);
+
+				return {deployment: clone, missingSecrets};
+			},
+
+			/**
+			 * Creates a deployment from a manifest, along with its group, metadata, health check, gateways and domains.
+			 * Fields owned by the API, like IDs and rollouts, are ignored. If any step after creating the deployment fails,
+			 * the deployment is deleted again before the error is thrown. A group that was created for it is kept.
+			 *
+			 * @param manifest - The manifest, or its JSON or YAML text
+			 * @param options - `name` overrides the deployment name, `secrets` renames referenced secrets (old name to new name) and `domains: false` skips attaching domains
+			 * @param projectId - The project to create the deployment in. You only need to provide this if you are using bearer or PAT authentication.
+			 * @returns The new deployment
+			 */
+			async importManifest(
+				manifest: DeploymentManifest | string,
+				options: Partial<{
+					name: string;
+					secrets: Record<string, string>;
+					domains: boolean;
+				}> = {},
+				projectIdOrInit?: Id<'project'> | RequestOptions,
+				maybeInit?: RequestOptions,
+			) {
+				const [projectId, init] = resolveProjectInit(
+					client,
+					projectIdOrInit,
+					maybeInit,
+				);
+
+				const {
+					name,
+					config: manifestConfig,
+					group,
+					metadata,
+					health_check: healthCheck,
+					gateways,
+				} = readDeploymentManifest(manifest);
+
+				const config: API.Ignite.CreateDeploymentConfig = {
+					...manifestConfig,
+					name: options.name ?? name,
+					env: remapSecretReferences(
+						manifestConfig.env ?? {},
+						options.secrets ?? {},
+					),
+				};
+
+				// Imported lazily so that zod is only loaded when importing
+				const {validateDeploymentConfig} = await import(
+					'../utils/zod/ignite.ts'
+				);
+
+				// The schema follows the console's deployment form, which names some fields differently
+				const issues = validateDeploymentConfig({
+					...config,
+					image: {...config.image, name: config.image.name ?? undefined},
+					volume: config.volume && {
+						fs: config.volume.fs,
+						size: config.volume.size,
+						mountpath: config.volume.mount_path,
+					},
+				});
+
+				if (issues.length > 0) {
+					throw new HopManifestError(
+						`Manifest for ${config.name} has an invalid config:`,
+						issues,
+					);
+				}
+
+				const deployment = projectId
+					? await createDeployment(projectId, config, init)
+					: await createDeployment(config, init);
+
+				try {
+					if (group) {
+						const {groups} = await igniteSDK.deployments.getAll(
+							projectId,
+							init,
+						);
+						const existing = groups.find(({name}) => name === group);
+
+						if (existing) {
+							await igniteSDK.groups.move(
+								deployment.id,
+								existing.id,
+								projectId,
+								init,
+							);
+						} else {
+							await igniteSDK.groups.create(
+								group,
+								{deploymentIds: [deployment.id]},
+								projectId,
+								init,
+							);
+						}
+					}
+
+					if (metadata && Object.keys(metadata).length > 0) {
+						await igniteSDK.deployments.patchMetadata(
+							deployment.id,
+							metadata,
+							init,
+						);
+					}
+
+					if (healthCheck) {
+						await igniteSDK.healthChecks.create(
+							deployment.id,
+							healthCheck,
+							init,
+						);
+					}
+
+					for (const gateway of gateways) {
+						const base = {
+							protocol: gateway.protocol,
+							name: gateway.name,
+							targetPort: gateway.target_port ?? 0,
+						};
+
+						const created =
+							gateway.type === GatewayType.INTERNAL
+								? await deploymentGateways.create(
+										deployment.id,
+										{
+											...base,
+											type: GatewayType.INTERNAL,
+											internalDomain: gateway.internal_domain ?? gateway.name,
+										},
+										init,
+								  )
+								: await deploymentGateways.create(
+										deployment.id,
+										{...base, type: GatewayType.EXTERNAL},
+										init,
+								  );
+
+						if (options.domains === false) {
+							continue;
+						}
+
+						for (const domain of gateway.domains) {
+							await igniteSDK.gateways.addDomain(created.id, domain, init);
+						}
+					}
+				} catch (error) {
+					// Don't leave a half imported deployment behind. This runs without the signal,
+					// so that it still happens when the import was aborted
+					await igniteSDK.deployments.delete(deployment.id).catch(() => null);
+
+					throw error;
+				}
+
+				return getDeployment(deployment.id, init);
+			},
 		},
 
 		containers: {
 			delete: deleteContainer,
 
+			/**
+			 * Get a container by its ID
+			 *
+			 * @param container - The ID of the container
+			 * @returns The container
+			 */
+			async get(container: Id<'container'>, init?: RequestOptions) {
+				const {container: result} = await client.get(
+					'/v1/ignite/containers/:container_id',
+					{container_id: container},
+					init,
+				);
+
+				return Containers.from(result);
+			},
+
 			/**
 			 * Get the logs for a container
 			 *
@@ -615,29 +2104,99 @@ export const ignite = sdk(client => {
 			 */
 			async getLogs(
 				container: Id<'container'>,
-				options: Partial<{
-					sortBy: 'timestamp';
-					orderBy: 'desc' | 'asc';
-					limit: number;
-					offset: number;
-				}> = {},
+				options: LogPageOptions = {},
+				init?: RequestOptions,
 			) {
 				const {logs} = await client.get(
 					'/v1/ignite/containers/:container_id/logs',
 					{container_id: container, ...options},
+					init,
 				);
 
 				return logs;
 			},
 
+			/**
+			 * Streams the logs of a container from oldest to newest. With `follow`, this keeps
+			 * polling for new logs until the signal in `init` aborts, the container is deleted
+			 * or the container reaches the `exited` state.
+			 *
+			 * @param container - The ID of the container, or the container itself
+			 * @param options - `since` skips older logs, `levels` only includes logs of those levels and `interval` is the milliseconds between polls when following
+			 * @returns An async iterator of logs
+			 *
+			 * @example
+			 * ```ts
+			 * for await (const log of hop.ignite.containers.streamLogs(container, {follow: true})) {
+			 * 	console.log(log.message);
+			 * }
+			 * ```
+			 */
+			async *streamLogs(
+				container:
+					| Id<'container'>
+					| Pick<API.Ignite.Container, 'id' | 'deployment_id'>,
+				options: LogStreamOptions = {},
+				init?: RequestOptions,
+			): AsyncGenerator<API.Ignite.ContainerLog, void, undefined> {
+				const id = typeof container === 'string' ? container : container.id;
+				const signal = init?.signal ?? null;
+				const read = createLogCursor(
+					igniteSDK.containers.getLogs,
+					id,
+					options.since,
+				);
+				const include = createLogFilter(options);
+
+				const hasExited = async () => {
+					const current = await igniteSDK.containers.get(id, init);
+
+					return current.state === API.Ignite.ContainerState.EXITED;
+				};
+
+				let following = false;
+
+				try {
+					while (true) {
+						// Check before reading so that logs written just before exiting are included
+						const exited = following && (await hasExited());
+
+						for (const log of await read(init)) {
+							if (include(log)) {
+								yield log;
+							}
+						}
+
+						if (!options.follow || exited) {
+							return;
+						}
+
+						following = true;
+						await sleep(options.interval ?? 2000, signal);
+					}
+				} catch (error) {
+					if (signal?.aborted) {
+						return;
+					}
+
+					// The container was deleted while we were following it
+					if (following && error instanceof HopNotFoundError) {
+						return;
+					}
+
+					throw error;
+				}
+			},
+
 			/**
 			 * Stop a container
 			 * @param container - The ID of the container
 			 */
-			async stop(container: Id<'container'>) {
+			async stop(container: Id<'container'>, init?: RequestOptions) {
 				await updateContainerState(
 					container,
 					API.Ignite.ContainerState.STOPPED,
+					init,
 				);
 			},
 
@@ -645,10 +2204,11 @@ export const ignite = sdk(client => {
 			 * Start a container
 			 * @param container - The ID of the container
 			 */
-			async start(container: Id<'container'>) {
+			async start(container: Id<'container'>, init?: RequestOptions) {
 				await updateContainerState(
 					container,
 					API.Ignite.ContainerState.RUNNING,
+					init,
 				);
 			},
 
@@ -658,15 +2218,342 @@ export const ignite = sdk(client => {
 			 * @param deployment - The ID of a deployment to create a container in.
 			 * @returns The newly created container.
 			 */
-			async create(deployment: Id<'deployment'>) {
+			async create(deployment: Id<'deployment'>, init?: RequestOptions) {
 				const {container} = await client.post(
 					'/v1/ignite/deployments/:deployment_id/containers',
 					undefined,
 					{deployment_id: deployment},
+					init,
+				);
+
+				return Containers.from(container);
+			},
+		},
+
+		builds: {
+			/**
+			 * Gets all builds of a deployment
+			 *
+			 * @param deploymentId - The ID of the deployment
+			 * @returns The builds of the deployment, newest first
+			 */
+			async getAll(deploymentId: Id<'deployment'>, init?: RequestOptions) {
+				const {builds} = await client.get(
+					'/v1/ignite/deployments/:deployment_id/builds',
+					{deployment_id: deploymentId},
+					init,
+				);
+
+				return builds.map(build => Builds.from(build));
+			},
+
+			/**
+			 * Gets a build
+			 *
+			 * @param buildId - The ID of the build
+			 * @returns The build
+			 */
+			async get(buildId: Id<'build'>, init?: RequestOptions) {
+				const {build} = await client.get(
+					'/v1/ignite/builds/:build_id',
+					{build_id: buildId},
+					init,
+				);
+
+				return Builds.from(build);
+			},
+
+			/**
+			 * Get the logs for a build
+			 *
+			 * @param buildId - The ID of the build
+			 * @returns A page of logs
+			 */
+			async getLogs(
+				buildId: Id<'build'>,
+				options: LogPageOptions = {},
+				init?: RequestOptions,
+			) {
+				const {logs} = await client.get(
+					'/v1/ignite/builds/:build_id/logs',
+					{build_id: buildId, ...options},
+					init,
+				);
+
+				return logs;
+			},
+
+			/**
+			 * Streams the logs of a build from oldest to newest. With `follow`, this keeps
+			 * polling for new logs until the build finishes or the signal in `init` aborts.
+			 *
+			 * @param buildId - The ID of the build
+			 * @param options - `since` skips older logs, `levels` only includes logs of those levels and `interval` is the milliseconds between polls when following
+			 * @returns An async iterator of logs
+			 *
+			 * @example
+			 * ```ts
+			 * for await (const log of hop.ignite.builds.streamLogs(buildId, {follow: true})) {
+			 * 	console.log(log.message);
+			 * }
+			 * ```
+			 */
+			async *streamLogs(
+				buildId: Id<'build'>,
+				options: LogStreamOptions = {},
+				init?: RequestOptions,
+			): AsyncGenerator<API.Ignite.BuildLog, void, undefined> {
+				const signal = init?.signal ?? null;
+				const read = createLogCursor(
+					igniteSDK.builds.getLogs,
+					buildId,
+					options.since,
+				);
+				const include = createLogFilter(options);
+
+				const hasFinished = async () => {
+					const build = await igniteSDK.builds.get(buildId, init);
+
+					return (
+						build.state !== API.Ignite.BuildState.PENDING &&
+						build.state !== API.Ignite.BuildState.VALIDATING
+					);
+				};
+
+				try {
+					while (true) {
+						// Check before reading so that logs written just before finishing are included
+						const finished = options.follow ? await hasFinished() : true;
+
+						for (const log of await read(init)) {
+							if (include(log)) {
+								yield log;
+							}
+						}
+
+						if (finished) {
+							return;
+						}
+
+						await sleep(options.interval ?? 2000, signal);
+					}
+				} catch (error) {
+					if (signal?.aborted) {
+						return;
+					}
+
+					throw error;
+				}
+			},
+
+			/**
+			 * Cancels a build that is still validating or pending
+			 *
+			 * @param buildId - The ID of the build
+			 * @returns The cancelled build
+			 */
+			async cancel(buildId: Id<'build'>, init?: RequestOptions) {
+				const {build} = await client.post(
+					'/v1/ignite/builds/:build_id/cancel',
+					undefined,
+					{build_id: buildId},
+					init,
 				);
 
-				return container;
+				return Builds.from(build);
 			},
+
+			/**
+			 * Starts a new build of a deployment that is linked to a GitHub repo
+			 *
+			 * @param buildId - The ID of a previous build of the deployment
+			 * @param options - `commitSha` is the commit to build. Defaults to the commit of the previous build
+			 * @returns The new build
+			 */
+			async retrigger(
+				buildId: Id<'build'>,
+				options: {commitSha?: string} = {},
+				init?: RequestOptions,
+			) {
+				const previous = await igniteSDK.builds.get(buildId, init);
+				const commitSha = options.commitSha ?? previous.metadata?.commit_sha;
+
+				if (!commitSha) {
+					throw new Error(
+						`Build ${buildId} was not built from a GitHub commit, so a commit SHA is required`,
+					);
+				}
+
+				const {build} = await client.post(
+					'/v1/ignite/deployments/:deployment_id/builds',
+					{commit_sha: commitSha},
+					{deployment_id: previous.deployment_id},
+					init,
+				);
+
+				return Builds.from(build);
+			},
+
+			/**
+			 * Waits for a build to succeed. This is the same as `waitForBuild`
+			 *
+			 * @param buildId - The ID of the build to wait for
+			 * @param options - Timeout, interval and progress options
+			 * @returns The build once it has succeeded
+			 * @throws {@link HopBuildFailedError} with the reason and help link if the build failed validation, or if it failed or was cancelled
+			 * @throws {@link HopWaitTimeoutError} if the build did not finish in time
+			 */
+			async wait(
+				buildId: Id<'build'>,
+				options: WaitOptions<API.Ignite.Build> = {},
+				init?: RequestOptions,
+			) {
+				return igniteSDK.waitForBuild(buildId, options, init);
+			},
+		},
+
+		/**
+		 * Waits for a rollout to finish
+		 *
+		 * @param rolloutOrDeployment - The rollout to wait for, or a deployment (or its ID) to wait for the latest rollout of
+		 * @param options - Timeout, interval and progress options
+		 * @returns The finished rollout
+		 * @throws {@link HopRolloutFailedError} if the rollout failed
+		 * @throws {@link HopWaitTimeoutError} if the rollout did not finish in time
+		 */
+		async waitForRollout(
+			rolloutOrDeployment:
+				| Pick<API.Ignite.DeploymentRollout, 'id' | 'deployment_id'>
+				| Pick<API.Ignite.Deployment, 'id' | 'latest_rollout'>
+				| Id<'deployment'>,
+			options: WaitOptions<API.Ignite.DeploymentRollout> = {},
+			init?: RequestOptions,
+		) {
+			let deploymentId: Id<'deployment'>;
+			let rolloutId: Id<'rollout'> | null;
+
+			if (typeof rolloutOrDeployment === 'string') {
+				deploymentId = rolloutOrDeployment;
+				rolloutId = null;
+			} else if ('deployment_id' in rolloutOrDeployment) {
+				deploymentId = rolloutOrDeployment.deployment_id;
+				rolloutId = rolloutOrDeployment.id;
+			} else {
+				deploymentId = rolloutOrDeployment.id;
+				rolloutId = rolloutOrDeployment.latest_rollout?.id ?? null;
+			}
+
+			const rollout = await waitFor(
+				`the rollout of deployment ${deploymentId}`,
+				async () => {
+					const deployment = await getDeployment(deploymentId, init);
+					const rollout = deployment.latest_rollout;
+
+					if (!rollout) {
+						throw new Error(
+							`Deployment ${deploymentId} does not have a rollout to wait for`,
+						);
+					}
+
+					rolloutId ??= rollout.id;
+
+					if (rollout.id !== rolloutId) {
+						throw new Error(
+							`Rollout ${rolloutId} was replaced by rollout ${rollout.id} before it finished`,
+						);
+					}
+
+					return rollout;
+				},
+				rollout => {
+					if (rollout.state === API.Ignite.RolloutState.FAILED) {
+						throw new HopRolloutFailedError(rollout);
+					}
+
+					return rollout.state === API.Ignite.RolloutState.FINISHED;
+				},
+				options,
+				init?.signal,
+			);
+
+			return Rollouts.from(rollout);
+		},
+
+		/**
+		 * Waits for a build to succeed
+		 *
+		 * @param buildId - The ID of the build to wait for
+		 * @param options - Timeout, interval and progress options
+		 * @returns The build once it has succeeded
+		 * @throws {@link HopBuildFailedError} if the build failed, failed validation or was cancelled
+		 * @throws {@link HopWaitTimeoutError} if the build did not finish in time
+		 */
+		async waitForBuild(
+			buildId: Id<'build'>,
+			options: WaitOptions<API.Ignite.Build> = {},
+			init?: RequestOptions,
+		) {
+			return waitFor(
+				`build ${buildId}`,
+				async () => igniteSDK.builds.get(buildId, init),
+				build => {
+					switch (build.state) {
+						case API.Ignite.BuildState.SUCCEEDED:
+							return true;
+
+						case API.Ignite.BuildState.FAILED:
+						case API.Ignite.BuildState.CANCELLED:
+						case API.Ignite.BuildState.VALIDATION_FAILED:
+							throw new HopBuildFailedError(build);
+
+						default:
+							return false;
+					}
+				},
+				options,
+				init?.signal,
+			);
+		},
+
+		/**
+		 * Waits for a container to reach a state
+		 *
+		 * @param containerId - The ID of the container to wait for
+		 * @param state - The state to wait for
+		 * @param options - Timeout, interval and progress options
+		 * @returns The container once it is in the state
+		 * @throws {@link HopContainerStateError} if the container failed or was deleted
+		 * @throws {@link HopWaitTimeoutError} if the container did not reach the state in time
+		 */
+		async waitForContainerState(
+			containerId: Id<'container'>,
+			state: API.Ignite.ContainerState,
+			options: WaitOptions<API.Ignite.Container> = {},
+			init?: RequestOptions,
+		) {
+			return waitFor(
+				`container ${containerId} to be ${state}`,
+				async () =>
+					igniteSDK.containers.get(containerId, init).catch(error => {
+						if (error instanceof HopNotFoundError) {
+							throw new HopContainerStateError(containerId, state, null);
+						}
+
+						throw error;
+					}),
+				current => {
+					if (
+						current.state === API.Ignite.ContainerState.FAILED &&
+						state !== API.Ignite.ContainerState.FAILED
+					) {
+						throw new HopContainerStateError(containerId, state, current.state);
+					}
+
+					return current.state === state;
+				},
+				options,
+				init?.signal,
+			);
 		},
 	};
 
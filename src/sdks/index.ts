@@ -5,3 +5,7 @@ export * from './projects.ts';
 export * from './registry.ts';
 export * from './users.ts';
 export * from './fleet.ts';
+export * from './infra.ts';
+export * from './releases.ts';
+export * from './autoscaler.ts';
+export * from './canary.ts';
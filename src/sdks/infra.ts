@@ -0,0 +1,722 @@
+import {HopNotFoundError, type Id, type RequestOptions} from '../rest/index.ts';
+import {
+	GatewayType,
+	type CreateDeploymentConfig,
+	type DeploymentConfig,
+	type Gateway,
+	type HealthCheckConfig,
+} from '../rest/types/ignite.ts';
+import {diffDeploymentConfig} from '../util/deployments.ts';
+import {diffFields, type FieldChange} from '../util/diff.ts';
+import {resolveProjectInit, sdk} from './create.ts';
+import {ignite} from './ignite.ts';
+import {projects} from './projects.ts';
+
+/**
+ * A gateway described in an {@link InfraConfig}
+ * @public
+ */
+export interface InfraGatewayConfig {
+	type: GatewayType;
+
+	/**
+	 * Defaults to `http` for external gateways
+	 */
+	protocol?: Gateway['protocol'];
+
+	targetPort: number;
+
+	/**
+	 * Required for internal gateways
+	 */
+	internalDomain?: string;
+
+	/**
+	 * Domains that should point to this gateway
+	 */
+	domains?: string[];
+}
+
+/**
+ * A deployment described in an {@link InfraConfig}
+ * @public
+ */
+export interface InfraDeploymentConfig {
+	config: Omit<CreateDeploymentConfig, 'name'>;
+
+	/**
+	 * The name of the group this deployment belongs in. Pass null to take it out of its group,
+	 * or leave this out to not manage its group at all
+	 */
+	group?: string | null;
+
+	healthCheck?: HealthCheckConfig;
+
+	/**
+	 * Gateways of this deployment by their name
+	 */
+	gateways?: Record<string, InfraGatewayConfig>;
+}
+
+/**
+ * Everything in a project that should be managed by {@link infra}
+ * @public
+ */
+export interface InfraConfig {
+	/**
+	 * Secret values by their name. Secret values can't be read back, so
+	 * plans always update the secrets that already exist
+	 */
+	secrets?: Record<string, string>;
+
+	/**
+	 * Names of deployment groups
+	 */
+	groups?: string[];
+
+	/**
+	 * Deployments by their name
+	 */
+	deployments?: Record<string, InfraDeploymentConfig>;
+
+	/**
+	 * Delete secrets, groups, deployments and domains that are not in this config.
+	 * Without this, plans only ever create and update.
+	 */
+	prune?: boolean;
+}
+
+/**
+ * A single value that a change will set
+ * @public
+ */
+export type InfraFieldChange = FieldChange;
+
+/**
+ * Something a plan will create, update or delete
+ * @public
+ */
+export interface InfraChange {
+	action: 'create' | 'update' | 'delete';
+	resource:
+		| 'secret'
+		| 'group'
+		| 'deployment'
+		| 'health_check'
+		| 'gateway'
+		| 'domain';
+
+	/**
+	 * The name of the resource. Resources that belong to a deployment are prefixed with it, e.g. `api/web`
+	 */
+	name: string;
+
+	fields: InfraFieldChange[];
+}
+
+/**
+ * The changes needed to make a project match an {@link InfraConfig}
+ * @public
+ */
+export interface InfraPlan {
+	project: Id<'project'> | undefined;
+	changes: InfraChange[];
+
+	/**
+	 * Differences that can't be applied, for example changing the type of an existing gateway
+	 */
+	warnings: string[];
+}
+
+/**
+ * IDs of resources by name, filled in as a plan is applied so that
+ * later steps can use resources created by earlier ones
+ */
+interface ApplyContext {
+	deployments: Map<string, Id<'deployment'>>;
+	groups: Map<string, Id<'deployment_group'>>;
+	gateways: Map<string, Id<'gateway'>>;
+}
+
+interface Step {
+	change: InfraChange;
+
+	/**
+	 * Steps run in order of their phase, so creates happen before the resources that depend on them
+	 */
+	phase: number;
+
+	run(context: ApplyContext, init: RequestOptions | undefined): Promise<void>;
+}
+
+const steps = new WeakMap<InfraPlan, {context: ApplyContext; steps: Step[]}>();
+
+const SYMBOLS = {create: '+', update: '~', delete: '-'} as const;
+
+/**
+ * Formats a plan as a readable diff
+ *
+ * @param plan - The plan to format
+ * @returns A multiline string describing every change in the plan
+ * @public
+ */
+export function formatInfraPlan(plan: InfraPlan) {
+	const count = (action: InfraChange['action']) =>
+		plan.changes.filter(change => change.action === action).length;
+
+	const lines = [
+		`${count('create')} to create, ${count('update')} to update, ${count(
+			'delete',
+		)} to delete`,
+	];
+
+	const show = (value: unknown) =>
+		value === undefined ? '(none)' : JSON.stringify(value);
+
+	for (const change of plan.changes) {
+		lines.push(
+			`${SYMBOLS[change.action]} ${change.resource.replace('_', ' ')} ${
+				change.name
+			}`,
+		);
+
+		for (const field of change.fields) {
+			lines.push(
+				`    ${field.path}: ${show(field.before)} -> ${show(field.after)}`,
+			);
+		}
+	}
+
+	for (const warning of plan.warnings) {
+		lines.push(`! ${warning}`);
+	}
+
+	return lines.join('\n');
+}
+
+/**
+ * Declarative infrastructure SDK client. Describe secrets, groups, deployments, health checks,
+ * gateways and domains in one config, then plan and apply the changes needed to match it.
+ * @public
+ */
+export const infra = sdk(client => {
+	const igniteSDK = ignite(client);
+	const projectsSDK = projects(client);
+
+	const infraSDK = {
+		/**
+		 * Compares a config to a project and works out what needs to change
+		 *
+		 * @param config - The config, or the JSON text of one
+		 * @param projectId - The project to plan for. You only need to provide this if you are using bearer or PAT authentication.
+		 * @returns A plan that can be printed with {@link formatInfraPlan} and passed to {@link infraSDK.apply}
+		 */
+		async plan(
+			config: InfraConfig | string,
+			projectIdOrInit?: Id<'project'> | RequestOptions,
+			maybeInit?: RequestOptions,
+		) {
+			const [projectId, init] = resolveProjectInit(
+				client,
+				projectIdOrInit,
+				maybeInit,
+			);
+
+			if (client.authType !== 'ptk' && !projectId) {
+				throw new Error(
+					'Project ID is required for bearer or PAT authentication to plan infrastructure',
+				);
+			}
+
+			const desired: InfraConfig =
+				typeof config === 'string'
+					? (JSON.parse(config) as InfraConfig)
+					: config;
+
+			const plan: InfraPlan = {project: projectId, changes: [], warnings: []};
+			const context: ApplyContext = {
+				deployments: new Map(),
+				groups: new Map(),
+				gateways: new Map(),
+			};
+
+			const planned: Step[] = [];
+
+			const add = (
+				change: Omit<InfraChange, 'fields'> & {fields?: InfraFieldChange[]},
+				phase: number,
+				run: Step['run'],
+			) => {
+				planned.push({
+					change: {...change, fields: change.fields ?? []},
+					phase,
+					run,
+				});
+			};
+
+			const [secrets, {deployments, groups}] = await Promise.all([
+				projectsSDK.secrets.getAll(projectId, init),
+				igniteSDK.deployments.getAll(projectId, init),
+			]);
+
+			// Secrets
+			for (const [name, value] of Object.entries(desired.secrets ?? {})) {
+				const existing = secrets.find(secret => secret.name === name);
+
+				// The API only returns a digest of each secret, which can't be compared
+				// to a value, so secrets that already exist are always updated
+				add(
+					{
+						action: existing ? 'update' : 'create',
+						resource: 'secret',
+						name,
+					},
+					0,
+					async () => {
+						await projectsSDK.secrets.create(name, value, projectId, init);
+					},
+				);
+			}
+
+			// Groups
+			for (const group of groups) {
+				context.groups.set(group.name, group.id);
+			}
+
+			for (const name of desired.groups ?? []) {
+				if (context.groups.has(name)) {
+					continue;
+				}
+
+				add({action: 'create', resource: 'group', name}, 1, async ctx => {
+					const group = await igniteSDK.groups.create(
+						name,
+						{},
+						projectId,
+						init,
+					);
+
+					ctx.groups.set(name, group.id);
+				});
+			}
+
+			// Deployments, and everything that belongs to them
+			for (const deployment of deployments) {
+				context.deployments.set(deployment.name, deployment.id);
+			}
+
+			for (const [name, entry] of Object.entries(desired.deployments ?? {})) {
+				const existing = deployments.find(
+					deployment => deployment.name === name,
+				);
+
+				if (!existing) {
+					add(
+						{
+							action: 'create',
+							resource: 'deployment',
+							name,
+							fields: diffFields(undefined, entry.config),
+						},
+						2,
+						async ctx => {
+							const config = {...entry.config, name};
+
+							const deployment = projectId
+								? await igniteSDK.deployments.create(projectId, config, init)
+								: await igniteSDK.deployments.create(config, init);
+
+							ctx.deployments.set(name, deployment.id);
+						},
+					);
+				} else {
+					const current = Object.fromEntries(
+						Object.keys(entry.config).map(key => [
+							key,
+							existing.config[key as keyof typeof existing.config],
+						]),
+					);
+
+					const diff = diffDeploymentConfig(current, entry.config);
+
+					for (const change of diff.blocked) {
+						plan.warnings.push(
+							`deployment ${name} can't change ${change.path}: ${change.blocked}`,
+						);
+					}
+
+					const fields = diff.changes.filter(change => !change.blocked);
+
+					if (fields.length) {
+						const changed = Object.fromEntries(
+							fields.map(({field}) => [
+								field,
+								entry.config[field as keyof typeof entry.config],
+							]),
+						) as Partial<DeploymentConfig>;
+
+						add(
+							{
+								action: 'update',
+								resource: 'deployment',
+								name,
+								fields: fields.map(({path, before, after}) => ({
+									path,
+									before,
+									after,
+								})),
+							},
+							2,
+							async () => {
+								await igniteSDK.deployments.update(existing.id, changed, init);
+							},
+						);
+					}
+				}
+
+				if (entry.group !== undefined) {
+					const currentGroup =
+						groups.find(group => group.id === existing?.group_id)?.name ?? null;
+
+					const known =
+						entry.group === null ||
+						context.groups.has(entry.group) ||
+						(desired.groups ?? []).includes(entry.group);
+
+					if (!known) {
+						plan.warnings.push(
+							`deployment ${name} can't move to group ${entry.group}, which does not exist. Add it to the groups of the config to create it`,
+						);
+					} else if (entry.group !== currentGroup) {
+						const group = entry.group;
+
+						add(
+							{
+								action: 'update',
+								resource: 'deployment',
+								name,
+								fields: [{path: 'group', before: currentGroup, after: group}],
+							},
+							3,
+							async ctx => {
+								await igniteSDK.groups.move(
+									ctx.deployments.get(name)!,
+									group === null ? null : ctx.groups.get(group)!,
+									projectId,
+									init,
+								);
+							},
+						);
+					}
+				}
+
+				if (entry.healthCheck) {
+					const check = entry.healthCheck;
+
+					const live = existing
+						? await igniteSDK.healthChecks
+								.get(existing.id, init)
+								.catch(error => {
+									if (error instanceof HopNotFoundError) {
+										return null;
+									}
+
+									throw error;
+								})
+						: null;
+
+					const fields = diffFields(
+						live
+							? Object.fromEntries(
+									Object.keys(check).map(key => [
+										key,
+										live[key as keyof typeof check],
+									]),
+							  )
+							: undefined,
+						check,
+					);
+
+					if (!live || fields.length) {
+						add(
+							{
+								action: live ? 'update' : 'create',
+								resource: 'health_check',
+								name,
+								fields,
+							},
+							4,
+							async ctx => {
+								const deploymentId = ctx.deployments.get(name)!;
+
+								if (live) {
+									await igniteSDK.healthChecks.update(
+										deploymentId,
+										check,
+										init,
+									);
+								} else {
+									await igniteSDK.healthChecks.create(
+										deploymentId,
+										check,
+										init,
+									);
+								}
+							},
+						);
+					}
+				}
+
+				const gateways = existing
+					? await igniteSDK.gateways.getAll(existing.id, init)
+					: [];
+
+				for (const [gatewayName, gateway] of Object.entries(
+					entry.gateways ?? {},
+				)) {
+					const key = `${name}/${gatewayName}`;
+					const live = gateways.find(({name}) => name === gatewayName);
+					const protocol =
+						gateway.protocol ??
+						(gateway.type === GatewayType.EXTERNAL ? 'http' : null);
+
+					if (live) {
+						context.gateways.set(key, live.id);
+
+						if (live.type !== gateway.type) {
+							plan.warnings.push(
+								`gateway ${key} can't change its type once created`,
+							);
+						}
+
+						const fields = diffFields(
+							{protocol: live.protocol, target_port: live.target_port},
+							{protocol, target_port: gateway.targetPort},
+						);
+
+						if (fields.length) {
+							add(
+								{action: 'update', resource: 'gateway', name: key, fields},
+								5,
+								async () => {
+									await igniteSDK.gateways.update(
+										live.id,
+										{protocol, targetPort: gateway.targetPort},
+										init,
+									);
+								},
+							);
+						}
+					} else {
+						add(
+							{
+								action: 'create',
+								resource: 'gateway',
+								name: key,
+								fields: diffFields(undefined, {
+									type: gateway.type,
+									protocol,
+									target_port: gateway.targetPort,
+								}),
+							},
+							5,
+							async ctx => {
+								const deploymentId = ctx.deployments.get(name)!;
+
+								const created =
+									gateway.type === GatewayType.INTERNAL
+										? await igniteSDK.gateways.create(
+												deploymentId,
+												{
+													type: GatewayType.INTERNAL,
+													protocol,
+													name: gatewayName,
+													targetPort: gateway.targetPort,
+													internalDomain: gateway.internalDomain ?? gatewayName,
+												},
+												init,
+										  )
+										: await igniteSDK.gateways.create(
+												deploymentId,
+												{
+													type: GatewayType.EXTERNAL,
+													protocol,
+													name: gatewayName,
+													targetPort: gateway.targetPort,
+												},
+												init,
+										  );
+
+								ctx.gateways.set(key, created.id);
+							},
+						);
+					}
+
+					const domains = live?.domains ?? [];
+
+					for (const domain of gateway.domains ?? []) {
+						if (domains.some(existing => existing.domain === domain)) {
+							continue;
+						}
+
+						add(
+							{action: 'create', resource: 'domain', name: `${key}/${domain}`},
+							6,
+							async ctx => {
+								await igniteSDK.gateways.addDomain(
+									ctx.gateways.get(key)!,
+									domain,
+									init,
+								);
+							},
+						);
+					}
+
+					if (desired.prune) {
+						for (const domain of domains) {
+							if (gateway.domains?.includes(domain.domain)) {
+								continue;
+							}
+
+							add(
+								{
+									action: 'delete',
+									resource: 'domain',
+									name: `${key}/${domain.domain}`,
+								},
+								7,
+								async () => {
+									await igniteSDK.domains.delete(domain.id, init);
+								},
+							);
+						}
+					}
+				}
+
+				if (desired.prune && existing) {
+					for (const gateway of gateways) {
+						if (entry.gateways?.[gateway.name]) {
+							continue;
+						}
+
+						add(
+							{
+								action: 'delete',
+								resource: 'gateway',
+								name: `${name}/${gateway.name}`,
+							},
+							7,
+							async () => {
+								await igniteSDK.gateways.delete(gateway.id, init);
+							},
+						);
+					}
+				}
+			}
+
+			// Deletes
+			if (desired.prune) {
+				for (const deployment of deployments) {
+					if (desired.deployments?.[deployment.name]) {
+						continue;
+					}
+
+					add(
+						{action: 'delete', resource: 'deployment', name: deployment.name},
+						8,
+						async () => {
+							await igniteSDK.deployments.delete(deployment.id, init);
+						},
+					);
+				}
+
+				for (const group of groups) {
+					if (desired.groups?.includes(group.name)) {
+						continue;
+					}
+
+					add(
+						{action: 'delete', resource: 'group', name: group.name},
+						9,
+						async () => {
+							await igniteSDK.groups.delete(group.id, projectId, init);
+						},
+					);
+				}
+
+				for (const secret of secrets) {
+					if (desired.secrets?.[secret.name] !== undefined) {
+						continue;
+					}
+
+					add(
+						{action: 'delete', resource: 'secret', name: secret.name},
+						10,
+						async () => {
+							await projectsSDK.secrets.delete(secret.id, projectId, init);
+						},
+					);
+				}
+			}
+
+			// Sorting is stable, so changes in the same phase keep their order
+			planned.sort((a, b) => a.phase - b.phase);
+			plan.changes = planned.map(step => step.change);
+
+			steps.set(plan, {context, steps: planned});
+
+			return plan;
+		},
+
+		/**
+		 * Applies a plan, or plans and applies a config. The plan is printed before anything is changed.
+		 * A plan can only be applied once. If a step fails, make a new plan to apply the rest
+		 *
+		 * @param planOrConfig - A plan from {@link infraSDK.plan}, or a config to plan first
+		 * @param options - `print` is called with the formatted plan before applying. Defaults to `console.log`, pass `false` to print nothing
+		 * @returns The plan that was applied
+		 * @throws {@link Error} if the plan has already been applied
+		 */
+		async apply(
+			planOrConfig: InfraPlan | InfraConfig | string,
+			options: {print?: ((diff: string) => void) | false} = {},
+			projectIdOrInit?: Id<'project'> | RequestOptions,
+			maybeInit?: RequestOptions,
+		) {
+			const [projectId, init] = resolveProjectInit(
+				client,
+				projectIdOrInit,
+				maybeInit,
+			);
+
+			const plan =
+				typeof planOrConfig === 'object' && 'changes' in planOrConfig
+					? planOrConfig
+					: await infraSDK.plan(planOrConfig, projectId, init);
+
+			const planned = steps.get(plan);
+
+			if (!planned) {
+				throw new Error(
+					'This plan has already been applied, or was not made by infra.plan. Make a new plan to apply it',
+				);
+			}
+
+			// A plan can only be applied once, even if a step fails. The steps before it
+			// have already been made, so planning again picks up from where this stopped
+			steps.delete(plan);
+
+			if (options.print !== false) {
+				(options.print ?? console.log)(formatInfraPlan(plan));
+			}
+
+			for (const step of planned.steps) {
+				await step.run(planned.context, init);
+			}
+
+			return plan;
+		},
+	};
+
+	return infraSDK;
+});
@@ -1,8 +1,8 @@
 import {create} from '@onehop/json-methods';
-import type {API, Id} from '../rest/index.ts';
+import type {API, Id, RequestOptions} from '../rest/index.ts';
 import {Regions} from '../rest/types/ignite.ts';
 import type {DeliveryProtocol} from '../rest/types/pipe.ts';
-import {sdk} from './create.ts';
+import {resolveProjectInit, sdk} from './create.ts';
 
 /**
  * Pipe SDK client
@@ -10,21 +10,30 @@ import {sdk} from './create.ts';
  */
 export const pipe = sdk(client => {
 	const Rooms = create<API.Pipe.Room>().methods({
-		async delete() {
-			await pipeSDK.rooms.delete(this.id);
+		async delete(init?: RequestOptions) {
+			await pipeSDK.rooms.delete(this.id, init);
 		},
 	});
 
 	const pipeSDK = {
 		rooms: {
-			async getAll(project?: Id<'project'>) {
+			async getAll(
+				projectOrInit?: Id<'project'> | RequestOptions,
+				maybeInit?: RequestOptions,
+			) {
+				const [project, init] = resolveProjectInit(
+					client,
+					projectOrInit,
+					maybeInit,
+				);
+
 				if (!project && client.authType !== 'ptk') {
 					throw new Error(
 						'You must provide ID project id when using a bearer or pat token.',
 					);
 				}
 
-				const {rooms} = await client.get('/v1/pipe/rooms', {project});
+				const {rooms} = await client.get('/v1/pipe/rooms', {project}, init);
 
 				return rooms.map(Rooms.from);
 			},
@@ -41,6 +50,7 @@ export const pipe = sdk(client => {
 						max_playout_bitrate_preset: string;
 					};
 				},
+				init?: RequestOptions,
 			) {
 				const {room} = await client.post(
 					'/v1/pipe/rooms',
@@ -56,6 +66,7 @@ export const pipe = sdk(client => {
 						llhls_config: options.hlsConfig,
 					},
 					{},
+					init,
 				);
 
 				return Rooms.from(room);
@@ -65,11 +76,15 @@ export const pipe = sdk(client => {
 			 * Deletes a Pipe room
 			 *
 			 * @param room - The ID of the Pipe room to delete.
+			 * @param init - Options for this request
 			 */
-			async delete(room: Id<'pipe_room'>) {
-				await client.delete('/v1/pipe/rooms/:room_id', undefined, {
-					room_id: room,
-				});
+			async delete(room: Id<'pipe_room'>, init?: RequestOptions) {
+				await client.delete(
+					'/v1/pipe/rooms/:room_id',
+					undefined,
+					{room_id: room},
+					init,
+				);
 			},
 		},
 	};
@@ -1,8 +1,8 @@
 import {constructEvent} from '../index.ts';
-import type {API, Endpoints, Id} from '../rest/index.ts';
+import type {API, Endpoints, Id, RequestOptions} from '../rest/index.ts';
 import {Request} from '../util/fetch.ts';
 import type {PossibleWebhookIDs} from '../util/types.ts';
-import {sdk} from './create.ts';
+import {resolveProjectInit, sdk} from './create.ts';
 
 /**
  * Projects SDK client
@@ -15,7 +15,17 @@ export const projects = sdk(client => {
 		 *
 		 * @param projectTokenId - The ID of the project token to delete
 		 */
-		async delete(projectTokenId: Id<'ptkid'>, project?: Id<'project'>) {
+		async delete(
+			projectTokenId: Id<'ptkid'>,
+			projectOrInit?: Id<'project'> | RequestOptions,
+			maybeInit?: RequestOptions,
+		) {
+			const [project, init] = resolveProjectInit(
+				client,
+				projectOrInit,
+				maybeInit,
+			);
+
 			if (client.authType !== 'ptk' && !project) {
 				throw new Error(
 					'Project ID is required for bearer or PAT authentication to delete a project token',
@@ -30,6 +40,7 @@ export const projects = sdk(client => {
 				project
 					? {project_id: project, project_token_id: projectTokenId}
 					: {project_token_id: projectTokenId},
+				init,
 			);
 		},
 
@@ -39,7 +50,16 @@ export const projects = sdk(client => {
 		 * @param projectId - The project to fetch secrets for
 		 * @returns An array of all secrets for the project
 		 */
-		async get(projectId?: Id<'project'>) {
+		async get(
+			projectIdOrInit?: Id<'project'> | RequestOptions,
+			maybeInit?: RequestOptions,
+		) {
+			const [projectId, init] = resolveProjectInit(
+				client,
+				projectIdOrInit,
+				maybeInit,
+			);
+
 			if (client.authType !== 'ptk' && !projectId) {
 				throw new Error(
 					'Project ID is required for bearer or PAT authentication',
@@ -50,6 +70,7 @@ export const projects = sdk(client => {
 				const {project_tokens: keys} = await client.get(
 					'/v1/projects/@this/tokens',
 					{},
+					init,
 				);
 
 				return keys;
@@ -58,6 +79,7 @@ export const projects = sdk(client => {
 			const {project_tokens: keys} = await client.get(
 				'/v1/projects/:project_id/tokens',
 				{project_id: projectId},
+				init,
 			);
 
 			return keys;
@@ -70,7 +92,17 @@ export const projects = sdk(client => {
 		 * @param flags - Permissions for this flag
 		 * @returns A newly created project token
 		 */
-		async create(flags: number, projectId?: Id<'project'>) {
+		async create(
+			flags: number,
+			projectIdOrInit?: Id<'project'> | RequestOptions,
+			maybeInit?: RequestOptions,
+		) {
+			const [projectId, init] = resolveProjectInit(
+				client,
+				projectIdOrInit,
+				maybeInit,
+			);
+
 			if (!projectId && client.authType !== 'ptk') {
 				throw new Error(
 					'Project ID is required for bearer or PAT authentication to create a project token',
@@ -82,6 +114,7 @@ export const projects = sdk(client => {
 					'/v1/projects/@this/tokens',
 					{flags},
 					{},
+					init,
 				);
 
 				return token;
@@ -91,6 +124,7 @@ export const projects = sdk(client => {
 				'/v1/projects/:project_id/tokens',
 				{flags},
 				{project_id: projectId},
+				init,
 			);
 
 			return token;
@@ -99,7 +133,16 @@ export const projects = sdk(client => {
 
 	const webhooks = {
 		constructEvent,
-		async getAll(projectId?: Id<'project'>) {
+		async getAll(
+			projectIdOrInit?: Id<'project'> | RequestOptions,
+			maybeInit?: RequestOptions,
+		) {
+			const [projectId, init] = resolveProjectInit(
+				client,
+				projectIdOrInit,
+				maybeInit,
+			);
+
 			if (client.authType !== 'ptk' && !projectId) {
 				throw new Error(
 					'Project ID is required for bearer or PAT authentication to fetch all project members',
@@ -112,12 +155,17 @@ export const projects = sdk(client => {
 					{
 						project_id: projectId,
 					},
+					init,
 				);
 
 				return webhooks;
 			}
 
-			const {webhooks} = await client.get('/v1/projects/@this/webhooks', {});
+			const {webhooks} = await client.get(
+				'/v1/projects/@this/webhooks',
+				{},
+				init,
+			);
 
 			return webhooks;
 		},
@@ -125,8 +173,15 @@ export const projects = sdk(client => {
 		async create(
 			webhook_url: string,
 			events: PossibleWebhookIDs[],
-			projectId?: Id<'project'>,
+			projectIdOrInit?: Id<'project'> | RequestOptions,
+			maybeInit?: RequestOptions,
 		) {
+			const [projectId, init] = resolveProjectInit(
+				client,
+				projectIdOrInit,
+				maybeInit,
+			);
+
 			if (client.authType !== 'ptk' && !projectId) {
 				throw new Error(
 					'Project ID is required for bearer or PAT authentication to create a webhook',
@@ -143,6 +198,7 @@ export const projects = sdk(client => {
 					{
 						project_id: projectId,
 					},
+					init,
 				);
 
 				return webhook;
@@ -155,6 +211,7 @@ export const projects = sdk(client => {
 					events,
 				},
 				{},
+				init,
 			);
 
 			return webhook;
@@ -169,8 +226,15 @@ export const projects = sdk(client => {
 				webhookUrl?: string | undefined;
 				events?: PossibleWebhookIDs[] | undefined;
 			},
-			projectId?: Id<'project'>,
+			projectIdOrInit?: Id<'project'> | RequestOptions,
+			maybeInit?: RequestOptions,
 		) {
+			const [projectId, init] = resolveProjectInit(
+				client,
+				projectIdOrInit,
+				maybeInit,
+			);
+
 			if (client.authType !== 'ptk' && !projectId) {
 				throw new Error(
 					'Project ID is required for bearer or PAT authentication to edit a webhook',
@@ -188,6 +252,7 @@ export const projects = sdk(client => {
 						project_id: projectId,
 						webhook_id: webhookId,
 					},
+					init,
 				);
 
 				return webhook;
@@ -202,12 +267,23 @@ export const projects = sdk(client => {
 				{
 					webhook_id: webhookId,
 				},
+				init,
 			);
 
 			return webhook;
 		},
 
-		async delete(webhookId: Id<'webhook'>, projectId?: Id<'project'>) {
+		async delete(
+			webhookId: Id<'webhook'>,
+			projectIdOrInit?: Id<'project'> | RequestOptions,
+			maybeInit?: RequestOptions,
+		) {
+			const [projectId, init] = resolveProjectInit(
+				client,
+				projectIdOrInit,
+				maybeInit,
+			);
+
 			if (client.authType !== 'ptk' && !projectId) {
 				throw new Error(
 					'Project ID is required for bearer or PAT authentication to delete a webhook',
@@ -222,6 +298,7 @@ export const projects = sdk(client => {
 						project_id: projectId,
 						webhook_id: webhookId,
 					},
+					init,
 				);
 
 				return;
@@ -233,13 +310,21 @@ export const projects = sdk(client => {
 				{
 					webhook_id: webhookId,
 				},
+				init,
 			);
 		},
 
 		async regenerateSecret(
 			webhookId: Id<'webhook'>,
-			projectId?: Id<'project'>,
+			projectIdOrInit?: Id<'project'> | RequestOptions,
+			maybeInit?: RequestOptions,
 		) {
+			const [projectId, init] = resolveProjectInit(
+				client,
+				projectIdOrInit,
+				maybeInit,
+			);
+
 			if (client.authType !== 'ptk' && !projectId) {
 				throw new Error(
 					'Project ID is required for bearer or PAT authentication to regenerate a webhook secret',
@@ -254,6 +339,7 @@ export const projects = sdk(client => {
 						project_id: projectId,
 						webhook_id: webhookId,
 					},
+					init,
 				);
 
 				return secret;
@@ -265,6 +351,7 @@ export const projects = sdk(client => {
 				{
 					webhook_id: webhookId,
 				},
+				init,
 			);
 
 			return secret;
@@ -272,7 +359,16 @@ export const projects = sdk(client => {
 	};
 
 	const projectsSDK = {
-		async getAllMembers(projectId?: Id<'project'>) {
+		async getAllMembers(
+			projectIdOrInit?: Id<'project'> | RequestOptions,
+			maybeInit?: RequestOptions,
+		) {
+			const [projectId, init] = resolveProjectInit(
+				client,
+				projectIdOrInit,
+				maybeInit,
+			);
+
 			if (client.authType !== 'ptk' && !projectId) {
 				throw new Error(
 					'Project ID is required for bearer or PAT authentication to fetch all project members',
@@ -280,14 +376,22 @@ export const projects = sdk(client => {
 			}
 
 			if (projectId) {
-				const {members} = await client.get('/v1/projects/:project_id/members', {
-					project_id: projectId,
-				});
+				const {members} = await client.get(
+					'/v1/projects/:project_id/members',
+					{
+						project_id: projectId,
+					},
+					init,
+				);
 
 				return members;
 			}
 
-			const {members} = await client.get('/v1/projects/@this/members', {});
+			const {members} = await client.get(
+				'/v1/projects/@this/members',
+				{},
+				init,
+			);
 
 			return members;
 		},
@@ -299,7 +403,7 @@ export const projects = sdk(client => {
 		 * @param projectId - The project ID to fetch a member from
 		 * @returns The member authorized by the SDK
 		 */
-		async getCurrentMember(projectId: Id<'project'>) {
+		async getCurrentMember(projectId: Id<'project'>, init?: RequestOptions) {
 			if (client.authType === 'ptk') {
 				throw new Error(
 					'You cannot resolve a member from a project token! You must use a bearer or pat token',
@@ -309,6 +413,7 @@ export const projects = sdk(client => {
 			const {project_member: member} = await client.get(
 				'/v1/projects/:project_id/members/@me',
 				{project_id: projectId},
+				init,
 			);
 
 			return member;
@@ -329,7 +434,16 @@ export const projects = sdk(client => {
 			 *
 			 * @param projectId - The project to fetch secrets for
 			 */
-			async getAll(projectId?: Id<'project'>) {
+			async getAll(
+				projectIdOrInit?: Id<'project'> | RequestOptions,
+				maybeInit?: RequestOptions,
+			) {
+				const [projectId, init] = resolveProjectInit(
+					client,
+					projectIdOrInit,
+					maybeInit,
+				);
+
 				if (client.authType !== 'ptk' && !projectId) {
 					throw new Error(
 						'Project ID is required for bearer or PAT authentication to fetch all secrets',
@@ -337,14 +451,22 @@ export const projects = sdk(client => {
 				}
 
 				if (!projectId) {
-					const {secrets} = await client.get('/v1/projects/@this/secrets', {});
+					const {secrets} = await client.get(
+						'/v1/projects/@this/secrets',
+						{},
+						init,
+					);
 
 					return secrets;
 				}
 
-				const {secrets} = await client.get('/v1/projects/:project_id/secrets', {
-					project_id: projectId,
-				});
+				const {secrets} = await client.get(
+					'/v1/projects/:project_id/secrets',
+					{
+						project_id: projectId,
+					},
+					init,
+				);
 
 				return secrets;
 			},
@@ -356,7 +478,18 @@ export const projects = sdk(client => {
 			 * @param value - The value of the secret
 			 * @param projectId - The project to create the secret in
 			 */
-			async create(name: string, value: string, projectId?: Id<'project'>) {
+			async create(
+				name: string,
+				value: string,
+				projectIdOrInit?: Id<'project'> | RequestOptions,
+				maybeInit?: RequestOptions,
+			) {
+				const [projectId, init] = resolveProjectInit(
+					client,
+					projectIdOrInit,
+					maybeInit,
+				);
+
 				if (client.authType !== 'ptk' && !projectId) {
 					throw new Error(
 						'Project ID is required for bearer or PAT authentication to create a secret',
@@ -381,7 +514,7 @@ export const projects = sdk(client => {
 						Endpoints,
 						{method: 'PUT'; path: '/v1/projects/@this/secrets/:name'}
 					>['res']
-				>(request);
+				>(request, init);
 
 				return secret;
 			},
@@ -394,8 +527,15 @@ export const projects = sdk(client => {
 			 */
 			async delete(
 				id: Id<'secret'> | API.Projects.Secret['name'],
-				projectId?: Id<'project'>,
+				projectIdOrInit?: Id<'project'> | RequestOptions,
+				maybeInit?: RequestOptions,
 			) {
+				const [projectId, init] = resolveProjectInit(
+					client,
+					projectIdOrInit,
+					maybeInit,
+				);
+
 				if (client.authType !== 'ptk' && !projectId) {
 					throw new Error(
 						'Project ID is required for bearer or PAT authentication to delete a secret',
@@ -409,6 +549,7 @@ export const projects = sdk(client => {
 						{
 							secret_id: id,
 						},
+						init,
 					);
 
 					return;
@@ -418,6 +559,7 @@ export const projects = sdk(client => {
 					'/v1/projects/:project_id/secrets/:secret_id',
 					undefined,
 					{secret_id: id, project_id: projectId},
+					init,
 				);
 			},
 		},
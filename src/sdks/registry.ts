@@ -1,5 +1,5 @@
-import type {Id} from '../rest/index.ts';
-import {sdk} from './create.ts';
+import type {Id, RequestOptions} from '../rest/index.ts';
+import {resolveProjectInit, sdk} from './create.ts';
 
 /**
  * Registry SDK client
@@ -8,19 +8,40 @@ import {sdk} from './create.ts';
 export const registry = sdk(client => {
 	return {
 		images: {
-			async getAll(project?: Id<'project'>) {
+			async getAll(
+				projectOrInit?: Id<'project'> | RequestOptions,
+				maybeInit?: RequestOptions,
+			) {
+				const [project, init] = resolveProjectInit(
+					client,
+					projectOrInit,
+					maybeInit,
+				);
+
 				if (!project && client.authType !== 'ptk') {
 					throw new Error('Project is required when using a PAT or bearer');
 				}
 
-				const {images} = await client.get('/v1/registry/images', {
-					project,
-				});
+				const {images} = await client.get(
+					'/v1/registry/images',
+					{project},
+					init,
+				);
 
 				return images;
 			},
 
-			async getManifest(image: string, project?: Id<'project'>) {
+			async getManifest(
+				image: string,
+				projectOrInit?: Id<'project'> | RequestOptions,
+				maybeInit?: RequestOptions,
+			) {
+				const [project, init] = resolveProjectInit(
+					client,
+					projectOrInit,
+					maybeInit,
+				);
+
 				if (!project && client.authType !== 'ptk') {
 					throw new Error('Project is required when using a PAT or bearer');
 				}
@@ -28,20 +49,33 @@ export const registry = sdk(client => {
 				const {manifests} = await client.get(
 					'/v1/registry/images/:image/manifests',
 					{image, project},
+					init,
 				);
 
 				return manifests;
 			},
 
-			async delete(image: string, project?: Id<'project'>) {
+			async delete(
+				image: string,
+				projectOrInit?: Id<'project'> | RequestOptions,
+				maybeInit?: RequestOptions,
+			) {
+				const [project, init] = resolveProjectInit(
+					client,
+					projectOrInit,
+					maybeInit,
+				);
+
 				if (!project && client.authType !== 'ptk') {
 					throw new Error('Project is required when using a PAT or bearer');
 				}
 
-				await client.delete('/v1/registry/images/:image', undefined, {
-					image,
-					project,
-				});
+				await client.delete(
+					'/v1/registry/images/:image',
+					undefined,
+					{image, project},
+					init,
+				);
 			},
 		},
 	};
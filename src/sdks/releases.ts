@@ -0,0 +1,479 @@
+import {HopNotFoundError, type Id, type RequestOptions} from '../rest/index.ts';
+import {
+	ContainerStrategy,
+	GatewayType,
+	type Deployment,
+	type DeploymentConfig,
+	type HealthCheckConfig,
+} from '../rest/types/ignite.ts';
+import type {WaitOptions} from '../util/wait.ts';
+import {resolveProjectInit, sdk} from './create.ts';
+import {ignite} from './ignite.ts';
+
+/**
+ * A step of a release that has been made
+ * @public
+ */
+export interface ReleaseStep {
+	name: 'prepare_standby' | 'roll_out_standby' | 'move_domain' | 'teardown';
+
+	/**
+	 * What the step did, e.g. the domain that was moved
+	 */
+	description: string;
+
+	/**
+	 * Undone steps have been reverted. Steps that can't be undone are `final`
+	 */
+	state: 'done' | 'undone' | 'final';
+}
+
+/**
+ * Options for a blue/green release
+ * @public
+ */
+export interface BlueGreenOptions {
+	/**
+	 * The deployment to release to, or the name of a new deployment to create with the config of the live deployment
+	 */
+	standby: Id<'deployment'> | {name: string};
+
+	/**
+	 * Changes to make to the config of the standby deployment before it is rolled out
+	 */
+	config?: Partial<Omit<DeploymentConfig, 'name' | 'type'>>;
+
+	/**
+	 * How many containers the standby should run. Defaults to the number the live deployment runs, or 1
+	 */
+	containers?: number;
+
+	/**
+	 * What to do with the live deployment once its domains have moved. `scale_down` removes all
+	 * of its containers and `delete` deletes it, which can't be undone and makes the whole release final.
+	 * Defaults to `keep`. The live deployment must use the manual container strategy to be scaled down
+	 */
+	teardown?: 'keep' | 'scale_down' | 'delete';
+
+	/**
+	 * Timeout and interval for waiting on the standby to become healthy
+	 */
+	wait?: Pick<WaitOptions<unknown>, 'timeout' | 'interval'>;
+
+	/**
+	 * Called after every step that is made or undone
+	 */
+	onStep?: (step: ReleaseStep) => void;
+}
+
+/**
+ * A blue/green release that has been made. Its steps can be reverted
+ * @public
+ */
+export interface BlueGreenRelease {
+	live: Id<'deployment'>;
+	standby: Id<'deployment'>;
+	steps: ReleaseStep[];
+
+	/**
+	 * Undoes every step of the release that can be undone, newest first
+	 */
+	revert(): Promise<void>;
+}
+
+interface RecordedStep extends ReleaseStep {
+	undo: (() => Promise<void>) | null;
+}
+
+/**
+ * Release SDK client, for moving traffic between deployments safely
+ * @public
+ */
+export const releases = sdk(client => {
+	const igniteSDK = ignite(client);
+
+	/**
+	 * Throws if a deployment of a release can't be scaled, before the release changes anything
+	 */
+	function assertScalable(
+		name: string,
+		strategy: ContainerStrategy,
+		reason: string,
+	) {
+		if (strategy !== ContainerStrategy.MANUAL) {
+			throw new Error(
+				`Deployment ${name} must use the manual container strategy ${reason}`,
+			);
+		}
+	}
+
+	/**
+	 * Records and undoes the steps of a release
+	 */
+	function createSteps(onStep: ((step: ReleaseStep) => void) | undefined) {
+		const recorded: RecordedStep[] = [];
+
+		const notify = ({name, description, state}: RecordedStep) => {
+			onStep?.({name, description, state});
+		};
+
+		return {
+			recorded,
+
+			async run(
+				name: ReleaseStep['name'],
+				description: string,
+				action: () => Promise<(() => Promise<void>) | null>,
+			) {
+				const undo = await action();
+
+				const step: RecordedStep = {
+					name,
+					description,
+					state: undo ? 'done' : 'final',
+					undo,
+				};
+
+				recorded.push(step);
+				notify(step);
+			},
+
+			/**
+			 * Marks every step that has been made as one that can't be undone
+			 */
+			finalize() {
+				for (const step of recorded) {
+					if (step.state === 'done') {
+						step.state = 'final';
+						notify(step);
+					}
+				}
+			},
+
+			async undo(filter: (step: RecordedStep) => boolean = () => true) {
+				for (const step of [...recorded].reverse()) {
+					if (step.state !== 'done' || !step.undo || !filter(step)) {
+						continue;
+					}
+
+					await step.undo();
+					step.state = 'undone';
+					notify(step);
+				}
+			},
+		};
+	}
+
+	const releasesSDK = {
+		/**
+		 * Releases to a standby deployment and then moves the domains of the live deployment's external gateways to it.
+		 *
+		 * 1. The standby is created or updated, with any missing gateways and the live deployment's health check
+		 * 2. It is scaled and rolled out, and the release waits for the rollout to pass its health check
+		 * 3. Domains are moved from the live gateways to the standby gateways with the same name
+		 * 4. The live deployment is kept, scaled down or deleted
+		 *
+		 * If moving domains or tearing down fails, the domains are moved back before the error is thrown.
+		 * The standby is kept so that it can be inspected.
+		 *
+		 * The standby, and the live deployment when it is scaled down, must use the manual container strategy
+		 * so that their containers can be scaled. This is checked before anything is changed.
+		 *
+		 * @param liveId - The ID of the deployment that currently serves traffic
+		 * @param options - The standby deployment and how to release to it
+		 * @param projectId - The project to create the standby in. You only need to provide this if you are using bearer or PAT authentication and the standby is new.
+		 * @returns The release, which can be reverted
+		 */
+		async blueGreen(
+			liveId: Id<'deployment'>,
+			options: BlueGreenOptions,
+			projectIdOrInit?: Id<'project'> | RequestOptions,
+			maybeInit?: RequestOptions,
+		): Promise<BlueGreenRelease> {
+			const [projectId, init] = resolveProjectInit(
+				client,
+				projectIdOrInit,
+				maybeInit,
+			);
+
+			const steps = createSteps(options.onStep);
+
+			const live = await igniteSDK.deployments.get(liveId, init);
+			const liveGateways = (
+				await igniteSDK.gateways.getAll(live.id, init)
+			).filter(gateway => gateway.type === GatewayType.EXTERNAL);
+
+			if (options.teardown === 'scale_down') {
+				assertScalable(
+					live.name,
+					live.config.container_strategy,
+					'to be scaled down',
+				);
+			}
+
+			let standby: Deployment;
+
+			// Step 1: create or update the standby
+			if (typeof options.standby === 'object') {
+				const config = {
+					...live.config,
+					...options.config,
+					name: options.standby.name,
+				};
+
+				assertScalable(
+					config.name,
+					config.container_strategy,
+					'to be released to',
+				);
+
+				const healthCheck = await igniteSDK.healthChecks
+					.get(live.id, init)
+					.catch(error => {
+						if (error instanceof HopNotFoundError) {
+							return null;
+						}
+
+						throw error;
+					});
+
+				const created = projectId
+					? await igniteSDK.deployments.create(projectId, config, init)
+					: await igniteSDK.deployments.create(config, init);
+
+				standby = created;
+
+				const remove = async () => {
+					await igniteSDK.deployments.delete(created.id, init);
+				};
+
+				// The health check is removed along with the deployment when this step is undone
+				await steps.run(
+					'prepare_standby',
+					healthCheck
+						? `create deployment ${created.name} with the health check of ${live.name}`
+						: `create deployment ${created.name}`,
+					async () => {
+						if (healthCheck) {
+							const check: HealthCheckConfig = {
+								protocol: healthCheck.protocol,
+								path: healthCheck.path,
+								port: healthCheck.port,
+								interval: healthCheck.interval,
+								timeout: healthCheck.timeout,
+								initial_delay: healthCheck.initial_delay,
+								max_retries: healthCheck.max_retries,
+							};
+
+							try {
+								await igniteSDK.healthChecks.create(created.id, check, init);
+							} catch (error) {
+								await remove();
+								throw error;
+							}
+						}
+
+						return remove;
+					},
+				);
+			} else {
+				standby = await igniteSDK.deployments.get(options.standby, init);
+
+				const changes = options.config;
+
+				assertScalable(
+					standby.name,
+					changes?.container_strategy ?? standby.config.container_strategy,
+					'to be released to',
+				);
+
+				if (changes) {
+					const previous = Object.fromEntries(
+						Object.keys(changes).map(key => [
+							key,
+							standby.config[key as keyof Deployment['config']],
+						]),
+					);
+
+					const existing = standby;
+
+					await steps.run(
+						'prepare_standby',
+						`update deployment ${existing.name}`,
+						async () => {
+							await igniteSDK.deployments.update(existing.id, changes, init);
+
+							return async () => {
+								await igniteSDK.deployments.update(existing.id, previous, init);
+							};
+						},
+					);
+				}
+			}
+
+			const standbyGateways = await igniteSDK.gateways.getAll(standby.id, init);
+
+			for (const gateway of liveGateways) {
+				if (standbyGateways.some(({name}) => name === gateway.name)) {
+					continue;
+				}
+
+				await steps.run(
+					'prepare_standby',
+					`create gateway ${gateway.name} on ${standby.name}`,
+					async () => {
+						const created = await igniteSDK.gateways.create(
+							standby.id,
+							{
+								type: GatewayType.EXTERNAL,
+								protocol: gateway.protocol,
+								name: gateway.name,
+								targetPort: gateway.target_port ?? 0,
+							},
+							init,
+						);
+
+						standbyGateways.push(created);
+
+						return async () => {
+							await igniteSDK.gateways.delete(created.id, init);
+						};
+					},
+				);
+			}
+
+			// Step 2: scale and roll out the standby, waiting for it to be healthy
+			const count =
+				options.containers ?? Math.max(live.target_container_count, 1);
+			const previousCount = standby.target_container_count;
+			const standbyId = standby.id;
+
+			await steps.run(
+				'roll_out_standby',
+				`roll out ${count} containers of ${standby.name}`,
+				async () => {
+					await igniteSDK.deployments.scale(
+						standbyId,
+						count,
+						options.wait,
+						init,
+					);
+
+					const rollout = await igniteSDK.deployments.rollout(standbyId, init);
+					await igniteSDK.waitForRollout(rollout, options.wait, init);
+
+					return async () => {
+						await igniteSDK.deployments.scale(
+							standbyId,
+							previousCount,
+							options.wait,
+							init,
+						);
+					};
+				},
+			);
+
+			// Steps 3 and 4: move the domains and tear down the live deployment
+			let scalingDown = false;
+
+			try {
+				for (const gateway of liveGateways) {
+					const target = standbyGateways.find(
+						({name}) => name === gateway.name,
+					)!;
+
+					for (const domain of gateway.domains) {
+						await steps.run(
+							'move_domain',
+							`move ${domain.domain} to ${standby.name}`,
+							async () => {
+								// A domain can only be attached to one gateway at a time
+								await gateway.deleteDomain(domain.id, init);
+
+								try {
+									await target.addDomain(domain.domain, init);
+								} catch (error) {
+									await gateway.addDomain(domain.domain, init);
+									throw error;
+								}
+
+								return async () => {
+									const {domains} = await igniteSDK.gateways.get(
+										target.id,
+										init,
+									);
+									const moved = domains.find(
+										({domain: name}) => name === domain.domain,
+									);
+
+									if (moved) {
+										await target.deleteDomain(moved.id, init);
+									}
+
+									await gateway.addDomain(domain.domain, init);
+								};
+							},
+						);
+					}
+				}
+
+				if (options.teardown === 'scale_down') {
+					await steps.run('teardown', `scale down ${live.name}`, async () => {
+						scalingDown = true;
+						await igniteSDK.deployments.scale(live.id, 0, options.wait, init);
+						scalingDown = false;
+
+						return async () => {
+							await igniteSDK.deployments.scale(
+								live.id,
+								live.target_container_count,
+								options.wait,
+								init,
+							);
+						};
+					});
+				} else if (options.teardown === 'delete') {
+					await steps.run('teardown', `delete ${live.name}`, async () => {
+						await igniteSDK.deployments.delete(live.id, init);
+						return null;
+					});
+
+					// There is nothing to move the domains back to, and the standby now serves all traffic
+					steps.finalize();
+				}
+			} catch (error) {
+				// A scale down that failed part way is reverted before the domains move back to it
+				if (scalingDown) {
+					await igniteSDK.deployments.scale(
+						live.id,
+						live.target_container_count,
+						options.wait,
+						init,
+					);
+				}
+
+				await steps.undo(step => step.name === 'move_domain');
+				throw error;
+			}
+
+			return {
+				live: live.id,
+				standby: standby.id,
+
+				get steps() {
+					return steps.recorded.map(({name, description, state}) => ({
+						name,
+						description,
+						state,
+					}));
+				},
+
+				async revert() {
+					await steps.undo();
+				},
+			};
+		},
+	};
+
+	return releasesSDK;
+});
@@ -1,3 +1,4 @@
+import type {RequestOptions} from '../rest/index.ts';
 import type {Id} from '../util/types.ts';
 import {sdk} from './create.ts';
 
@@ -10,16 +11,17 @@ export const users = sdk(client => ({
 		/**
 		 * Gets the current user
 		 *
+		 * @param init - Options for this request
 		 * @returns The current user authorized by the SDK
 		 */
-		async get() {
+		async get(init?: RequestOptions) {
 			if (client.authType === 'ptk') {
 				throw new Error(
 					'You cannot resolve a user from a project token! You must use a Bearer or PAT.',
 				);
 			}
 
-			const me = await client.get('/v1/users/@me', {});
+			const me = await client.get('/v1/users/@me', {}, init);
 
 			return me;
 		},
@@ -30,14 +32,14 @@ export const users = sdk(client => ({
 			 *
 			 * @returns The created PAT
 			 */
-			async create(name: string) {
+			async create(name: string, init?: RequestOptions) {
 				if (client.authType === 'ptk') {
 					throw new Error(
 						'You cannot create a PAT from a project token! You must use a Bearer or PAT.',
 					);
 				}
 
-				const {pat} = await client.post('/v1/users/@me/pats', {name}, {});
+				const {pat} = await client.post('/v1/users/@me/pats', {name}, {}, init);
 
 				return pat;
 			},
@@ -47,14 +49,14 @@ export const users = sdk(client => ({
 			 *
 			 * @returns A list of all pats
 			 */
-			async getAll() {
+			async getAll(init?: RequestOptions) {
 				if (client.authType === 'ptk') {
 					throw new Error(
 						'You cannot get all PATs from a project token! You must use a Bearer or PAT.',
 					);
 				}
 
-				const {pats} = await client.get('/v1/users/@me/pats', {});
+				const {pats} = await client.get('/v1/users/@me/pats', {}, init);
 
 				return pats;
 			},
@@ -64,16 +66,19 @@ export const users = sdk(client => ({
 			 *
 			 * @param id - The ID of the pat to delete
 			 */
-			async delete(id: Id<'pat'>) {
+			async delete(id: Id<'pat'>, init?: RequestOptions) {
 				if (client.authType === 'ptk') {
 					throw new Error(
 						'You cannot delete a PAT from a project token! You must use a Bearer or PAT.',
 					);
 				}
 
-				await client.delete(`/v1/users/@me/pats/:pat_id`, undefined, {
-					pat_id: id,
-				});
+				await client.delete(
+					`/v1/users/@me/pats/:pat_id`,
+					undefined,
+					{pat_id: id},
+					init,
+				);
 			},
 		},
 	},
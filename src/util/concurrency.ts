@@ -0,0 +1,31 @@
+/**
+ * Calls a function for every item, with at most `limit` calls running at once
+ *
+ * @param items - The items to call the function for
+ * @param limit - The most calls that can run at once
+ * @param fn - The function to call
+ * @returns The results in the same order as the items
+ * @internal
+ */
+export async function mapConcurrently<T, R>(
+	items: readonly T[],
+	limit: number,
+	fn: (item: T) => Promise<R>,
+) {
+	const results: R[] = [];
+	let next = 0;
+
+	const workers = Array.from(
+		{length: Math.min(Math.max(limit, 1), items.length)},
+		async () => {
+			while (next < items.length) {
+				const index = next++;
+				results[index] = await fn(items[index]!);
+			}
+		},
+	);
+
+	await Promise.all(workers);
+
+	return results;
+}
@@ -9,6 +9,12 @@ declare const Deno: object | undefined;
  */
 export const DEFAULT_BASE_URL = 'https://api.hop.io';
 
+/**
+ * The default amount of milliseconds the API client waits for a response before aborting a request.
+ * @public
+ */
+export const DEFAULT_TIMEOUT = 30_000;
+
 /**
  * If we are in the browser.
  * @public
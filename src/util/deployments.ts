@@ -0,0 +1,142 @@
+import {RuntimeType, type DeploymentConfig} from '../rest/types/ignite.ts';
+import {diffFields, type FieldChange} from './diff.ts';
+import {parseSize} from './size.ts';
+
+const SIX_MB_IN_BYTES = 6 * 1024 * 1024;
+
+/**
+ * Top level fields of a deployment config that only apply to new containers,
+ * so existing containers need a rollout to pick them up
+ */
+const ROLLOUT_FIELDS: ReadonlySet<string> = new Set([
+	'image',
+	'env',
+	'resources',
+	'restart_policy',
+	'volume',
+	'cmd',
+	'entrypoint',
+	'target',
+]);
+
+/**
+ * A single difference between two deployment configs
+ * @public
+ */
+export interface DeploymentConfigChange extends FieldChange {
+	/**
+	 * The top level field of the config this change is in, e.g. `env` for `env.PORT`
+	 */
+	field: keyof DeploymentConfig;
+
+	kind: 'added' | 'removed' | 'changed';
+
+	/**
+	 * If existing containers need a rollout before they use this change
+	 */
+	requiresRollout: boolean;
+
+	/**
+	 * Why this change can't be made, or null if it can
+	 */
+	blocked: string | null;
+}
+
+/**
+ * The structured difference between two deployment configs
+ * @public
+ */
+export interface DeploymentConfigDiff {
+	changes: DeploymentConfigChange[];
+
+	/**
+	 * If any of the changes need a rollout
+	 */
+	requiresRollout: boolean;
+
+	/**
+	 * The changes that can't be made
+	 */
+	blocked: DeploymentConfigChange[];
+}
+
+/**
+ * Checks the rules that Hop's runtime enforces on a deployment config
+ *
+ * @param config - The config to check
+ * @returns The rules that the config breaks, by the field that breaks them
+ * @internal
+ */
+export function checkDeploymentConfig(config: {
+	[K in 'type' | 'resources' | 'volume']?: DeploymentConfig[K] | undefined;
+}) {
+	const problems: Partial<Record<'resources' | 'volume', string>> = {};
+
+	// Hop's runtime requires a minimum of 6mb of memory per container
+	// It's useful to validate this at the SDK level as well as API level.
+	if (config.resources && parseSize(config.resources.ram) <= SIX_MB_IN_BYTES) {
+		problems.resources = 'Allocated memory must be greater than 6MB';
+	}
+
+	if (config.volume && config.type !== RuntimeType.STATEFUL) {
+		problems.volume = 'Volumes can only be used by stateful deployments';
+	}
+
+	return problems;
+}
+
+/**
+ * Compares two deployment configs, for example to see what `deployments.update` would change
+ *
+ * @param a - The current config
+ * @param b - The new config. Fields that are left out are compared as removed, so spread the current config into a partial update first
+ * @returns Every changed value, with the changes that need a rollout or can't be made flagged
+ * @public
+ *
+ * @example
+ * ```ts
+ * const env = {...deployment.config.env, PORT: '8080'};
+ * const diff = diffDeploymentConfig(deployment.config, {...deployment.config, env});
+ *
+ * if (diff.blocked.length === 0) {
+ * 	await hop.ignite.deployments.update(deployment.id, {env});
+ * }
+ * ```
+ */
+export function diffDeploymentConfig(
+	a: Partial<DeploymentConfig>,
+	b: Partial<DeploymentConfig>,
+): DeploymentConfigDiff {
+	const problems = checkDeploymentConfig({...b, type: b.type ?? a.type});
+
+	const changes = diffFields(a, b).map((change): DeploymentConfigChange => {
+		const field = change.path.split('.')[0] as keyof DeploymentConfig;
+
+		let blocked: string | null = null;
+
+		if (field === 'type' && a.type !== undefined) {
+			blocked = 'The type of a deployment cannot be changed once created';
+		} else if (field === 'resources' || field === 'volume') {
+			blocked = problems[field] ?? null;
+		}
+
+		return {
+			...change,
+			field,
+			kind:
+				change.before === undefined
+					? 'added'
+					: change.after === undefined
+					? 'removed'
+					: 'changed',
+			requiresRollout: ROLLOUT_FIELDS.has(field),
+			blocked,
+		};
+	});
+
+	return {
+		changes,
+		requiresRollout: changes.some(change => change.requiresRollout),
+		blocked: changes.filter(change => change.blocked !== null),
+	};
+}
@@ -0,0 +1,59 @@
+/**
+ * A value that differs between two objects
+ * @public
+ */
+export interface FieldChange {
+	/**
+	 * Where the value is, e.g. `resources.ram` or `env.PORT`
+	 */
+	path: string;
+
+	/**
+	 * The value before, or undefined if it was not set
+	 */
+	before: unknown;
+
+	/**
+	 * The value after, or undefined if it was removed
+	 */
+	after: unknown;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Lists every leaf value that differs between two values. Arrays are compared as a whole
+ *
+ * @param before - The old value
+ * @param after - The new value
+ * @param path - The path of the values, used as a prefix for nested paths
+ * @internal
+ */
+export function diffFields(
+	before: unknown,
+	after: unknown,
+	path = '',
+): FieldChange[] {
+	// Objects that are created or removed are listed field by field too
+	if (
+		(isObject(before) || before === undefined) &&
+		(isObject(after) || after === undefined) &&
+		before !== after
+	) {
+		const from = before ?? {};
+		const to = after ?? {};
+		const keys = new Set([...Object.keys(from), ...Object.keys(to)]);
+
+		return [...keys].flatMap(key =>
+			diffFields(from[key], to[key], path ? `${path}.${key}` : key),
+		);
+	}
+
+	if (JSON.stringify(before) === JSON.stringify(after)) {
+		return [];
+	}
+
+	return [{path, before, after}];
+}
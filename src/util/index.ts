@@ -1,4 +1,18 @@
 export * from './constants.ts';
+export {
+	diffDeploymentConfig,
+	type DeploymentConfigChange,
+	type DeploymentConfigDiff,
+} from './deployments.ts';
+export type {FieldChange} from './diff.ts';
+export {
+	DEPLOYMENT_MANIFEST_VERSION,
+	formatDeploymentManifest,
+	getSecretReferences,
+	type DeploymentManifest,
+	type DeploymentManifestGateway,
+} from './manifests.ts';
 export * from './size.ts';
 export * from './types.ts';
 export * from './webhooks.ts';
+export type {WaitOptions} from './wait.ts';
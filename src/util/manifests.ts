@@ -0,0 +1,370 @@
+import {HopManifestError} from '../rest/errors.ts';
+import type {
+	DeploymentConfig,
+	DeploymentMetadata,
+	Gateway,
+	GatewayType,
+	HealthCheckConfig,
+} from '../rest/types/ignite.ts';
+
+/**
+ * The version of the manifest format written by this SDK
+ * @public
+ */
+export const DEPLOYMENT_MANIFEST_VERSION = 1;
+
+/**
+ * Matches secret references in environment variables, e.g. `${DATABASE_URL}`
+ */
+const SECRET_REFERENCE_REGEX = /\$\{([a-zA-Z0-9_]+)\}/g;
+
+/**
+ * A gateway in a deployment manifest
+ * @public
+ */
+export interface DeploymentManifestGateway {
+	name: string;
+	type: GatewayType;
+	protocol: Gateway['protocol'];
+	target_port: number | null;
+
+	/**
+	 * The internal domain without the `.hop` suffix, for internal gateways
+	 */
+	internal_domain: string | null;
+
+	/**
+	 * The custom domains attached to this gateway
+	 */
+	domains: string[];
+}
+
+/**
+ * A portable snapshot of a deployment that can be recreated in any project
+ * @public
+ */
+export interface DeploymentManifest {
+	/**
+	 * The version of the manifest format
+	 */
+	version: typeof DEPLOYMENT_MANIFEST_VERSION;
+
+	kind: 'deployment';
+
+	name: string;
+	config: Omit<DeploymentConfig, 'name' | 'target'>;
+
+	/**
+	 * The name of the group the deployment is in
+	 */
+	group: string | null;
+
+	metadata: Omit<Partial<DeploymentMetadata>, 'container_port_mappings'> | null;
+	health_check: HealthCheckConfig | null;
+	gateways: DeploymentManifestGateway[];
+
+	/**
+	 * Names of the project secrets that the environment variables reference
+	 */
+	secrets: string[];
+}
+
+/**
+ * Lists the project secrets that environment variables reference
+ *
+ * @param env - The environment variables of a deployment
+ * @returns The names of the referenced secrets, without duplicates
+ * @public
+ */
+export function getSecretReferences(env: Record<string, string>) {
+	const names = Object.values(env).flatMap(value =>
+		[...value.matchAll(SECRET_REFERENCE_REGEX)].map(([, name]) => name!),
+	);
+
+	return [...new Set(names)];
+}
+
+/**
+ * Renames the secrets that environment variables reference
+ *
+ * @param env - The environment variables of a deployment
+ * @param secrets - New secret names by their old name. Secrets that are not in here keep their name
+ * @returns A copy of the environment variables with the references renamed
+ * @internal
+ */
+export function remapSecretReferences(
+	env: Record<string, string>,
+	secrets: Record<string, string>,
+) {
+	return Object.fromEntries(
+		Object.entries(env).map(([key, value]) => [
+			key,
+			value.replace(SECRET_REFERENCE_REGEX, (reference, name: string) =>
+				secrets[name] === undefined ? reference : `\${${secrets[name]}}`,
+			),
+		]),
+	);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function pick<T extends Record<string, unknown>, K extends string>(
+	value: T,
+	keys: readonly K[],
+) {
+	return Object.fromEntries(
+		keys.filter(key => key in value).map(key => [key, value[key]]),
+	) as Partial<Record<K, unknown>>;
+}
+
+interface YAMLLine {
+	indent: number;
+	content: string;
+}
+
+function parseYAMLScalar(text: string): unknown {
+	try {
+		return JSON.parse(text) as unknown;
+	} catch {
+		// Plain scalars, like `name: api`, are strings
+		return text.replace(/^'(.*)'$/, '$1');
+	}
+}
+
+function parseYAMLKey(content: string, line: number) {
+	const match = /^("(?:[^"\\]|\\.)*"|[^:]+):(?:\s+(.*))?$/.exec(content);
+
+	if (!match) {
+		throw new Error(`Expected a key on line ${line}`);
+	}
+
+	const [, key, rest] = match;
+
+	return {
+		key: key!.startsWith('"') ? (JSON.parse(key!) as string) : key!.trim(),
+		rest: rest?.trim() ?? '',
+	};
+}
+
+/**
+ * Parses the block style YAML that {@link formatDeploymentManifest} writes: maps, sequences and
+ * JSON or plain scalars. Anchors, tags and multi-line strings are not supported
+ */
+function parseYAML(text: string): unknown {
+	const lines: YAMLLine[] = text
+		.split(/\r?\n/)
+		.filter(line => line.trim() !== '' && !line.trim().startsWith('#'))
+		.map(line => ({
+			indent: line.length - line.trimStart().length,
+			content: line.trim(),
+		}));
+
+	let index = 0;
+
+	const parseValue = (rest: string, parentIndent: number): unknown => {
+		if (rest !== '') {
+			return parseYAMLScalar(rest);
+		}
+
+		const next = lines[index];
+
+		return next && next.indent > parentIndent ? parseBlock(next.indent) : null;
+	};
+
+	const parseBlock = (indent: number): unknown => {
+		if (lines[index]!.content.startsWith('-')) {
+			const items: unknown[] = [];
+
+			while (lines[index]?.indent === indent) {
+				const line = lines[index]!;
+
+				if (!line.content.startsWith('-')) {
+					throw new Error(`Expected a sequence item on line ${index + 1}`);
+				}
+
+				const rest = line.content.slice(1).trim();
+
+				// `- name: web` starts a map on the same line as the dash
+				if (/^[^"'[{][^:]*:(\s|$)/.test(rest)) {
+					lines[index] = {indent: indent + 2, content: rest};
+					items.push(parseBlock(indent + 2));
+				} else {
+					index++;
+					items.push(parseValue(rest, indent));
+				}
+			}
+
+			return items;
+		}
+
+		const map: Record<string, unknown> = {};
+
+		while (lines[index]?.indent === indent) {
+			const {key, rest} = parseYAMLKey(lines[index]!.content, index + 1);
+			index++;
+			map[key] = parseValue(rest, indent);
+		}
+
+		return map;
+	};
+
+	if (lines.length === 0) {
+		return null;
+	}
+
+	const value = parseBlock(lines[0]!.indent);
+
+	if (index < lines.length) {
+		throw new Error(`Unexpected indentation on line ${index + 1}`);
+	}
+
+	return value;
+}
+
+/**
+ * Reads a manifest and strips the fields that are owned by the API, like IDs, timestamps, rollouts
+ * and builds. These can end up in manifests that were written by hand from an API response.
+ *
+ * @param input - The manifest, or its JSON or YAML text
+ * @returns The manifest with only the fields that can be recreated
+ * @internal
+ */
+export function readDeploymentManifest(input: unknown): DeploymentManifest {
+	let value = input;
+
+	if (typeof value === 'string') {
+		const text = value;
+
+		try {
+			value = JSON.parse(text) as unknown;
+		} catch {
+			try {
+				value = parseYAML(text);
+			} catch (error) {
+				throw new HopManifestError(
+					`Manifest is not valid JSON or YAML: ${(error as Error).message}`,
+				);
+			}
+		}
+	}
+
+	if (!isObject(value) || value.kind !== 'deployment') {
+		throw new HopManifestError('Manifest does not describe a deployment');
+	}
+
+	if (value.version !== DEPLOYMENT_MANIFEST_VERSION) {
+		throw new HopManifestError(
+			`Manifest version ${String(
+				value.version,
+			)} is not supported, expected version ${DEPLOYMENT_MANIFEST_VERSION}`,
+		);
+	}
+
+	if (typeof value.name !== 'string' || !isObject(value.config)) {
+		throw new HopManifestError('Manifest is missing a name or a config');
+	}
+
+	const metadata = isObject(value.metadata) ? {...value.metadata} : null;
+	delete metadata?.['container_port_mappings'];
+
+	const healthCheck = isObject(value.health_check)
+		? pick(value.health_check, [
+				'protocol',
+				'path',
+				'port',
+				'interval',
+				'timeout',
+				'initial_delay',
+				'max_retries',
+		  ])
+		: null;
+
+	const gateways = Array.isArray(value.gateways) ? value.gateways : [];
+
+	return {
+		version: DEPLOYMENT_MANIFEST_VERSION,
+		kind: 'deployment',
+		name: value.name,
+		config: pick(value.config, [
+			'container_strategy',
+			'type',
+			'version',
+			'cmd',
+			'image',
+			'env',
+			'resources',
+			'restart_policy',
+			'volume',
+			'entrypoint',
+		]) as DeploymentManifest['config'],
+		group: typeof value.group === 'string' ? value.group : null,
+		metadata: metadata as DeploymentManifest['metadata'],
+		health_check: healthCheck as DeploymentManifest['health_check'],
+		gateways: gateways.filter(isObject).map(gateway => ({
+			...(pick(gateway, ['name', 'type', 'protocol', 'target_port']) as Omit<
+				DeploymentManifestGateway,
+				'internal_domain' | 'domains'
+			>),
+			internal_domain:
+				typeof gateway.internal_domain === 'string'
+					? gateway.internal_domain.replace(/\.hop$/, '')
+					: null,
+			// Domains can be written as names or as the domain objects from the API
+			domains: Array.isArray(gateway.domains)
+				? gateway.domains.map(domain =>
+						isObject(domain) ? String(domain.domain) : String(domain),
+				  )
+				: [],
+		})),
+		secrets: Array.isArray(value.secrets) ? value.secrets.map(String) : [],
+	};
+}
+
+function formatYAMLKey(key: string) {
+	return /^[a-zA-Z_][\w-]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+function formatYAMLValue(value: unknown, indent: string): string {
+	if (Array.isArray(value) && value.length > 0) {
+		return value
+			.map(item => `\n${indent}-${formatYAMLValue(item, `${indent}  `)}`)
+			.join('');
+	}
+
+	if (isObject(value) && Object.keys(value).length > 0) {
+		return Object.entries(value)
+			.filter(([, item]) => item !== undefined)
+			.map(
+				([key, item]) =>
+					`\n${indent}${formatYAMLKey(key)}:${formatYAMLValue(
+						item,
+						`${indent}  `,
+					)}`,
+			)
+			.join('');
+	}
+
+	// JSON scalars, `[]` and `{}` are all valid YAML
+	return ` ${JSON.stringify(value ?? null)}`;
+}
+
+/**
+ * Formats a manifest as text to save to a file
+ *
+ * @param manifest - The manifest to format
+ * @param format - Either `json` or `yaml`. Defaults to `json`
+ * @returns The manifest as text
+ * @public
+ */
+export function formatDeploymentManifest(
+	manifest: DeploymentManifest,
+	format: 'json' | 'yaml' = 'json',
+) {
+	if (format === 'yaml') {
+		return `${formatYAMLValue(manifest, '').slice(1)}\n`;
+	}
+
+	return `${JSON.stringify(manifest, null, '\t')}\n`;
+}
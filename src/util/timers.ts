@@ -0,0 +1,73 @@
+/**
+ * Waits for a given amount of time
+ * @param ms - The amount of milliseconds to wait for
+ * @param signal - A signal that will stop waiting and reject when aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal | null) {
+	return new Promise<void>((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(signal.reason);
+			return;
+		}
+
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(signal?.reason);
+		};
+
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+
+		signal?.addEventListener('abort', onAbort, {once: true});
+	});
+}
+
+/**
+ * Creates a signal for a single request attempt. It will abort when
+ * the parent signal aborts or when the timeout has elapsed.
+ *
+ * @param parent - A signal passed by the caller
+ * @param timeout - An optional timeout in milliseconds
+ */
+export function createAttemptSignal(
+	parent: AbortSignal | null,
+	timeout: number | undefined,
+) {
+	const controller = new AbortController();
+
+	const state = {
+		signal: controller.signal,
+		timedOut: false,
+		clear,
+	};
+
+	const onAbort = () => {
+		controller.abort(parent?.reason);
+	};
+
+	const timer =
+		timeout === undefined
+			? null
+			: setTimeout(() => {
+					state.timedOut = true;
+					controller.abort();
+			  }, timeout);
+
+	if (parent?.aborted) {
+		onAbort();
+	} else {
+		parent?.addEventListener('abort', onAbort, {once: true});
+	}
+
+	function clear() {
+		if (timer !== null) {
+			clearTimeout(timer);
+		}
+
+		parent?.removeEventListener('abort', onAbort);
+	}
+
+	return state;
+}
@@ -0,0 +1,60 @@
+import {HopWaitTimeoutError} from '../rest/errors.ts';
+import {sleep} from './timers.ts';
+
+/**
+ * Options for methods that wait for something to happen
+ * @public
+ */
+export interface WaitOptions<T> {
+	/**
+	 * The milliseconds to wait before giving up with a {@link HopWaitTimeoutError}. Defaults to 10 minutes
+	 */
+	timeout?: number;
+
+	/**
+	 * The milliseconds to wait between checks. Defaults to 2 seconds
+	 */
+	interval?: number;
+
+	/**
+	 * Called with the latest value after every check
+	 */
+	onProgress?: (value: T) => void;
+}
+
+/**
+ * Keeps checking something until it is done. `isDone` can throw to stop waiting early, for example when something failed
+ *
+ * @param description - What is being waited for, used in the timeout error
+ * @param check - Fetches the latest value
+ * @param isDone - Decides if the value is the one we were waiting for
+ * @param options - Timeout, interval and progress options
+ * @param signal - A signal that stops waiting when aborted
+ * @internal
+ */
+export async function waitFor<T>(
+	description: string,
+	check: () => Promise<T>,
+	isDone: (value: T) => boolean,
+	{timeout = 10 * 60 * 1000, interval = 2000, onProgress}: WaitOptions<T> = {},
+	signal?: AbortSignal | null,
+) {
+	const deadline = Date.now() + timeout;
+
+	while (true) {
+		const value = await check();
+		onProgress?.(value);
+
+		if (isDone(value)) {
+			return value;
+		}
+
+		const remaining = deadline - Date.now();
+
+		if (remaining <= 0) {
+			throw new HopWaitTimeoutError(description, timeout, value);
+		}
+
+		await sleep(Math.min(interval, remaining), signal);
+	}
+}
@@ -0,0 +1,3 @@
+export * from './router.ts';
+export * from './server.ts';
+export * from './state.ts';
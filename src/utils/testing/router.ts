@@ -0,0 +1,140 @@
+import type {Endpoints} from '../../rest/endpoints.ts';
+import type {Id, Method} from '../../rest/types/index.ts';
+
+/**
+ * An error response the fake API will send back in the usual error envelope
+ * @public
+ */
+export class FakeAPIError extends Error {
+	constructor(
+		public readonly status: number,
+		public readonly code: string,
+		message: string,
+	) {
+		super(message);
+	}
+}
+
+/**
+ * Who a request to the fake API was made by
+ * @public
+ */
+export type FakeAuth =
+	| {type: 'ptk'; token: Id<'ptk'>; project: Id<'project'>; flags: number}
+	| {type: 'bearer' | 'pat'; token: string};
+
+/**
+ * Everything a route handler gets to know about a request
+ * @public
+ */
+export interface RouteContext {
+	request: Request;
+	params: Record<string, string>;
+	query: URLSearchParams;
+	body: unknown;
+	auth: FakeAuth;
+
+	/**
+	 * Resolves the project this request is scoped to. This is the project of a project token,
+	 * or the `:project_id` param or `?project=` query for bearer and PAT authentication.
+	 */
+	project(): Id<'project'>;
+
+	/**
+	 * Throws a not found error if a resource is in a project this request can't see
+	 */
+	assertAccess(project: Id<'project'>, resource: string): void;
+}
+
+type EndpointFor<M extends Method, P extends string> = Extract<
+	Endpoints,
+	{method: M; path: P}
+>;
+
+/**
+ * A route handler. Whatever it returns is sent back as the response data,
+ * and it can throw a {@link FakeAPIError} to send back an error
+ * @public
+ */
+export type RouteHandler<M extends Method, P extends string> = (
+	context: RouteContext,
+) => EndpointFor<M, P>['res'] | Promise<EndpointFor<M, P>['res']>;
+
+interface Route {
+	method: Method;
+	path: string;
+	regex: RegExp;
+	params: string[];
+	handler: (context: RouteContext) => unknown;
+}
+
+/**
+ * Matches requests to handlers for the paths in {@link Endpoints}
+ * @public
+ */
+export class Router {
+	private readonly routes: Route[] = [];
+
+	add<M extends Method, P extends EndpointFor<M, string>['path']>(
+		method: M,
+		path: P,
+		handler: RouteHandler<M, P>,
+	) {
+		const params: string[] = [];
+
+		const pattern = path.replace(/:([^/]+)/g, (_, param: string) => {
+			params.push(param);
+			return '([^/]+)';
+		});
+
+		this.routes.push({
+			method,
+			path,
+			params,
+			regex: new RegExp(`^${pattern}$`),
+			handler,
+		});
+
+		// Static segments (like `@this` or `search`) should win over params
+		this.routes.sort((a, b) => a.params.length - b.params.length);
+
+		return this;
+	}
+
+	match(method: string, pathname: string) {
+		let pathExists = false;
+
+		for (const route of this.routes) {
+			const match = route.regex.exec(pathname);
+
+			if (!match) {
+				continue;
+			}
+
+			pathExists = true;
+
+			if (route.method !== method) {
+				continue;
+			}
+
+			const params = Object.fromEntries(
+				route.params.map((param, i) => [
+					param,
+					decodeURIComponent(match[i + 1]!),
+				]),
+			);
+
+			return {route, params};
+		}
+
+		if (pathExists) {
+			throw new FakeAPIError(
+				405,
+				'method_not_allowed',
+				`Method ${method} is not allowed on ${pathname}`,
+			);
+		}
+
+		throw new FakeAPIError(404, 'route_not_found', `No route for ${pathname}`);
+	}
+}
@@ -0,0 +1,184 @@
+import {ChannelType, type ChannelToken} from '../../../rest/index.ts';
+import type {AnyStateObject} from '../../../rest/types/channels.ts';
+import type {Id} from '../../../util/types.ts';
+import {FakeAPIError, type RouteContext, type Router} from '../router.ts';
+import type {FakeState} from '../state.ts';
+
+export function channelRoutes(router: Router, getState: () => FakeState) {
+	function getChannel(context: RouteContext) {
+		const state = getState();
+		const project = context.project();
+		const entry = state.channels.get(
+			`${project}:${context.params.channel_id!}`,
+		);
+
+		if (!entry) {
+			throw new FakeAPIError(404, 'channel_not_found', 'Channel not found');
+		}
+
+		return entry;
+	}
+
+	function getToken(context: RouteContext) {
+		const token = getState().channelTokens.get(
+			context.params.token as Id<'leap_token'>,
+		);
+
+		if (!token) {
+			throw new FakeAPIError(
+				404,
+				'leap_token_not_found',
+				'Channel token not found',
+			);
+		}
+
+		context.assertAccess(token.project_id, 'leap_token');
+
+		return token;
+	}
+
+	function createChannel(context: RouteContext, id: string) {
+		const state = getState();
+		const project = context.project();
+		const {type, state: channelState} = context.body as {
+			type: ChannelType;
+			state: AnyStateObject | null;
+		};
+
+		if (!Object.values(ChannelType).includes(type)) {
+			throw new FakeAPIError(400, 'invalid_body', 'Invalid channel type');
+		}
+
+		const existing = state.channels.get(`${project}:${id}`);
+
+		const channel = {
+			id,
+			project: state.projects.get(project)!,
+			state: channelState ?? {},
+			capabilities: 0,
+			created_at: existing?.channel.created_at ?? state.now(),
+			type,
+		};
+
+		state.channels.set(`${project}:${id}`, {
+			channel,
+			subscribers: existing?.subscribers ?? new Set(),
+		});
+
+		return {channel};
+	}
+
+	router
+		.add('GET', '/v1/channels', context => {
+			const project = context.project();
+
+			const channels = [...getState().channels.values()]
+				.map(entry => entry.channel)
+				.filter(channel => channel.project.id === project);
+
+			return {channels};
+		})
+		.add('POST', '/v1/channels', context =>
+			createChannel(context, getState().secret('channel')),
+		)
+		.add('PUT', '/v1/channels/:channel_id', context =>
+			createChannel(context, context.params.channel_id!),
+		)
+		.add('GET', '/v1/channels/:channel_id', context => ({
+			channel: getChannel(context).channel,
+		}))
+		.add('DELETE', '/v1/channels/:channel_id', context => {
+			const {channel} = getChannel(context);
+			getState().channels.delete(`${channel.project.id}:${channel.id}`);
+		})
+		.add('GET', '/v1/channels/:channel_id/state', context => ({
+			state: getChannel(context).channel.state,
+		}))
+		.add('PUT', '/v1/channels/:channel_id/state', context => {
+			getChannel(context).channel.state = context.body as AnyStateObject;
+		})
+		.add('PATCH', '/v1/channels/:channel_id/state', context => {
+			const {channel} = getChannel(context);
+			channel.state = {...channel.state, ...(context.body as AnyStateObject)};
+		})
+		.add('POST', '/v1/channels/:channel_id/messages', context => {
+			const {channel} = getChannel(context);
+			const {e, d} = context.body as {e: string; d: unknown};
+
+			getState().messages.push({
+				target: {type: 'channel', id: channel.id},
+				e,
+				d,
+			});
+		})
+		.add('GET', '/v1/channels/:channel_id/tokens', context => {
+			const {subscribers} = getChannel(context);
+			const state = getState();
+
+			const tokens = [...subscribers]
+				.map(id => state.channelTokens.get(id))
+				.filter((token): token is ChannelToken => token !== undefined);
+
+			return {tokens};
+		})
+		.add('GET', '/v1/channels/:channel_id/stats', context => {
+			const {subscribers} = getChannel(context);
+			const state = getState();
+
+			const online_count = [...subscribers].filter(
+				id => state.channelTokens.get(id)?.is_online,
+			).length;
+
+			return {stats: {online_count}};
+		})
+		.add('PUT', '/v1/channels/:channel_id/subscribers/:token', context => {
+			const {subscribers} = getChannel(context);
+			subscribers.add(getToken(context).id);
+		})
+		.add('DELETE', '/v1/channels/:channel_id/subscribers/:token', context => {
+			const {subscribers} = getChannel(context);
+			subscribers.delete(getToken(context).id);
+		})
+		.add('POST', '/v1/channels/tokens', context => {
+			const state = getState();
+			const {state: tokenState} = context.body as {state: AnyStateObject};
+
+			const token: ChannelToken = {
+				id: state.id('leap_token'),
+				state: tokenState ?? {},
+				project_id: context.project(),
+				is_online: false,
+			};
+
+			state.channelTokens.set(token.id, token);
+
+			return {token};
+		})
+		.add('GET', '/v1/channels/tokens/:token', context => ({
+			token: getToken(context),
+		}))
+		.add('PATCH', '/v1/channels/tokens/:token', context => {
+			const token = getToken(context);
+			const {state} = context.body as {state: AnyStateObject};
+
+			token.state = state;
+
+			return {token};
+		})
+		.add('DELETE', '/v1/channels/tokens/:token', context => {
+			const state = getState();
+			const token = getToken(context);
+
+			state.channelTokens.delete(token.id);
+
+			for (const {subscribers} of state.channels.values()) {
+				subscribers.delete(token.id);
+			}
+		})
+		.add('POST', '/v1/channels/tokens/:token/messages', context => {
+			const token = getToken(context);
+			const {e, d} = context.body as {e: string; d: unknown};
+
+			getState().messages.push({target: {type: 'token', id: token.id}, e, d});
+		});
+}
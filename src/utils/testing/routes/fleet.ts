@@ -0,0 +1,75 @@
+import {
+	FleetSchedulingState,
+	FleetStatus,
+	type Node,
+} from '../../../rest/types/fleet.ts';
+import type {Id} from '../../../util/types.ts';
+import {FakeAPIError, type RouteContext, type Router} from '../router.ts';
+import type {FakeState} from '../state.ts';
+
+export function fleetRoutes(router: Router, getState: () => FakeState) {
+	function getNode(context: RouteContext) {
+		const node = getState().nodes.get(
+			context.params.node_id as Id<'fleet_node'>,
+		);
+
+		if (!node || node.project_id !== context.project()) {
+			throw new FakeAPIError(404, 'fleet_node_not_found', 'Node not found');
+		}
+
+		return node;
+	}
+
+	router
+		.add('GET', '/v1/fleet/nodes', context => {
+			const project = context.project();
+
+			const nodes = [...getState().nodes.values()].filter(
+				node => node.project_id === project,
+			);
+
+			return {nodes};
+		})
+		.add('POST', '/v1/fleet/nodes', context => {
+			const state = getState();
+			const {name, scheduling_state} = context.body as {
+				name: string;
+				scheduling_state: FleetSchedulingState;
+			};
+
+			const node: Node = {
+				id: state.id('fleet_node'),
+				project_id: context.project(),
+				fleet_group: null,
+				name,
+				scheduling_state: scheduling_state ?? FleetSchedulingState.SCHEDULABLE,
+				status: FleetStatus.OFFLINE,
+				last_heartbeat: state.now(),
+				metadata: null,
+				bootstrapped: false,
+				created_at: state.now(),
+			};
+
+			state.nodes.set(node.id, node);
+
+			return {node, token: state.secret('fleet_token')};
+		})
+		.add('PATCH', '/v1/fleet/nodes/:node_id', context => {
+			const node = getNode(context);
+			const {scheduling_state} = context.body as {
+				scheduling_state: FleetSchedulingState;
+			};
+
+			node.scheduling_state = scheduling_state;
+
+			return {node};
+		})
+		.add('POST', '/v1/fleet/nodes/:node_id/token', context => {
+			getNode(context);
+
+			return {token: getState().secret('fleet_token')};
+		})
+		.add('DELETE', '/v1/fleet/nodes/:node_id', context => {
+			getState().nodes.delete(getNode(context).id);
+		});
+}
@@ -0,0 +1,728 @@
+import {
+	BuildMethod,
+	BuildState,
+	ContainerState,
+	DomainState,
+	GatewayType,
+	RolloutState,
+	RuntimeType,
+	type Build,
+	type CreateDeploymentConfig,
+	type Deployment,
+	type DeploymentConfig,
+	type DeploymentMetadata,
+	type DeploymentRollout,
+	type Domain,
+	type DomainRedirect,
+	type Gateway,
+	type Group,
+	type HealthCheck,
+	type HealthCheckConfig,
+} from '../../../rest/index.ts';
+import type {Id} from '../../../util/types.ts';
+import {FakeAPIError, type RouteContext, type Router} from '../router.ts';
+import type {FakeState} from '../state.ts';
+
+export function igniteRoutes(router: Router, getState: () => FakeState) {
+	function getDeployment(
+		context: RouteContext,
+		id = context.params.deployment_id,
+	) {
+		const entry = getState().deployments.get(id as Id<'deployment'>);
+
+		if (!entry) {
+			throw new FakeAPIError(
+				404,
+				'deployment_not_found',
+				'Deployment not found',
+			);
+		}
+
+		context.assertAccess(entry.project, 'deployment');
+
+		return entry;
+	}
+
+	function getContainer(context: RouteContext) {
+		const container = getState().containers.get(
+			context.params.container_id as Id<'container'>,
+		);
+
+		if (!container) {
+			throw new FakeAPIError(404, 'container_not_found', 'Container not found');
+		}
+
+		getDeployment(context, container.deployment_id);
+
+		return container;
+	}
+
+	function getBuild(context: RouteContext) {
+		const build = getState().builds.get(context.params.build_id as Id<'build'>);
+
+		if (!build) {
+			throw new FakeAPIError(404, 'build_not_found', 'Build not found');
+		}
+
+		getDeployment(context, build.deployment_id);
+
+		return build;
+	}
+
+	function getGateway(context: RouteContext, id = context.params.gateway_id) {
+		const gateway = getState().gateways.get(id as Id<'gateway'>);
+
+		if (!gateway) {
+			throw new FakeAPIError(404, 'gateway_not_found', 'Gateway not found');
+		}
+
+		getDeployment(context, gateway.deployment_id);
+
+		return gateway;
+	}
+
+	function getGroup(context: RouteContext) {
+		const group = getState().groups.get(
+			context.params.group_id as Id<'deployment_group'>,
+		);
+
+		if (!group || group.project_id !== context.project()) {
+			throw new FakeAPIError(
+				404,
+				'deployment_group_not_found',
+				'Group not found',
+			);
+		}
+
+		return group;
+	}
+
+	function findDomain(context: RouteContext) {
+		for (const gateway of getState().gateways.values()) {
+			const domain = gateway.domains.find(
+				domain => domain.id === context.params.domain_id,
+			);
+
+			if (domain) {
+				getDeployment(context, gateway.deployment_id);
+				return {gateway, domain};
+			}
+		}
+
+		throw new FakeAPIError(404, 'domain_not_found', 'Domain not found');
+	}
+
+	function checkRedirect(redirect: DomainRedirect | null | undefined) {
+		if (!redirect) {
+			return;
+		}
+
+		if (![301, 302, 307, 308].includes(redirect.status_code)) {
+			throw new FakeAPIError(
+				400,
+				'invalid_redirect',
+				'Redirects must use a 301, 302, 307 or 308 status code',
+			);
+		}
+	}
+
+	function assertNameAvailable(
+		project: Id<'project'>,
+		name: string,
+		except?: Id<'deployment'>,
+	) {
+		for (const entry of getState().deployments.values()) {
+			if (
+				entry.project === project &&
+				entry.deployment.name === name &&
+				entry.deployment.id !== except
+			) {
+				throw new FakeAPIError(
+					409,
+					'deployment_name_taken',
+					`A deployment called ${name} already exists`,
+				);
+			}
+		}
+	}
+
+	function rollout(deployment: Deployment) {
+		const state = getState();
+		const containers = state.getContainers(deployment.id);
+
+		// Rollouts finish instantly, replacing every container with a new one
+		for (const container of containers) {
+			state.deleteContainer(container);
+			state.createContainer(deployment);
+		}
+
+		const rollout: DeploymentRollout = {
+			id: state.id('rollout'),
+			deployment_id: deployment.id,
+			count: containers.length,
+			created_at: state.now(),
+			state: RolloutState.FINISHED,
+			build: deployment.active_build,
+			init_container_id: null,
+			health_check_failed: false,
+			last_updated_at: state.now(),
+			acknowledged: false,
+		};
+
+		state.rollouts.set(rollout.id, rollout);
+
+		deployment.latest_rollout = rollout;
+		deployment.active_rollout = rollout;
+
+		return rollout;
+	}
+
+	router
+		.add('GET', '/v1/ignite/deployments', context => {
+			const state = getState();
+			const project = context.project();
+
+			const deployments = [...state.deployments.values()]
+				.filter(entry => entry.project === project)
+				.map(entry => entry.deployment);
+
+			const groups = [...state.groups.values()].filter(
+				group => group.project_id === project,
+			);
+
+			return {deployments, groups};
+		})
+		.add('POST', '/v1/ignite/deployments', context => {
+			const state = getState();
+			const project = context.project();
+			const {name, target, ...config} = context.body as CreateDeploymentConfig;
+
+			if (!name) {
+				throw new FakeAPIError(400, 'invalid_body', 'A name is required');
+			}
+
+			if (config.volume && config.type !== RuntimeType.STATEFUL) {
+				throw new FakeAPIError(
+					400,
+					'invalid_body',
+					'Only stateful deployments can have a volume',
+				);
+			}
+
+			assertNameAvailable(project, name);
+
+			const deployment: Deployment = {
+				id: state.id('deployment'),
+				name,
+				container_count: 0,
+				created_at: state.now(),
+				config,
+				active_rollout: null,
+				active_build: null,
+				build_id: null,
+				latest_rollout: null,
+				running_container_count: 0,
+				target_container_count: 0,
+				metadata: null,
+				build_cache_enabled: true,
+				group_id: null,
+				target,
+			};
+
+			state.deployments.set(deployment.id, {project, deployment});
+
+			return {deployment};
+		})
+		.add('GET', '/v1/ignite/deployments/search', context => {
+			const project = context.project();
+			const name = context.query.get('name');
+
+			const entry = [...getState().deployments.values()].find(
+				entry => entry.project === project && entry.deployment.name === name,
+			);
+
+			if (!entry) {
+				throw new FakeAPIError(
+					404,
+					'deployment_not_found',
+					'Deployment not found',
+				);
+			}
+
+			return {deployment: entry.deployment};
+		})
+		.add('GET', '/v1/ignite/deployments/:deployment_id', context => ({
+			deployment: getDeployment(context).deployment,
+		}))
+		.add('PATCH', '/v1/ignite/deployments/:deployment_id', context => {
+			const {project, deployment} = getDeployment(context);
+			const {name, target, ...config} =
+				context.body as Partial<DeploymentConfig>;
+
+			if (name !== undefined) {
+				assertNameAvailable(project, name, deployment.id);
+				deployment.name = name;
+			}
+
+			if (target !== undefined) {
+				deployment.target = target;
+			}
+
+			deployment.config = {...deployment.config, ...config};
+
+			return {deployment};
+		})
+		.add('DELETE', '/v1/ignite/deployments/:deployment_id', context => {
+			const state = getState();
+			const {deployment} = getDeployment(context);
+
+			for (const container of state.getContainers(deployment.id)) {
+				state.deleteContainer(container);
+			}
+
+			for (const gateway of state.gateways.values()) {
+				if (gateway.deployment_id === deployment.id) {
+					state.gateways.delete(gateway.id);
+				}
+			}
+
+			state.healthChecks.delete(deployment.id);
+			state.deployments.delete(deployment.id);
+		})
+		.add('PATCH', '/v1/ignite/deployments/:deployment_id/metadata', context => {
+			const {deployment} = getDeployment(context);
+
+			deployment.metadata = {
+				container_port_mappings: {},
+				...deployment.metadata,
+				...(context.body as Partial<DeploymentMetadata>),
+			};
+
+			return {deployment};
+		})
+		.add('GET', '/v1/ignite/deployments/:deployment_id/storage', context => {
+			const {deployment} = getDeployment(context);
+
+			return {
+				volume: deployment.config.volume
+					? {provisioned_size: 0, used_size: 0}
+					: null,
+				build_cache: null,
+			};
+		})
+		.add('GET', '/v1/ignite/builds/:build_id', context => ({
+			build: getBuild(context),
+		}))
+		.add('GET', '/v1/ignite/builds/:build_id/logs', context => {
+			const build = getBuild(context);
+			const {query} = context;
+
+			const logs = [...(getState().buildLogs.get(build.id) ?? [])].sort(
+				(a, b) => a.timestamp.localeCompare(b.timestamp),
+			);
+
+			if (query.get('orderBy') !== 'asc') {
+				logs.reverse();
+			}
+
+			const offset = Number(query.get('offset') ?? 0);
+			const limit = Number(query.get('limit') ?? 50);
+
+			return {logs: logs.slice(offset, offset + limit)};
+		})
+		.add('POST', '/v1/ignite/builds/:build_id/cancel', context => {
+			const build = getBuild(context);
+
+			if (
+				build.state !== BuildState.PENDING &&
+				build.state !== BuildState.VALIDATING
+			) {
+				throw new FakeAPIError(
+					409,
+					'build_not_cancellable',
+					`Build is already ${build.state}`,
+				);
+			}
+
+			build.state = BuildState.CANCELLED;
+			build.finished_at = getState().now();
+
+			return {build};
+		})
+		.add('GET', '/v1/ignite/deployments/:deployment_id/builds', context => {
+			const {deployment} = getDeployment(context);
+
+			const builds = [...getState().builds.values()]
+				.filter(build => build.deployment_id === deployment.id)
+				.reverse();
+
+			return {builds};
+		})
+		.add('POST', '/v1/ignite/deployments/:deployment_id/builds', context => {
+			const state = getState();
+			const {deployment} = getDeployment(context);
+			const {commit_sha} = context.body as {commit_sha: string};
+
+			// Only deployments linked to GitHub have a repo to build a commit from
+			const linked = [...state.builds.values()].findLast(
+				build => build.deployment_id === deployment.id && build.metadata,
+			);
+
+			if (!linked?.metadata) {
+				throw new FakeAPIError(
+					400,
+					'deployment_not_linked',
+					'This deployment is not linked to a GitHub repo',
+				);
+			}
+
+			const build: Build = {
+				id: state.id('build'),
+				deployment_id: deployment.id,
+				metadata: {...linked.metadata, commit_sha, commit_msg: ''},
+				method: BuildMethod.GITHUB,
+				created_at: state.now(),
+				started_at: null,
+				finished_at: null,
+				digest: null,
+				state: BuildState.PENDING,
+				environment: null,
+				validation_failure: null,
+			};
+
+			state.builds.set(build.id, build);
+			deployment.active_build = build;
+
+			return {build};
+		})
+		.add('POST', '/v1/ignite/deployments/:deployment_id/rollouts', context => ({
+			rollout: rollout(getDeployment(context).deployment),
+		}))
+		.add(
+			'GET',
+			'/v1/ignite/deployments/:deployment_id/containers',
+			context => ({
+				containers: getState().getContainers(
+					getDeployment(context).deployment.id,
+				),
+			}),
+		)
+		.add(
+			'POST',
+			'/v1/ignite/deployments/:deployment_id/containers',
+			context => {
+				const state = getState();
+				const {deployment} = getDeployment(context);
+
+				if (
+					deployment.config.type === RuntimeType.STATEFUL &&
+					state.getContainers(deployment.id).length > 0
+				) {
+					throw new FakeAPIError(
+						400,
+						'stateful_container_limit',
+						'Stateful deployments can only run one container',
+					);
+				}
+
+				return {container: state.createContainer(deployment)};
+			},
+		)
+		.add('DELETE', '/v1/ignite/containers/:container_id', context => {
+			const state = getState();
+			const container = getContainer(context);
+
+			state.deleteContainer(container);
+
+			if (context.query.get('recreate') === 'true') {
+				const {deployment} = getDeployment(context, container.deployment_id);
+				return {container: state.createContainer(deployment)};
+			}
+
+			return undefined;
+		})
+		.add('GET', '/v1/ignite/containers/:container_id', context => ({
+			container: getContainer(context),
+		}))
+		.add('PUT', '/v1/ignite/containers/:container_id/state', context => {
+			const state = getState();
+			const container = getContainer(context);
+			const {preferred_state} = context.body as {
+				preferred_state: ContainerState;
+			};
+
+			if (
+				preferred_state !== ContainerState.RUNNING &&
+				preferred_state !== ContainerState.STOPPED
+			) {
+				throw new FakeAPIError(400, 'invalid_body', 'Invalid container state');
+			}
+
+			if (preferred_state === ContainerState.RUNNING) {
+				container.uptime.last_start = state.now();
+			}
+
+			container.state = preferred_state;
+			state.syncDeployment(container.deployment_id);
+		})
+		.add('GET', '/v1/ignite/containers/:container_id/logs', context => {
+			const container = getContainer(context);
+			const {query} = context;
+
+			const logs = [...(getState().logs.get(container.id) ?? [])].sort((a, b) =>
+				a.timestamp.localeCompare(b.timestamp),
+			);
+
+			if (query.get('orderBy') !== 'asc') {
+				logs.reverse();
+			}
+
+			const offset = Number(query.get('offset') ?? 0);
+			const limit = Number(query.get('limit') ?? 50);
+
+			return {logs: logs.slice(offset, offset + limit)};
+		})
+		.add(
+			'GET',
+			'/v1/ignite/deployments/:deployment_id/health-check',
+			context => {
+				const {deployment} = getDeployment(context);
+				const health_check = getState().healthChecks.get(deployment.id);
+
+				if (!health_check) {
+					throw new FakeAPIError(
+						404,
+						'health_check_not_found',
+						'This deployment has no health check',
+					);
+				}
+
+				return {health_check};
+			},
+		)
+		.add(
+			'POST',
+			'/v1/ignite/deployments/:deployment_id/health-check',
+			context => {
+				const state = getState();
+				const {deployment} = getDeployment(context);
+
+				const health_check: HealthCheck = {
+					...(context.body as HealthCheckConfig),
+					id: state.id('health_check'),
+					created_at: state.now(),
+				};
+
+				state.healthChecks.set(deployment.id, health_check);
+
+				return {health_check};
+			},
+		)
+		.add(
+			'PATCH',
+			'/v1/ignite/deployments/:deployment_id/health-check',
+			context => {
+				const {deployment} = getDeployment(context);
+				const existing = getState().healthChecks.get(deployment.id);
+
+				if (!existing) {
+					throw new FakeAPIError(
+						404,
+						'health_check_not_found',
+						'This deployment has no health check',
+					);
+				}
+
+				Object.assign(existing, context.body);
+
+				return {health_check: existing};
+			},
+		)
+		.add('GET', '/v1/ignite/deployments/:deployment_id/gateways', context => {
+			const {deployment} = getDeployment(context);
+
+			const gateways = [...getState().gateways.values()].filter(
+				gateway => gateway.deployment_id === deployment.id,
+			);
+
+			return {gateways};
+		})
+		.add('POST', '/v1/ignite/deployments/:deployment_id/gateways', context => {
+			const state = getState();
+			const {deployment} = getDeployment(context);
+			const body = context.body as {
+				type: GatewayType;
+				target_port: number;
+				protocol: Gateway['protocol'];
+				name: string;
+				internal_domain?: string;
+			};
+
+			const id = state.id('gateway');
+			const external = body.type === GatewayType.EXTERNAL;
+
+			const gateway: Gateway = {
+				id,
+				type: body.type,
+				name: body.name,
+				protocol: external ? body.protocol : null,
+				deployment_id: deployment.id,
+				created_at: state.now(),
+				hopsh_domain: external ? `${id.split('_')[1]!}.hop.sh` : null,
+				hopsh_domain_enabled: external,
+				internal_domain:
+					!external && body.internal_domain
+						? `${body.internal_domain.replace(/\.hop$/, '')}.hop`
+						: null,
+				target_port: body.target_port,
+				domains: [],
+			};
+
+			state.gateways.set(gateway.id, gateway);
+
+			return {gateway};
+		})
+		.add('GET', '/v1/ignite/gateways/:gateway_id', context => ({
+			gateway: getGateway(context),
+		}))
+		.add('PATCH', '/v1/ignite/gateways/:gateway_id', context => {
+			const gateway = getGateway(context);
+			const body = context.body as Partial<
+				Pick<
+					Gateway,
+					'name' | 'target_port' | 'protocol' | 'hopsh_domain_enabled'
+				>
+			>;
+
+			if (gateway.type === GatewayType.INTERNAL && body.hopsh_domain_enabled) {
+				throw new FakeAPIError(
+					400,
+					'invalid_body',
+					'Internal gateways do not have a hop.sh domain',
+				);
+			}
+
+			Object.assign(gateway, body);
+
+			return {gateway};
+		})
+		.add('DELETE', '/v1/ignite/gateways/:gateway_id', context => {
+			getState().gateways.delete(getGateway(context).id);
+		})
+		.add('POST', '/v1/ignite/gateways/:gateway_id/domains', context => {
+			const state = getState();
+			const gateway = getGateway(context);
+			const {domain: name, redirect = null} = context.body as {
+				domain: string;
+				redirect?: DomainRedirect;
+			};
+
+			checkRedirect(redirect);
+
+			for (const {domains} of state.gateways.values()) {
+				if (domains.some(domain => domain.domain === name)) {
+					throw new FakeAPIError(
+						409,
+						'domain_already_exists',
+						`${name} is already attached to a gateway`,
+					);
+				}
+			}
+
+			const domain: Domain = {
+				id: state.id('domain'),
+				domain: name,
+				state: DomainState.SSL_ACTIVE,
+				created_at: state.now(),
+				redirect,
+			};
+
+			gateway.domains.push(domain);
+		})
+		.add('GET', '/v1/ignite/domains/:domain_id', context => ({
+			domain: findDomain(context).domain,
+		}))
+		.add('PATCH', '/v1/ignite/domains/:domain_id', context => {
+			const {domain} = findDomain(context);
+			const {redirect} = context.body as {redirect: DomainRedirect | null};
+
+			checkRedirect(redirect);
+			domain.redirect = redirect;
+
+			return {domain};
+		})
+		.add('DELETE', '/v1/ignite/domains/:domain_id', context => {
+			const {gateway, domain} = findDomain(context);
+			gateway.domains = gateway.domains.filter(d => d.id !== domain.id);
+		})
+		.add('POST', '/v1/ignite/groups', context => {
+			const state = getState();
+			const project = context.project();
+			const {name, deployment_ids, position} = context.body as {
+				name: string;
+				deployment_ids: Id<'deployment'>[];
+				position?: number;
+			};
+
+			const group: Group = {
+				id: state.id('deployment_group'),
+				name,
+				project_id: project,
+				position:
+					position ??
+					[...state.groups.values()].filter(g => g.project_id === project)
+						.length,
+				created_at: state.now(),
+			};
+
+			for (const id of deployment_ids) {
+				getDeployment(context, id).deployment.group_id = group.id;
+			}
+
+			state.groups.set(group.id, group);
+
+			return {group};
+		})
+		.add('PATCH', '/v1/ignite/groups/:group_id', context => {
+			const group = getGroup(context);
+			const {name, position} = context.body as {
+				name?: string;
+				position?: number;
+			};
+
+			if (name !== undefined) {
+				group.name = name;
+			}
+
+			if (position !== undefined) {
+				group.position = position;
+			}
+
+			return {group};
+		})
+		.add('DELETE', '/v1/ignite/groups/:group_id', context => {
+			const state = getState();
+			const group = getGroup(context);
+
+			for (const {deployment} of state.deployments.values()) {
+				if (deployment.group_id === group.id) {
+					deployment.group_id = null;
+				}
+			}
+
+			state.groups.delete(group.id);
+		})
+		.add(
+			'PUT',
+			'/v1/ignite/groups/:group_id/deployments/:deployment_id',
+			context => {
+				const group = getGroup(context);
+				getDeployment(context).deployment.group_id = group.id;
+
+				return {group};
+			},
+		)
+		.add('DELETE', '/v1/ignite/deployments/:deployment_id/group', context => {
+			getDeployment(context).deployment.group_id = null;
+		});
+}
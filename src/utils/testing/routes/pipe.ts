@@ -0,0 +1,54 @@
+import type {DeliveryProtocol, Room} from '../../../rest/index.ts';
+import type {Regions} from '../../../rest/types/ignite.ts';
+import type {Id} from '../../../util/types.ts';
+import {FakeAPIError, type Router} from '../router.ts';
+import type {FakeState} from '../state.ts';
+
+export function pipeRoutes(router: Router, getState: () => FakeState) {
+	router
+		.add('GET', '/v1/pipe/rooms', context => {
+			const project = context.project();
+
+			const rooms = [...getState().rooms.values()]
+				.filter(entry => entry.project === project)
+				.map(entry => entry.room);
+
+			return {rooms};
+		})
+		.add('POST', '/v1/pipe/rooms', context => {
+			const state = getState();
+			const body = context.body as {
+				name: string;
+				delivery_protocols: DeliveryProtocol[];
+				region: Regions;
+			};
+
+			const room: Room = {
+				id: state.id('pipe_room'),
+				name: body.name,
+				created_at: state.now(),
+				ingest_protocol: 'rtmp',
+				delivery_protocols: body.delivery_protocols,
+				join_token: state.secret('join'),
+				ingest_region: body.region,
+				ingest_endpoint: `rtmp://${body.region}.ingest.hop.fake/live`,
+				state: 'offline',
+			};
+
+			state.rooms.set(room.id, {project: context.project(), room});
+
+			return {room};
+		})
+		.add('DELETE', '/v1/pipe/rooms/:room_id', context => {
+			const state = getState();
+			const id = context.params.room_id as Id<'pipe_room'>;
+			const entry = state.rooms.get(id);
+
+			if (!entry) {
+				throw new FakeAPIError(404, 'pipe_room_not_found', 'Room not found');
+			}
+
+			context.assertAccess(entry.project, 'pipe_room');
+			state.rooms.delete(id);
+		});
+}
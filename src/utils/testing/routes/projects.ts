@@ -0,0 +1,221 @@
+import type {Secret, Webhook} from '../../../rest/index.ts';
+import {crypto} from '../../../util/crypto.ts';
+import type {Id, PossibleWebhookIDs} from '../../../util/types.ts';
+import {FakeAPIError, type RouteContext, type Router} from '../router.ts';
+import type {FakeState} from '../state.ts';
+
+function censor(value: string, visible: number) {
+	return value.slice(0, visible) + '*'.repeat(value.length - visible);
+}
+
+async function digest(value: string) {
+	const hash = await crypto.subtle.digest(
+		'SHA-256',
+		new TextEncoder().encode(value),
+	);
+
+	return [...new Uint8Array(hash)]
+		.map(byte => byte.toString(16).padStart(2, '0'))
+		.join('');
+}
+
+export function projectRoutes(router: Router, getState: () => FakeState) {
+	function getWebhook(context: RouteContext) {
+		const webhook = getState().webhooks.get(
+			context.params.webhook_id as Id<'webhook'>,
+		);
+
+		if (!webhook || webhook.project_id !== context.project()) {
+			throw new FakeAPIError(404, 'webhook_not_found', 'Webhook not found');
+		}
+
+		return webhook;
+	}
+
+	for (const base of [
+		'/v1/projects/:project_id',
+		'/v1/projects/@this',
+	] as const) {
+		router
+			.add('GET', `${base}/members`, context => ({
+				members: getState().members.get(context.project()) ?? [],
+			}))
+			.add('GET', `${base}/tokens`, context => {
+				const project = context.project();
+
+				const project_tokens = [...getState().projectTokens.values()]
+					.filter(entry => entry.project === project)
+					.map(({token}) => ({
+						...token,
+						token: censor(token.token, 12) as Id<'ptk'>,
+					}));
+
+				return {project_tokens};
+			})
+			.add('POST', `${base}/tokens`, context => {
+				const state = getState();
+				const project = context.project();
+				const {flags} = context.body as {flags: number};
+
+				const token = state.createProjectToken(project, flags);
+
+				return {
+					project_token: {...token, project: state.projects.get(project)!},
+				};
+			})
+			.add('DELETE', `${base}/tokens/:project_token_id`, context => {
+				const state = getState();
+				const id = context.params.project_token_id as Id<'ptkid'>;
+				const entry = state.projectTokens.get(id);
+
+				if (!entry || entry.project !== context.project()) {
+					throw new FakeAPIError(
+						404,
+						'project_token_not_found',
+						'Project token not found',
+					);
+				}
+
+				state.projectTokens.delete(id);
+			})
+			.add('GET', `${base}/secrets`, context => {
+				const project = context.project();
+
+				const secrets = [...getState().secrets.values()]
+					.filter(entry => entry.project === project)
+					.map(entry => entry.secret);
+
+				return {secrets};
+			})
+			.add('PUT', `${base}/secrets/:name`, async context => {
+				const state = getState();
+				const project = context.project();
+				const name = context.params.name!.toUpperCase();
+				const value = context.body;
+
+				if (typeof value !== 'string' || !value) {
+					throw new FakeAPIError(
+						400,
+						'invalid_body',
+						'Secret value must be a non-empty string',
+					);
+				}
+
+				if (!/^[A-Z0-9_]+$/.test(name)) {
+					throw new FakeAPIError(
+						400,
+						'invalid_body',
+						'Secret names can only contain letters, numbers and underscores',
+					);
+				}
+
+				const existing = [...state.secrets.values()].find(
+					entry => entry.project === project && entry.secret.name === name,
+				);
+
+				const secret: Secret = {
+					id: existing?.secret.id ?? state.id('secret'),
+					name,
+					digest: await digest(value),
+					created_at: existing?.secret.created_at ?? state.now(),
+					in_use_by: existing?.secret.in_use_by ?? [],
+				};
+
+				state.secrets.set(secret.id, {project, secret, value});
+
+				return {secret};
+			})
+			.add('DELETE', `${base}/secrets/:secret_id`, context => {
+				const state = getState();
+				const project = context.project();
+				const idOrName = context.params.secret_id!;
+
+				const entry = [...state.secrets.values()].find(
+					entry =>
+						entry.project === project &&
+						(entry.secret.id === idOrName ||
+							entry.secret.name === idOrName.toUpperCase()),
+				);
+
+				if (!entry) {
+					throw new FakeAPIError(404, 'secret_not_found', 'Secret not found');
+				}
+
+				state.secrets.delete(entry.secret.id);
+			})
+			.add('GET', `${base}/webhooks`, context => {
+				const project = context.project();
+
+				const webhooks = [...getState().webhooks.values()]
+					.filter(webhook => webhook.project_id === project)
+					.map(webhook => ({...webhook, secret: censor(webhook.secret, 6)}));
+
+				return {webhooks};
+			})
+			.add('POST', `${base}/webhooks`, context => {
+				const state = getState();
+				const {webhook_url, events} = context.body as {
+					webhook_url: string;
+					events: PossibleWebhookIDs[];
+				};
+
+				const webhook: Webhook = {
+					id: state.id('webhook'),
+					project_id: context.project(),
+					created_at: state.now(),
+					events,
+					secret: state.secret('whsec'),
+					type: 'http',
+					webhook_url,
+				};
+
+				state.webhooks.set(webhook.id, webhook);
+
+				return {webhook};
+			})
+			.add('PATCH', `${base}/webhooks/:webhook_id`, context => {
+				const webhook = getWebhook(context);
+				const {webhook_url, events} = context.body as {
+					webhook_url?: string;
+					events?: PossibleWebhookIDs[];
+				};
+
+				if (webhook_url !== undefined) {
+					webhook.webhook_url = webhook_url;
+				}
+
+				if (events !== undefined) {
+					webhook.events = events;
+				}
+
+				return {webhook: {...webhook, secret: censor(webhook.secret, 6)}};
+			})
+			.add('DELETE', `${base}/webhooks/:webhook_id`, context => {
+				getState().webhooks.delete(getWebhook(context).id);
+			})
+			.add('POST', `${base}/webhooks/:webhook_id/regenerate`, context => {
+				const webhook = getWebhook(context);
+				webhook.secret = getState().secret('whsec');
+
+				return {secret: webhook.secret};
+			});
+	}
+
+	router.add('GET', '/v1/projects/:project_id/members/@me', context => {
+		const state = getState();
+		const members = state.members.get(context.project()) ?? [];
+		const member = members.find(
+			member => member.username === state.user.username,
+		);
+
+		if (!member || context.auth.type === 'ptk') {
+			throw new FakeAPIError(
+				404,
+				'project_member_not_found',
+				'You are not a member of this project',
+			);
+		}
+
+		return {project_member: member};
+	});
+}
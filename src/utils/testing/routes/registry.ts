@@ -0,0 +1,30 @@
+import {FakeAPIError, type RouteContext, type Router} from '../router.ts';
+import type {FakeState} from '../state.ts';
+
+export function registryRoutes(router: Router, getState: () => FakeState) {
+	function getImages(context: RouteContext) {
+		return getState().images.get(context.project()) ?? new Map();
+	}
+
+	function getManifests(context: RouteContext) {
+		const manifests = getImages(context).get(context.params.image!);
+
+		if (!manifests) {
+			throw new FakeAPIError(404, 'image_not_found', 'Image not found');
+		}
+
+		return manifests;
+	}
+
+	router
+		.add('GET', '/v1/registry/images', context => ({
+			images: [...getImages(context).keys()],
+		}))
+		.add('GET', '/v1/registry/images/:image/manifests', context => ({
+			manifests: getManifests(context),
+		}))
+		.add('DELETE', '/v1/registry/images/:image', context => {
+			getManifests(context);
+			getImages(context).delete(context.params.image!);
+		});
+}
@@ -0,0 +1,76 @@
+import type {MemberRole, PAT} from '../../../rest/index.ts';
+import type {Id} from '../../../util/types.ts';
+import {FakeAPIError, type RouteContext, type Router} from '../router.ts';
+import type {FakeState} from '../state.ts';
+
+export function userRoutes(router: Router, getState: () => FakeState) {
+	function assertUser(context: RouteContext) {
+		if (context.auth.type === 'ptk') {
+			throw new FakeAPIError(
+				403,
+				'forbidden',
+				'Project tokens cannot access user endpoints',
+			);
+		}
+	}
+
+	router
+		.add('GET', '/v1/users/@me', context => {
+			assertUser(context);
+
+			const state = getState();
+			const projects = [...state.projects.values()];
+			const project_member_role_map: Record<Id<'project'>, MemberRole> = {};
+
+			for (const project of projects) {
+				const member = state.members
+					.get(project.id)
+					?.find(member => member.username === state.user.username);
+
+				if (member) {
+					project_member_role_map[project.id] = member.role;
+				}
+			}
+
+			return {
+				projects,
+				user: state.user,
+				project_member_role_map,
+				leap_token: null,
+			};
+		})
+		.add('GET', '/v1/users/@me/pats', context => {
+			assertUser(context);
+
+			const pats = [...getState().pats.values()].map(pat => ({
+				...pat,
+				pat: pat.pat.slice(0, 8) + '*'.repeat(pat.pat.length - 8),
+			}));
+
+			return {pats};
+		})
+		.add('POST', '/v1/users/@me/pats', context => {
+			assertUser(context);
+
+			const state = getState();
+			const {name} = context.body as {name: string};
+
+			const pat: PAT = {
+				id: state.id('pat'),
+				name,
+				pat: state.secret('pat'),
+				created_at: state.now(),
+			};
+
+			state.pats.set(pat.id, pat);
+
+			return {pat};
+		})
+		.add('DELETE', '/v1/users/@me/pats/:pat_id', context => {
+			assertUser(context);
+
+			if (!getState().pats.delete(context.params.pat_id as Id<'pat'>)) {
+				throw new FakeAPIError(404, 'pat_not_found', 'PAT not found');
+			}
+		});
+}
@@ -0,0 +1,515 @@
+import {permissionsMap} from '../../permissions.ts';
+import {canProjectTokenAccess, getEndpoint} from '../../rest/catalog.ts';
+import type {FetchFunction} from '../../rest/client.ts';
+import type {APIResponse} from '../../rest/endpoints.ts';
+import {
+	BuildMethod,
+	BuildState,
+	ContainerState,
+	type Build,
+	type BuildLog,
+	type ContainerLog,
+	type ContainerMetrics,
+	type DeploymentRollout,
+	type Project,
+	type ProjectToken,
+} from '../../rest/index.ts';
+import {Response} from '../../util/fetch.ts';
+import type {Id} from '../../util/types.ts';
+import {sleep} from '../../util/timers.ts';
+import {
+	FakeAPIError,
+	Router,
+	type FakeAuth,
+	type RouteContext,
+} from './router.ts';
+import {channelRoutes} from './routes/channels.ts';
+import {fleetRoutes} from './routes/fleet.ts';
+import {igniteRoutes} from './routes/ignite.ts';
+import {pipeRoutes} from './routes/pipe.ts';
+import {projectRoutes} from './routes/projects.ts';
+import {registryRoutes} from './routes/registry.ts';
+import {userRoutes} from './routes/users.ts';
+import {FakeState} from './state.ts';
+
+const ALL_PERMISSIONS = Number(
+	Object.values(permissionsMap).reduce((all, flag) => all | flag, 0n),
+);
+
+function json(status: number, body: APIResponse<unknown>) {
+	return new Response(JSON.stringify(body), {
+		status,
+		headers: {'Content-Type': 'application/json'},
+	});
+}
+
+/**
+ * Options for the fake Hop API
+ * @public
+ */
+export interface FakeHopAPIOptions {
+	/**
+	 * The base URL requests are made against. Nothing is ever sent here, it only has to match the client's
+	 */
+	baseUrl?: string;
+
+	/**
+	 * How long in milliseconds every response takes. Useful to test timeouts and abort signals
+	 */
+	latency?: number;
+
+	/**
+	 * The name of the default project
+	 */
+	projectName?: string;
+}
+
+/**
+ * A stateful, in-memory implementation of the Hop API. Pass its options to a {@link Hop}
+ * client and every request will be answered by the fake instead of the network.
+ *
+ * @public
+ *
+ * @example
+ * ```ts
+ * const api = new FakeHopAPI();
+ * const hop = new Hop(api.clientOptions);
+ *
+ * await hop.channels.create(ChannelType.PUBLIC, 'my-channel');
+ * ```
+ */
+export class FakeHopAPI {
+	public readonly baseUrl: string;
+
+	/**
+	 * The default project that {@link FakeHopAPI.token} belongs to
+	 */
+	public readonly project: Project;
+
+	/**
+	 * A project token with every permission in the default project
+	 */
+	public readonly token: Id<'ptk'>;
+
+	private readonly router = new Router();
+	private readonly latency: number;
+	private readonly projectToken: ProjectToken;
+	private currentState = new FakeState();
+
+	constructor(options: FakeHopAPIOptions = {}) {
+		this.baseUrl = options.baseUrl ?? 'https://api.hop.fake';
+		this.latency = options.latency ?? 0;
+
+		this.project = this.currentState.createProject(options.projectName);
+		this.projectToken = this.currentState.createProjectToken(
+			this.project.id,
+			ALL_PERMISSIONS,
+		);
+		this.token = this.projectToken.token;
+
+		for (const routes of [
+			channelRoutes,
+			fleetRoutes,
+			igniteRoutes,
+			pipeRoutes,
+			projectRoutes,
+			registryRoutes,
+			userRoutes,
+		]) {
+			routes(this.router, () => this.currentState);
+		}
+	}
+
+	/**
+	 * Everything currently stored by the fake
+	 */
+	get state() {
+		return this.currentState;
+	}
+
+	/**
+	 * Options that can be passed straight to `new Hop()`
+	 */
+	get clientOptions() {
+		return {
+			authentication: this.token,
+			baseUrl: this.baseUrl,
+			fetch: this.fetch,
+		};
+	}
+
+	/**
+	 * Creates another project that the default token can't access
+	 *
+	 * @returns The project and a project token for it
+	 */
+	createProject(name?: string) {
+		const project = this.currentState.createProject(name);
+		const token = this.currentState.createProjectToken(
+			project.id,
+			ALL_PERMISSIONS,
+		);
+
+		return {project, token: token.token};
+	}
+
+	/**
+	 * Removes everything from the fake. The default project and token stay valid
+	 */
+	reset() {
+		const state = new FakeState();
+
+		state.projects.set(this.project.id, this.project);
+		state.members.set(
+			this.project.id,
+			this.currentState.members.get(this.project.id) ?? [],
+		);
+		state.projectTokens.set(this.projectToken.id, {
+			project: this.project.id,
+			token: this.projectToken,
+		});
+
+		this.currentState = state;
+	}
+
+	/**
+	 * Pushes an image to the fake registry
+	 *
+	 * @param image - The name of the image, without the namespace
+	 * @param tag - The tag to push
+	 * @param project - The project to push to. Defaults to the default project
+	 */
+	pushImage(
+		image: string,
+		tag: string | null = 'latest',
+		project = this.project.id,
+	) {
+		const images = this.currentState.images.get(project) ?? new Map();
+		const manifests = images.get(image) ?? [];
+
+		manifests.push({
+			digest: {
+				digest: this.currentState.secret('sha256').replace('_', ':'),
+				size: 1024,
+				uploaded: this.currentState.now(),
+			},
+			tag,
+		});
+
+		images.set(image, manifests);
+		this.currentState.images.set(project, images);
+	}
+
+	/**
+	 * Appends log lines to a container
+	 */
+	addContainerLogs(
+		container: Id<'container'>,
+		logs: Array<Pick<ContainerLog, 'message'> & Partial<ContainerLog>>,
+	) {
+		const existing = this.currentState.logs.get(container);
+
+		if (!existing) {
+			throw new Error(`Container ${container} does not exist`);
+		}
+
+		for (const log of logs) {
+			existing.push({
+				timestamp: this.currentState.now(),
+				nonce: this.currentState.secret('nonce'),
+				level: 'stdout',
+				...log,
+			});
+		}
+	}
+
+	/**
+	 * Sets the resource usage that a container reports
+	 */
+	setContainerMetrics(
+		container: Id<'container'>,
+		metrics: Partial<ContainerMetrics> | null,
+	) {
+		const existing = this.currentState.containers.get(container);
+
+		if (!existing) {
+			throw new Error(`Container ${container} does not exist`);
+		}
+
+		existing.metrics = metrics && {
+			cpu_usage_percent: 0,
+			memory_usage_percent: 0,
+			memory_usage_bytes: 0,
+			...metrics,
+		};
+	}
+
+	/**
+	 * Moves a container to any state, for example to simulate a crash
+	 */
+	setContainerState(container: Id<'container'>, state: ContainerState) {
+		const existing = this.currentState.containers.get(container);
+
+		if (!existing) {
+			throw new Error(`Container ${container} does not exist`);
+		}
+
+		existing.state = state;
+
+		if (state === ContainerState.RUNNING) {
+			existing.uptime.last_start = this.currentState.now();
+		}
+
+		this.currentState.syncDeployment(existing.deployment_id);
+	}
+
+	/**
+	 * Queues a new build for a deployment, which becomes its active build
+	 */
+	createBuild(deployment: Id<'deployment'>, build: Partial<Build> = {}) {
+		const entry = this.currentState.deployments.get(deployment);
+
+		if (!entry) {
+			throw new Error(`Deployment ${deployment} does not exist`);
+		}
+
+		const created: Build = {
+			id: this.currentState.id('build'),
+			deployment_id: deployment,
+			metadata: null,
+			method: BuildMethod.CLI,
+			created_at: this.currentState.now(),
+			started_at: null,
+			finished_at: null,
+			digest: null,
+			state: BuildState.PENDING,
+			environment: null,
+			validation_failure: null,
+			...build,
+		};
+
+		this.currentState.builds.set(created.id, created);
+		entry.deployment.active_build = created;
+
+		return created;
+	}
+
+	/**
+	 * Appends log lines to a build
+	 */
+	addBuildLogs(
+		build: Id<'build'>,
+		logs: Array<Pick<BuildLog, 'message'> & Partial<BuildLog>>,
+	) {
+		if (!this.currentState.builds.has(build)) {
+			throw new Error(`Build ${build} does not exist`);
+		}
+
+		const existing = this.currentState.buildLogs.get(build) ?? [];
+
+		for (const log of logs) {
+			existing.push({
+				timestamp: this.currentState.now(),
+				nonce: this.currentState.secret('nonce'),
+				level: 'stdout',
+				...log,
+			});
+		}
+
+		this.currentState.buildLogs.set(build, existing);
+	}
+
+	/**
+	 * Changes a build, for example to move it to another state
+	 */
+	updateBuild(build: Id<'build'>, changes: Partial<Omit<Build, 'id'>>) {
+		const existing = this.currentState.builds.get(build);
+
+		if (!existing) {
+			throw new Error(`Build ${build} does not exist`);
+		}
+
+		Object.assign(existing, changes);
+	}
+
+	/**
+	 * Changes a rollout, for example to simulate one that is still going or has failed
+	 */
+	updateRollout(
+		rollout: Id<'rollout'>,
+		changes: Partial<Omit<DeploymentRollout, 'id'>>,
+	) {
+		const existing = this.currentState.rollouts.get(rollout);
+
+		if (!existing) {
+			throw new Error(`Rollout ${rollout} does not exist`);
+		}
+
+		Object.assign(existing, changes, {
+			last_updated_at: this.currentState.now(),
+		});
+	}
+
+	/**
+	 * A fetch function that answers requests from the fake's state
+	 */
+	public readonly fetch: FetchFunction = async (request, init) => {
+		const signal = init.signal ?? request.signal;
+
+		if (this.latency > 0) {
+			await sleep(this.latency, signal);
+		} else if (signal?.aborted) {
+			throw signal.reason;
+		}
+
+		try {
+			const data = await this.handle(request);
+
+			if (data === undefined) {
+				return new Response(null, {status: 204});
+			}
+
+			return json(200, {success: true, data});
+		} catch (error: unknown) {
+			const apiError =
+				error instanceof FakeAPIError
+					? error
+					: new FakeAPIError(
+							500,
+							'internal_server_error',
+							error instanceof Error ? error.message : String(error),
+					  );
+
+			return json(apiError.status, {
+				success: false,
+				error: {code: apiError.code, message: apiError.message},
+			});
+		}
+	};
+
+	private async handle(request: Request) {
+		const url = new URL(request.url);
+		const base = new URL(this.baseUrl);
+
+		const pathname = url.pathname.startsWith(base.pathname)
+			? url.pathname.slice(base.pathname.replace(/\/$/, '').length)
+			: url.pathname;
+
+		const {route, params} = this.router.match(request.method, pathname);
+
+		const auth = this.authenticate(request.headers.get('Authorization'));
+		const state = this.currentState;
+
+		const endpoint = getEndpoint(route.method, route.path);
+
+		if (
+			auth.type === 'ptk' &&
+			endpoint?.permission &&
+			!canProjectTokenAccess(auth.flags, endpoint)
+		) {
+			throw new FakeAPIError(
+				403,
+				'missing_permission',
+				`Project token is missing the ${endpoint.permission} permission`,
+			);
+		}
+
+		const text = await request.text();
+		const body = request.headers
+			.get('Content-Type')
+			?.includes('application/json')
+			? (JSON.parse(text) as unknown)
+			: text || undefined;
+
+		const context: RouteContext = {
+			request,
+			params,
+			query: url.searchParams,
+			body,
+			auth,
+
+			project() {
+				const requested =
+					params.project_id && params.project_id !== '@this'
+						? params.project_id
+						: url.searchParams.get('project');
+
+				if (auth.type === 'ptk') {
+					if (requested && requested !== auth.project) {
+						throw new FakeAPIError(
+							404,
+							'project_not_found',
+							'Project not found',
+						);
+					}
+
+					return auth.project;
+				}
+
+				if (!requested) {
+					throw new FakeAPIError(
+						400,
+						'project_required',
+						'A project must be provided when using bearer or PAT authentication',
+					);
+				}
+
+				if (!state.projects.has(requested as Id<'project'>)) {
+					throw new FakeAPIError(404, 'project_not_found', 'Project not found');
+				}
+
+				return requested as Id<'project'>;
+			},
+
+			assertAccess(project, resource) {
+				const allowed =
+					auth.type === 'ptk'
+						? auth.project === project
+						: state.projects.has(project);
+
+				if (!allowed) {
+					throw new FakeAPIError(
+						404,
+						`${resource}_not_found`,
+						`Could not find ${resource.replace(/_/g, ' ')}`,
+					);
+				}
+			},
+		};
+
+		return route.handler(context);
+	}
+
+	private authenticate(header: string | null): FakeAuth {
+		if (!header) {
+			throw new FakeAPIError(
+				401,
+				'unauthorized',
+				'Missing authorization header',
+			);
+		}
+
+		const [prefix] = header.split('_');
+
+		if (prefix === 'ptk') {
+			const entry = this.currentState.findProjectToken(header);
+
+			if (!entry) {
+				throw new FakeAPIError(401, 'invalid_auth', 'Invalid project token');
+			}
+
+			return {
+				type: 'ptk',
+				token: entry.token.token,
+				project: entry.project,
+				flags: entry.token.flags,
+			};
+		}
+
+		if (prefix === 'bearer' || prefix === 'pat') {
+			return {type: prefix, token: header};
+		}
+
+		throw new FakeAPIError(401, 'invalid_auth', 'Invalid authorization header');
+	}
+}
@@ -0,0 +1,255 @@
+import type {
+	Build,
+	BuildLog,
+	Channel,
+	ChannelToken,
+	Container,
+	ContainerLog,
+	Deployment,
+	Gateway,
+	Group,
+	HealthCheck,
+	Member,
+	PAT,
+	Project,
+	ProjectToken,
+	Room,
+	Secret,
+	SelfUser,
+	Webhook,
+} from '../../rest/index.ts';
+import {
+	ContainerState,
+	ProjectTier,
+	ProjectType,
+	Regions,
+	type DeploymentRollout,
+} from '../../rest/index.ts';
+import type {Node} from '../../rest/types/fleet.ts';
+import type {Id, IdPrefixes, Timestamp} from '../../util/types.ts';
+
+/**
+ * A manifest of an image pushed to the fake registry
+ * @public
+ */
+export interface FakeManifest {
+	digest: {digest: string; size: number; uploaded: string};
+	tag: string | null;
+}
+
+/**
+ * A message that was published to a channel or token
+ * @public
+ */
+export interface FakeMessage {
+	target: {type: 'channel'; id: string} | {type: 'token'; id: Id<'leap_token'>};
+	e: string;
+	d: unknown;
+}
+
+/**
+ * Everything stored by the fake API. Resources that don't carry a project ID
+ * themselves are stored alongside the project they belong to.
+ * @public
+ */
+export class FakeState {
+	private counter = 0;
+
+	public readonly user: SelfUser;
+
+	public readonly projects = new Map<Id<'project'>, Project>();
+	public readonly members = new Map<Id<'project'>, Member[]>();
+	public readonly projectTokens = new Map<
+		Id<'ptkid'>,
+		{project: Id<'project'>; token: ProjectToken}
+	>();
+	public readonly secrets = new Map<
+		Id<'secret'>,
+		{project: Id<'project'>; secret: Secret; value: string}
+	>();
+	public readonly webhooks = new Map<Id<'webhook'>, Webhook>();
+	public readonly pats = new Map<Id<'pat'>, PAT>();
+
+	public readonly channels = new Map<
+		string,
+		{channel: Channel; subscribers: Set<Id<'leap_token'>>}
+	>();
+	public readonly channelTokens = new Map<Id<'leap_token'>, ChannelToken>();
+	public readonly messages: FakeMessage[] = [];
+
+	public readonly deployments = new Map<
+		Id<'deployment'>,
+		{project: Id<'project'>; deployment: Deployment}
+	>();
+	public readonly containers = new Map<Id<'container'>, Container>();
+	public readonly logs = new Map<Id<'container'>, ContainerLog[]>();
+	public readonly gateways = new Map<Id<'gateway'>, Gateway>();
+	public readonly healthChecks = new Map<Id<'deployment'>, HealthCheck>();
+	public readonly rollouts = new Map<Id<'rollout'>, DeploymentRollout>();
+	public readonly builds = new Map<Id<'build'>, Build>();
+	public readonly buildLogs = new Map<Id<'build'>, BuildLog[]>();
+	public readonly groups = new Map<Id<'deployment_group'>, Group>();
+
+	public readonly nodes = new Map<Id<'fleet_node'>, Node>();
+	public readonly images = new Map<
+		Id<'project'>,
+		Map<string, FakeManifest[]>
+	>();
+	public readonly rooms = new Map<
+		Id<'pipe_room'>,
+		{project: Id<'project'>; room: Room}
+	>();
+
+	constructor() {
+		this.user = {
+			id: this.id('user'),
+			name: 'Fake User',
+			username: 'fake',
+			email: 'fake@example.com',
+			created_at: this.now(),
+			email_verified: true,
+			totp_enabled: false,
+			webauthn_enabled: false,
+			mfa_enabled: false,
+			admin: false,
+		};
+	}
+
+	/**
+	 * Generates a new, unique ID
+	 */
+	id<T extends IdPrefixes>(prefix: T): Id<T> {
+		this.counter++;
+		return `${prefix}_${this.counter.toString(36).padStart(8, '0')}`;
+	}
+
+	/**
+	 * Generates a random secret string
+	 */
+	secret(prefix: string) {
+		const bytes = Array.from({length: 16}, () =>
+			Math.floor(Math.random() * 256)
+				.toString(16)
+				.padStart(2, '0'),
+		);
+
+		return `${prefix}_${bytes.join('')}`;
+	}
+
+	now() {
+		return new Date().toISOString() as Timestamp;
+	}
+
+	createProject(name = 'Fake Project') {
+		const project: Project = {
+			id: this.id('project'),
+			name,
+			tier: ProjectTier.PAID,
+			created_at: this.now(),
+			icon: null,
+			namespace: name.toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+			type: ProjectType.REGULAR,
+			default_quotas: {vcpu: 64, ram: 128, volume: 500},
+			quota_overrides: {},
+			quota_usage: {vcpu: 0, ram: 0, volume: 0},
+		};
+
+		this.projects.set(project.id, project);
+
+		this.members.set(project.id, [
+			{
+				id: this.id('pm'),
+				name: this.user.name,
+				username: this.user.username,
+				created_at: this.user.created_at,
+				role: {id: this.id('role'), name: 'Owner', flags: 0},
+				mfa_enabled: false,
+				joined_at: this.now(),
+			},
+		]);
+
+		return project;
+	}
+
+	createProjectToken(project: Id<'project'>, flags: number) {
+		const token: ProjectToken = {
+			id: this.id('ptkid'),
+			token: this.secret('ptk') as Id<'ptk'>,
+			created_at: this.now(),
+			flags,
+		};
+
+		this.projectTokens.set(token.id, {project, token});
+
+		return token;
+	}
+
+	createContainer(deployment: Deployment) {
+		const container: Container = {
+			id: this.id('container'),
+			created_at: this.now(),
+			region: Regions.US_EAST_1,
+			uptime: {last_start: this.now()},
+			metrics: null,
+			metadata: {},
+			overrides: null,
+			type: deployment.config.type,
+			volume: deployment.config.volume ?? null,
+			internal_ip: `10.0.${Math.floor(this.counter / 256) % 256}.${
+				this.counter % 256
+			}`,
+			deployment_id: deployment.id,
+			state: ContainerState.RUNNING,
+		};
+
+		this.containers.set(container.id, container);
+		this.logs.set(container.id, []);
+		this.syncDeployment(deployment.id);
+
+		return container;
+	}
+
+	deleteContainer(container: Container) {
+		this.containers.delete(container.id);
+		this.logs.delete(container.id);
+		this.syncDeployment(container.deployment_id);
+	}
+
+	getContainers(deployment: Id<'deployment'>) {
+		return [...this.containers.values()].filter(
+			container => container.deployment_id === deployment,
+		);
+	}
+
+	/**
+	 * Recalculates the container counts of a deployment
+	 */
+	syncDeployment(id: Id<'deployment'>) {
+		const entry = this.deployments.get(id);
+
+		if (!entry) {
+			return;
+		}
+
+		const containers = this.getContainers(id);
+
+		entry.deployment.container_count = containers.length;
+		entry.deployment.target_container_count = containers.length;
+		entry.deployment.running_container_count = containers.filter(
+			container => container.state === ContainerState.RUNNING,
+		).length;
+	}
+
+	/**
+	 * Finds the project a project token belongs to
+	 */
+	findProjectToken(token: string) {
+		for (const entry of this.projectTokens.values()) {
+			if (entry.token.token === token) {
+				return entry;
+			}
+		}
+
+		return null;
+	}
+}
@@ -5,6 +5,7 @@ import {
 	RuntimeType,
 	VolumeFormat,
 } from '../../rest/types/ignite.ts';
+import type {ManifestIssue} from '../../rest/errors.ts';
 import {byteUnits, parseSize, isValidByteString} from '../../util/size.ts';
 
 export const deploymentMetaDataSchema = z.object({
@@ -136,3 +137,22 @@ export const deploymentConfigSchema = z.object({
 		.default(ContainerStrategy.MANUAL),
 	resources: containerResourcesSchema,
 });
+
+/**
+ * Validates a deployment config with {@link deploymentConfigSchema}
+ *
+ * @param config - The config to validate
+ * @returns Every problem with the config, or an empty array if it is valid
+ */
+export function validateDeploymentConfig(config: unknown): ManifestIssue[] {
+	const result = deploymentConfigSchema.safeParse(config);
+
+	if (result.success) {
+		return [];
+	}
+
+	return result.error.issues.map(issue => ({
+		path: issue.path.join('.') || '(root)',
+		message: issue.message,
+	}));
+}
@@ -1,3 +1,4 @@
 export * from './ids.ts';
 export * from './presets.ts';
 export * from './ignite.ts';
+export * from './responses.ts';
@@ -0,0 +1,651 @@
+import {z} from 'zod';
+import type {EndpointKey} from '../../rest/endpoints.ts';
+import type {ResponseMismatch} from '../../rest/errors.ts';
+import {ChannelType} from '../../rest/types/channels.ts';
+import {FleetSchedulingState, FleetStatus} from '../../rest/types/fleet.ts';
+import {
+	BuildEnvironmentType,
+	BuildMethod,
+	BuildState,
+	ContainerState,
+	ContainerStrategy,
+	DomainState,
+	GatewayType,
+	Regions,
+	RestartPolicy,
+	RolloutState,
+	RuntimeType,
+	VolumeFormat,
+} from '../../rest/types/ignite.ts';
+import {ProjectTier, ProjectType} from '../../rest/types/projects.ts';
+import {isValidByteString} from '../../util/size.ts';
+import {hopId} from './ids.ts';
+
+export const timestampSchema = z
+	.string()
+	.refine(value => !isNaN(Date.parse(value)), 'Expected an ISO 8601 timestamp');
+
+const byteSizeSchema = z
+	.string()
+	.refine(
+		value => isValidByteString(value.toUpperCase()),
+		'Expected a byte size string, e.g. 512MB',
+	);
+
+// Endpoints that return nothing may still send an empty body back
+const emptySchema = z.unknown();
+
+// Users & projects
+
+export const userSchema = z.object({
+	id: hopId('user'),
+	name: z.string(),
+	username: z.string(),
+	email: z.string(),
+	created_at: timestampSchema,
+});
+
+export const selfUserSchema = userSchema.extend({
+	email_verified: z.boolean(),
+	totp_enabled: z.boolean(),
+	webauthn_enabled: z.boolean(),
+	mfa_enabled: z.boolean(),
+	admin: z.boolean(),
+});
+
+export const patSchema = z.object({
+	id: hopId('pat'),
+	name: z.string().nullable(),
+	pat: z.string(),
+	created_at: timestampSchema,
+});
+
+export const memberRoleSchema = z.object({
+	id: hopId('role'),
+	name: z.string(),
+	flags: z.number(),
+});
+
+export const memberSchema = userSchema.omit({id: true, email: true}).extend({
+	id: hopId('pm'),
+	role: memberRoleSchema,
+	mfa_enabled: z.boolean(),
+	joined_at: timestampSchema,
+});
+
+const quotasSchema = z.object({
+	vcpu: z.number(),
+	ram: z.number(),
+	volume: z.number(),
+});
+
+export const projectSchema = z.object({
+	id: hopId('project'),
+	name: z.string(),
+	tier: z.nativeEnum(ProjectTier),
+	created_at: timestampSchema,
+	icon: z.string().nullable(),
+	namespace: z.string(),
+	type: z.nativeEnum(ProjectType),
+	default_quotas: quotasSchema,
+	quota_overrides: z.object({}),
+	quota_usage: quotasSchema,
+});
+
+export const projectTokenSchema = z.object({
+	id: hopId('ptkid'),
+	token: z.string(),
+	created_at: timestampSchema,
+	flags: z.number(),
+});
+
+export const secretSchema = z.object({
+	id: hopId('secret'),
+	name: z.string(),
+	digest: z.string(),
+	created_at: timestampSchema,
+	in_use_by: z.array(hopId('deployment')),
+});
+
+export const webhookSchema = z.object({
+	id: hopId('webhook'),
+	project_id: hopId('project'),
+	created_at: timestampSchema,
+	events: z.array(z.string()),
+	secret: z.string(),
+	type: z.literal('http'),
+	webhook_url: z.string(),
+});
+
+// Channels
+
+export const channelSchema = z.object({
+	id: z.string(),
+	project: projectSchema,
+	state: z.record(z.unknown()),
+	capabilities: z.number(),
+	created_at: timestampSchema,
+	type: z.nativeEnum(ChannelType),
+});
+
+export const channelTokenSchema = z.object({
+	id: hopId('leap_token'),
+	state: z.record(z.unknown()),
+	project_id: hopId('project'),
+	is_online: z.boolean(),
+});
+
+// Fleet
+
+export const nodeSchema = z.object({
+	id: hopId('fleet_node'),
+	project_id: hopId('project'),
+	fleet_group: hopId('fleet_group').nullable(),
+	name: z.string(),
+	scheduling_state: z.nativeEnum(FleetSchedulingState),
+	status: z.nativeEnum(FleetStatus),
+	last_heartbeat: timestampSchema,
+	metadata: z
+		.object({
+			public_ips: z.array(
+				z.object({ip: z.string(), type: z.enum(['ipv4', 'ipv6'])}),
+			),
+			country: z.string(),
+			hostname: z.string(),
+			arch: z.string(),
+			os: z.string(),
+			engine: z.literal('podman'),
+		})
+		.nullable(),
+	bootstrapped: z.boolean(),
+	created_at: timestampSchema,
+});
+
+// Pipe
+
+export const roomSchema = z.object({
+	id: hopId('pipe_room'),
+	name: z.string(),
+	created_at: timestampSchema,
+	ingest_protocol: z.literal('rtmp'),
+	delivery_protocols: z.array(z.enum(['webrtc', 'hls'])),
+	join_token: z.string(),
+	ingest_region: z.nativeEnum(Regions),
+	ingest_endpoint: z.string(),
+	state: z.enum(['live', 'offline']),
+});
+
+// Ignite
+
+export const volumeDefinitionSchema = z.object({
+	fs: z.nativeEnum(VolumeFormat),
+	size: byteSizeSchema,
+	mount_path: z.string(),
+});
+
+export const resourcesSchema = z.object({
+	vcpu: z.number(),
+	ram: byteSizeSchema,
+});
+
+export const containerMetricsSchema = z.object({
+	cpu_usage_percent: z.number(),
+	memory_usage_percent: z.number(),
+	memory_usage_bytes: z.number(),
+});
+
+export const containerSchema = z.object({
+	id: hopId('container'),
+	created_at: timestampSchema,
+	region: z.nativeEnum(Regions),
+	uptime: z.object({last_start: timestampSchema}),
+	metrics: containerMetricsSchema.nullable(),
+	metadata: z.object({last_exit_code: z.number().optional()}),
+	overrides: z
+		.object({resources: resourcesSchema.partial().optional()})
+		.nullable(),
+	type: z.nativeEnum(RuntimeType),
+	volume: volumeDefinitionSchema.nullable(),
+	internal_ip: z.string(),
+	deployment_id: hopId('deployment'),
+	state: z.nativeEnum(ContainerState),
+});
+
+export const containerLogSchema = z.object({
+	timestamp: timestampSchema,
+	message: z.string(),
+	nonce: z.string(),
+	level: z.enum(['stdout', 'stderr', 'error', 'info']),
+});
+
+export const buildLogSchema = z.object({
+	timestamp: timestampSchema,
+	message: z.string(),
+	nonce: z.string(),
+	level: z.enum(['stdout', 'stderr', 'info']),
+});
+
+export const buildSchema = z.object({
+	id: hopId('build'),
+	deployment_id: hopId('deployment'),
+	metadata: z
+		.object({
+			account_type: z.enum(['user', 'organization']).optional(),
+			author: z
+				.object({avatar_url: z.string(), username: z.string()})
+				.optional(),
+			repo_id: z.number(),
+			repo_name: z.string(),
+			branch: z.string(),
+			commit_sha: z.string(),
+			commit_msg: z.string(),
+			commit_url: z.string().optional(),
+		})
+		.nullable(),
+	method: z.nativeEnum(BuildMethod),
+	created_at: timestampSchema.optional(),
+	started_at: timestampSchema.nullable(),
+	finished_at: timestampSchema.nullable(),
+	digest: z.string().nullable(),
+	state: z.nativeEnum(BuildState),
+	environment: z
+		.object({
+			type: z.nativeEnum(BuildEnvironmentType),
+			nix_plan: z
+				.object({
+					language: z.string().nullable(),
+					pkgs: z.array(z.string()).nullable(),
+					cmds: z.object({
+						build: z.string().nullable(),
+						start: z.string().nullable(),
+						install: z.string().nullable(),
+					}),
+				})
+				.nullable()
+				.optional(),
+		})
+		.nullable(),
+	validation_failure: z
+		.object({reason: z.string(), help_link: z.string().nullable()})
+		.nullable(),
+});
+
+export const deploymentRolloutSchema = z.object({
+	id: hopId('rollout'),
+	deployment_id: hopId('deployment'),
+	count: z.number(),
+	created_at: timestampSchema,
+	state: z.nativeEnum(RolloutState),
+	build: buildSchema.nullable(),
+	init_container_id: z.string().nullable(),
+	health_check_failed: z.boolean(),
+	last_updated_at: timestampSchema,
+	acknowledged: z.boolean(),
+});
+
+export const deploymentTargetSchema = z.object({
+	type: z.enum(['hop', 'fleet_node']),
+	data: nodeSchema.nullable(),
+});
+
+export const deploymentMetadataSchema = z.object({
+	container_port_mappings: z.record(z.array(z.string())),
+	ignored_boarding: z.boolean().optional(),
+	created_from_preset: z.string().optional(),
+	created_first_gateway: z.boolean().optional(),
+	ports_acked: z.array(z.string()).optional(),
+});
+
+export const deploymentSchema = z.object({
+	id: hopId('deployment'),
+	name: z.string(),
+	container_count: z.number(),
+	created_at: timestampSchema,
+	config: z.object({
+		container_strategy: z.nativeEnum(ContainerStrategy),
+		type: z.nativeEnum(RuntimeType),
+		version: z.literal('12-12-2022'),
+		cmd: z.array(z.string()).optional(),
+		image: z.object({
+			name: z.string().nullable(),
+			auth: z.object({username: z.string(), password: z.string()}).nullable(),
+			gh_repo: z
+				.object({
+					repo_id: z.number(),
+					full_name: z.string(),
+					branch: z.string(),
+				})
+				.nullable(),
+		}),
+		env: z.record(z.string()),
+		resources: resourcesSchema,
+		restart_policy: z.nativeEnum(RestartPolicy),
+		volume: volumeDefinitionSchema.optional(),
+		entrypoint: z.array(z.string()).optional(),
+	}),
+	active_rollout: deploymentRolloutSchema.nullable(),
+	active_build: buildSchema.nullable(),
+	build_id: hopId('build').nullable(),
+	latest_rollout: deploymentRolloutSchema.nullable(),
+	running_container_count: z.number(),
+	target_container_count: z.number(),
+	metadata: deploymentMetadataSchema.nullable(),
+	build_cache_enabled: z.boolean(),
+	build_settings: z
+		.object({
+			root_directory: z.string().optional(),
+			dockerfile: z.string().optional(),
+		})
+		.optional(),
+	group_id: hopId('deployment_group').nullable(),
+	target: deploymentTargetSchema.optional(),
+});
+
+export const groupSchema = z.object({
+	id: hopId('deployment_group'),
+	name: z.string(),
+	project_id: hopId('project'),
+	position: z.number(),
+	created_at: timestampSchema,
+});
+
+export const healthCheckSchema = z.object({
+	id: hopId('health_check'),
+	protocol: z.literal('http'),
+	path: z.string(),
+	port: z.number(),
+	interval: z.number(),
+	timeout: z.number(),
+	initial_delay: z.number(),
+	max_retries: z.number(),
+	created_at: timestampSchema,
+});
+
+export const domainSchema = z.object({
+	id: hopId('domain'),
+	domain: z.string(),
+	state: z.nativeEnum(DomainState),
+	created_at: timestampSchema,
+	redirect: z
+		.object({
+			url: z.string(),
+			status_code: z.union([
+				z.literal(301),
+				z.literal(302),
+				z.literal(307),
+				z.literal(308),
+			]),
+		})
+		.nullable(),
+});
+
+export const gatewaySchema = z.object({
+	id: hopId('gateway'),
+	type: z.nativeEnum(GatewayType),
+	name: z.string(),
+	protocol: z.literal('http').nullable(),
+	deployment_id: hopId('deployment'),
+	created_at: timestampSchema,
+	hopsh_domain: z.string().endsWith('.hop.sh').nullable(),
+	hopsh_domain_enabled: z.boolean(),
+	internal_domain: z.string().endsWith('.hop').nullable(),
+	target_port: z.number().nullable(),
+	domains: z.array(domainSchema),
+});
+
+const storageSchema = z
+	.object({provisioned_size: z.number(), used_size: z.number()})
+	.nullable();
+
+const registryManifestSchema = z.object({
+	digest: z.object({
+		digest: z.string(),
+		size: z.number(),
+		uploaded: z.string(),
+	}),
+	tag: z.string().nullable(),
+});
+
+/**
+ * Schemas for the `data` of a successful response from every endpoint
+ * @public
+ */
+export const responseSchemas: Record<EndpointKey, z.ZodTypeAny> = {
+	// Channels
+	'GET /v1/channels': z.object({channels: z.array(channelSchema)}),
+	'POST /v1/channels': z.object({channel: channelSchema}),
+	'PUT /v1/channels/:channel_id': z.object({channel: channelSchema}),
+	'GET /v1/channels/:channel_id': z.object({channel: channelSchema}),
+	'DELETE /v1/channels/:channel_id': emptySchema,
+	'GET /v1/channels/:channel_id/state': z.object({
+		state: z.record(z.unknown()),
+	}),
+	'PUT /v1/channels/:channel_id/state': emptySchema,
+	'PATCH /v1/channels/:channel_id/state': emptySchema,
+	'POST /v1/channels/:channel_id/messages': emptySchema,
+	'GET /v1/channels/:channel_id/tokens': z.object({
+		tokens: z.array(channelTokenSchema),
+	}),
+	'GET /v1/channels/:channel_id/stats': z.object({
+		stats: z.object({online_count: z.number()}),
+	}),
+	'PUT /v1/channels/:channel_id/subscribers/:token': emptySchema,
+	'DELETE /v1/channels/:channel_id/subscribers/:token': emptySchema,
+	'POST /v1/channels/tokens': z.object({token: channelTokenSchema}),
+	'GET /v1/channels/tokens/:token': z.object({token: channelTokenSchema}),
+	'PATCH /v1/channels/tokens/:token': z.object({token: channelTokenSchema}),
+	'DELETE /v1/channels/tokens/:token': emptySchema,
+	'POST /v1/channels/tokens/:token/messages': emptySchema,
+
+	// Fleet
+	'GET /v1/fleet/nodes': z.object({nodes: z.array(nodeSchema)}),
+	'POST /v1/fleet/nodes': z.object({node: nodeSchema, token: z.string()}),
+	'POST /v1/fleet/nodes/:node_id/token': z.object({token: z.string()}),
+	'PATCH /v1/fleet/nodes/:node_id': z.object({node: nodeSchema}),
+	'DELETE /v1/fleet/nodes/:node_id': emptySchema,
+
+	// Ignite
+	'GET /v1/ignite/deployments': z.object({
+		deployments: z.array(deploymentSchema),
+		groups: z.array(groupSchema),
+	}),
+	'POST /v1/ignite/deployments': z.object({deployment: deploymentSchema}),
+	'GET /v1/ignite/deployments/search': z.object({deployment: deploymentSchema}),
+	'GET /v1/ignite/deployments/:deployment_id': z.object({
+		deployment: deploymentSchema,
+	}),
+	'PATCH /v1/ignite/deployments/:deployment_id': z.object({
+		deployment: deploymentSchema,
+	}),
+	'DELETE /v1/ignite/deployments/:deployment_id': emptySchema,
+	'PATCH /v1/ignite/deployments/:deployment_id/metadata': z.object({
+		deployment: deploymentSchema,
+	}),
+	'GET /v1/ignite/deployments/:deployment_id/storage': z.object({
+		volume: storageSchema,
+		build_cache: storageSchema,
+	}),
+	'POST /v1/ignite/deployments/:deployment_id/rollouts': z.object({
+		rollout: deploymentRolloutSchema,
+	}),
+	'GET /v1/ignite/deployments/:deployment_id/containers': z.object({
+		containers: z.array(containerSchema),
+	}),
+	'POST /v1/ignite/deployments/:deployment_id/containers': z.object({
+		container: containerSchema,
+	}),
+	'POST /v1/ignite/deployments/:deployment_id/containers/:container_id':
+		z.never(),
+	'DELETE /v1/ignite/containers/:container_id': z
+		.object({container: containerSchema})
+		.optional(),
+	'GET /v1/ignite/containers/:container_id': z.object({
+		container: containerSchema,
+	}),
+	'GET /v1/ignite/containers/:container_id/logs': z.object({
+		logs: z.array(containerLogSchema),
+	}),
+	'PUT /v1/ignite/containers/:container_id/state': emptySchema,
+	'GET /v1/ignite/deployments/:deployment_id/health-check': z.object({
+		health_check: healthCheckSchema,
+	}),
+	'POST /v1/ignite/deployments/:deployment_id/health-check': z.object({
+		health_check: healthCheckSchema,
+	}),
+	'PATCH /v1/ignite/deployments/:deployment_id/health-check': z.object({
+		health_check: healthCheckSchema,
+	}),
+	'GET /v1/ignite/deployments/:deployment_id/gateways': z.object({
+		gateways: z.array(gatewaySchema),
+	}),
+	'POST /v1/ignite/deployments/:deployment_id/gateways': z.object({
+		gateway: gatewaySchema,
+	}),
+	'GET /v1/ignite/gateways/:gateway_id': z.object({gateway: gatewaySchema}),
+	'PATCH /v1/ignite/gateways/:gateway_id': z.object({gateway: gatewaySchema}),
+	'DELETE /v1/ignite/gateways/:gateway_id': emptySchema,
+	'GET /v1/ignite/builds/:build_id': z.object({build: buildSchema}),
+	'GET /v1/ignite/builds/:build_id/logs': z.object({
+		logs: z.array(buildLogSchema),
+	}),
+	'POST /v1/ignite/builds/:build_id/cancel': z.object({build: buildSchema}),
+	'GET /v1/ignite/deployments/:deployment_id/builds': z.object({
+		builds: z.array(buildSchema),
+	}),
+	'POST /v1/ignite/deployments/:deployment_id/builds': z.object({
+		build: buildSchema,
+	}),
+	'POST /v1/ignite/gateways/:gateway_id/domains': emptySchema,
+	'GET /v1/ignite/domains/:domain_id': z.object({domain: domainSchema}),
+	'PATCH /v1/ignite/domains/:domain_id': z.object({domain: domainSchema}),
+	'DELETE /v1/ignite/domains/:domain_id': emptySchema,
+	'POST /v1/ignite/groups': z.object({group: groupSchema}),
+	'PATCH /v1/ignite/groups/:group_id': z.object({group: groupSchema}),
+	'DELETE /v1/ignite/groups/:group_id': emptySchema,
+	'PUT /v1/ignite/groups/:group_id/deployments/:deployment_id': z.object({
+		group: groupSchema,
+	}),
+	'DELETE /v1/ignite/deployments/:deployment_id/group': emptySchema,
+
+	// Pipe
+	'GET /v1/pipe/rooms': z.object({rooms: z.array(roomSchema)}),
+	'POST /v1/pipe/rooms': z.object({room: roomSchema}),
+	'DELETE /v1/pipe/rooms/:room_id': emptySchema,
+
+	// Projects
+	'GET /v1/projects/:project_id/members': z.object({
+		members: z.array(memberSchema),
+	}),
+	'GET /v1/projects/@this/members': z.object({members: z.array(memberSchema)}),
+	'GET /v1/projects/:project_id/members/@me': z.object({
+		project_member: memberSchema,
+	}),
+	'GET /v1/projects/:project_id/tokens': z.object({
+		project_tokens: z.array(projectTokenSchema),
+	}),
+	'GET /v1/projects/@this/tokens': z.object({
+		project_tokens: z.array(projectTokenSchema),
+	}),
+	'POST /v1/projects/:project_id/tokens': z.object({
+		project_token: projectTokenSchema.extend({project: projectSchema}),
+	}),
+	'POST /v1/projects/@this/tokens': z.object({
+		project_token: projectTokenSchema.extend({project: projectSchema}),
+	}),
+	'DELETE /v1/projects/:project_id/tokens/:project_token_id': emptySchema,
+	'DELETE /v1/projects/@this/tokens/:project_token_id': emptySchema,
+	'GET /v1/projects/:project_id/secrets': z.object({
+		secrets: z.array(secretSchema),
+	}),
+	'GET /v1/projects/@this/secrets': z.object({secrets: z.array(secretSchema)}),
+	'PUT /v1/projects/:project_id/secrets/:name': z.object({
+		secret: secretSchema,
+	}),
+	'PUT /v1/projects/@this/secrets/:name': z.object({secret: secretSchema}),
+	'DELETE /v1/projects/:project_id/secrets/:secret_id': emptySchema,
+	'DELETE /v1/projects/@this/secrets/:secret_id': emptySchema,
+	'GET /v1/projects/:project_id/webhooks': z.object({
+		webhooks: z.array(webhookSchema),
+	}),
+	'GET /v1/projects/@this/webhooks': z.object({
+		webhooks: z.array(webhookSchema),
+	}),
+	'POST /v1/projects/:project_id/webhooks': z.object({webhook: webhookSchema}),
+	'POST /v1/projects/@this/webhooks': z.object({webhook: webhookSchema}),
+	'PATCH /v1/projects/:project_id/webhooks/:webhook_id': z.object({
+		webhook: webhookSchema,
+	}),
+	'PATCH /v1/projects/@this/webhooks/:webhook_id': z.object({
+		webhook: webhookSchema,
+	}),
+	'DELETE /v1/projects/:project_id/webhooks/:webhook_id': emptySchema,
+	'DELETE /v1/projects/@this/webhooks/:webhook_id': emptySchema,
+	'POST /v1/projects/:project_id/webhooks/:webhook_id/regenerate': z.object({
+		secret: z.string(),
+	}),
+	'POST /v1/projects/@this/webhooks/:webhook_id/regenerate': z.object({
+		secret: z.string(),
+	}),
+
+	// Registry
+	'GET /v1/registry/images': z.object({images: z.array(z.string())}),
+	'GET /v1/registry/images/:image/manifests': z.object({
+		manifests: z.array(registryManifestSchema),
+	}),
+	'DELETE /v1/registry/images/:image': emptySchema,
+
+	// Users
+	'GET /v1/users/@me': z.object({
+		projects: z.array(projectSchema),
+		user: selfUserSchema,
+		project_member_role_map: z.record(memberRoleSchema),
+		leap_token: z.string().nullable(),
+	}),
+	'GET /v1/users/@me/pats': z.object({pats: z.array(patSchema)}),
+	'POST /v1/users/@me/pats': z.object({pat: patSchema}),
+	'DELETE /v1/users/@me/pats/:pat_id': emptySchema,
+};
+
+function formatPath(path: ReadonlyArray<string | number>) {
+	if (path.length === 0) {
+		return '(root)';
+	}
+
+	return path.reduce<string>((result, segment) => {
+		if (typeof segment === 'number') {
+			return `${result}[${segment}]`;
+		}
+
+		return result ? `${result}.${segment}` : segment;
+	}, '');
+}
+
+/**
+ * Validates the data of a successful response against the schema for its endpoint
+ *
+ * @param endpoint - The endpoint the response came from, e.g. `GET /v1/channels/:channel_id`
+ * @param data - The `data` field of the response
+ * @returns Every mismatch that was found, or an empty array if the data is valid or the endpoint is unknown
+ * @public
+ */
+export function validateResponse(
+	endpoint: string,
+	data: unknown,
+): ResponseMismatch[] {
+	const schema = responseSchemas[endpoint as EndpointKey];
+
+	if (!schema) {
+		return [];
+	}
+
+	const result = schema.safeParse(data);
+
+	if (result.success) {
+		return [];
+	}
+
+	return result.error.issues.map(issue => ({
+		path: formatPath(issue.path),
+		message: issue.message,
+	}));
+}
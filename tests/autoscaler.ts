@@ -0,0 +1,92 @@
+import assert from 'node:assert/strict';
+import {test} from 'node:test';
+import {sdks} from '../src/index.ts';
+import {setup} from './fixtures.ts';
+
+export function autoscalerTests() {
+	test('The autoscaler scales with container usage', async () => {
+		const {api, hop, deployment} = await setup();
+
+		const decisions: sdks.AutoscalerDecision[] = [];
+
+		const autoscaler = new sdks.Autoscaler(hop, deployment.id, {
+			min: 1,
+			max: 3,
+			target: {cpu: 50},
+			step: {up: 2},
+			cooldown: {up: 0, down: 60_000},
+			onDecision: decision => decisions.push(decision),
+		});
+
+		const setUsage = async (cpu: number) => {
+			const containers = await hop.ignite.deployments.getContainers(
+				deployment.id,
+			);
+
+			for (const container of containers) {
+				api.setContainerMetrics(container.id, {cpu_usage_percent: cpu});
+			}
+		};
+
+		await autoscaler.evaluate();
+		await setUsage(50);
+		await autoscaler.evaluate();
+		await setUsage(100);
+		await autoscaler.evaluate();
+		await setUsage(100);
+		await autoscaler.evaluate();
+		await setUsage(10);
+		await autoscaler.evaluate();
+
+		assert.deepEqual(
+			decisions.map(({action, reason, from, to}) => [action, reason, from, to]),
+			[
+				['scale_up', 'bounds', 0, 1],
+				['hold', 'on_target', 1, 1],
+				['scale_up', 'utilization', 1, 2],
+				['scale_up', 'utilization', 2, 3],
+				['hold', 'cooldown', 3, 3],
+			],
+		);
+
+		assert.equal(decisions[2]?.utilization.cpu, 100);
+		assert.equal(decisions[2]?.utilization.memory, 0);
+
+		const containers = await hop.ignite.deployments.getContainers(
+			deployment.id,
+		);
+
+		assert.equal(containers.length, 3);
+	});
+
+	test('A failed scale still starts the cooldown', async () => {
+		let failing = false;
+
+		const {api, hop, deployment} = await setup([
+			async (request, next) => {
+				if (failing && request.method === 'POST') {
+					throw new Error('Container failed');
+				}
+
+				return next(request);
+			},
+		]);
+
+		const container = await hop.ignite.containers.create(deployment.id);
+		api.setContainerMetrics(container.id, {cpu_usage_percent: 100});
+
+		const autoscaler = new sdks.Autoscaler(hop, deployment.id, {
+			min: 1,
+			max: 3,
+			target: {cpu: 50},
+			wait: {interval: 5},
+		});
+
+		failing = true;
+		await assert.rejects(() => autoscaler.evaluate(), /Container failed/);
+
+		failing = false;
+		const decision = await autoscaler.evaluate();
+		assert.equal(decision.reason, 'cooldown');
+	});
+}
@@ -0,0 +1,152 @@
+import assert from 'node:assert/strict';
+import {test} from 'node:test';
+import {
+	ContainerState,
+	HopCanaryFailedError,
+	sdks,
+	type Middleware,
+} from '../src/index.ts';
+import {deploymentConfig, setup} from './fixtures.ts';
+
+async function setupCanary(middleware: Middleware[] = []) {
+	const {api, hop, deployment: stable} = await setup(middleware);
+
+	const canary = await hop.ignite.deployments.create({
+		...deploymentConfig,
+		name: 'api-canary',
+		image: {name: 'api:2', auth: null, gh_repo: null},
+	});
+
+	await hop.ignite.deployments.scale(stable.id, 4);
+
+	const counts = async () =>
+		Promise.all(
+			[stable.id, canary.id].map(
+				async id =>
+					(await hop.ignite.deployments.get(id)).target_container_count,
+			),
+		);
+
+	return {api, hop, stable, canary, counts};
+}
+
+export function canaryTests() {
+	test('A canary shifts containers step by step', async () => {
+		const {hop, stable, canary, counts} = await setupCanary();
+		const events: sdks.CanaryStepEvent[] = [];
+
+		const controller = new sdks.CanaryController(hop, stable.id, canary.id, {
+			steps: [25, 50, 100],
+			bake: 0,
+			wait: {interval: 5},
+			onStep: event => events.push(event),
+		});
+
+		await controller.run();
+
+		assert.deepEqual(await counts(), [0, 4]);
+		assert.deepEqual(
+			events.map(({type, step, containers}) => [
+				type,
+				step,
+				containers.stable,
+				containers.canary,
+			]),
+			[
+				['shift', 1, 4, 1],
+				['healthy', 1, 3, 1],
+				['shift', 2, 3, 2],
+				['healthy', 2, 2, 2],
+				['shift', 3, 2, 4],
+				['healthy', 3, 0, 4],
+				['promoted', 3, 0, 4],
+			],
+		);
+	});
+
+	test('A canary is rolled back when it regresses', async () => {
+		const {api, hop, stable, canary, counts} = await setupCanary();
+		const events: sdks.CanaryStepEvent[] = [];
+
+		const controller = new sdks.CanaryController(hop, stable.id, canary.id, {
+			steps: [25, 50, 100],
+			bake: 0,
+			maxFailedHealthChecks: 1,
+			wait: {interval: 5},
+			onStep(event) {
+				events.push(event);
+
+				if (event.type !== 'shift') {
+					return;
+				}
+
+				const [first, second] = api.state.getContainers(canary.id);
+
+				// The first step only sees a failed health check, the second also sees a crashed container
+				controller.reportHealthCheckEvent({
+					state: 'failed',
+					container_id: first!.id,
+					deployment_id: canary.id,
+				});
+
+				if (second) {
+					api.setContainerState(second.id, ContainerState.FAILED);
+				}
+			},
+		});
+
+		const error = await controller.run().then(
+			() => null,
+			(error: unknown) => error,
+		);
+
+		assert.ok(error instanceof HopCanaryFailedError);
+		assert.equal(error.step, 2);
+		assert.equal(error.problems.length, 2);
+		assert.deepEqual(await counts(), [4, 0]);
+		assert.deepEqual(
+			events.map(({type}) => type),
+			['shift', 'healthy', 'shift', 'regression', 'rolled_back'],
+		);
+	});
+
+	test('A failed rollback keeps the error that stopped the canary', async () => {
+		let failing = false;
+
+		const failWrites: Middleware = async (request, next) => {
+			if (failing && request.method !== 'GET') {
+				throw new Error('Could not scale');
+			}
+
+			return next(request);
+		};
+
+		const {api, hop, stable, canary} = await setupCanary([failWrites]);
+
+		const controller = new sdks.CanaryController(hop, stable.id, canary.id, {
+			steps: [25, 100],
+			bake: 0,
+			wait: {interval: 5},
+			onStep(event) {
+				if (event.type === 'shift') {
+					const [container] = api.state.getContainers(canary.id);
+					api.setContainerState(container!.id, ContainerState.FAILED);
+				}
+
+				if (event.type === 'regression') {
+					failing = true;
+				}
+			},
+		});
+
+		const error = await controller.run().then(
+			() => null,
+			(error: unknown) => error,
+		);
+
+		assert.ok(error instanceof HopCanaryFailedError);
+		assert.equal(error.step, 1);
+		assert.ok(error.cause instanceof Error);
+		assert.match(error.cause.message, /Could not scale/);
+	});
+}
@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import {test} from 'node:test';
+import {
+	ENDPOINT_CATALOG,
+	Hop,
+	HopAPIError,
+	PROJECT_PERMISSION,
+	canProjectTokenAccess,
+	getEndpoint,
+	permissionsMap,
+} from '../src/index.ts';
+import {FakeHopAPI} from '../src/utils/testing/index.ts';
+
+export function catalogTests() {
+	test('The endpoint catalog describes endpoints', () => {
+		const endpoint = getEndpoint(
+			'PUT',
+			'/v1/channels/:channel_id/subscribers/:token',
+		);
+
+		assert.deepEqual(endpoint?.params, ['channel_id', 'token']);
+		assert.equal(endpoint?.hasBody, false);
+		assert.equal(
+			endpoint?.permission,
+			PROJECT_PERMISSION.MANAGE_CHANNEL_SUBSCRIBERS,
+		);
+
+		const keys = new Set(ENDPOINT_CATALOG.map(endpoint => endpoint.key));
+		assert.equal(keys.size, ENDPOINT_CATALOG.length);
+
+		const me = getEndpoint('GET', '/v1/users/@me')!;
+		assert.equal(me.projectTokens, false);
+		assert.equal(canProjectTokenAccess(~0, me), false);
+
+		const channels = getEndpoint('GET', '/v1/channels')!;
+		assert.ok(
+			canProjectTokenAccess(
+				permissionsMap[PROJECT_PERMISSION.READ_CHANNELS],
+				channels,
+			),
+		);
+		assert.ok(
+			!canProjectTokenAccess(
+				permissionsMap[PROJECT_PERMISSION.CREATE_CHANNEL],
+				channels,
+			),
+		);
+	});
+
+	test('The fake API checks project token permissions', async () => {
+		const api = new FakeHopAPI();
+		const token = api.state.createProjectToken(
+			api.project.id,
+			Number(permissionsMap[PROJECT_PERMISSION.READ_CHANNELS]),
+		);
+
+		const hop = new Hop({...api.clientOptions, authentication: token.token});
+
+		await assert.doesNotReject(() => hop.channels.getAll());
+
+		await assert.rejects(
+			() => hop.channels.tokens.create(),
+			(error: HopAPIError) =>
+				error.status === 403 &&
+				error.message.includes(PROJECT_PERMISSION.CREATE_LEAP_TOKEN),
+		);
+	});
+}
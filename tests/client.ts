@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import {test} from 'node:test';
+import {Hop, HopResponseValidationError} from '../src/index.ts';
+
+export function json(status: number, body: unknown, headers: HeadersInit = {}) {
+	return new Response(JSON.stringify(body), {
+		status,
+		headers: {'Content-Type': 'application/json', ...headers},
+	});
+}
+
+export function fail(status: number, code: string, headers?: HeadersInit) {
+	return json(status, {success: false, error: {code, message: code}}, headers);
+}
+
+export function clientTests() {
+	test('The HTTP client reports responses that do not match their schema', async () => {
+		const token = {
+			id: 'leap_token_1',
+			state: {},
+			project_id: 'project_1',
+			is_online: 'yes',
+		};
+
+		const options = {
+			authentication: 'ptk_testing',
+			fetch: async () => json(200, {success: true, data: {token}}),
+		} as const;
+
+		const strict = new Hop({...options, validateResponses: 'strict'});
+
+		await assert.rejects(
+			() => strict.channels.tokens.get('leap_token_1'),
+			(error: unknown) =>
+				error instanceof HopResponseValidationError &&
+				error.endpoint === 'GET /v1/channels/tokens/:token' &&
+				error.mismatches.length === 1 &&
+				error.mismatches[0]?.path === 'token.is_online',
+		);
+
+		const warnings: unknown[] = [];
+		const warn = console.warn;
+		console.warn = (message: unknown) => warnings.push(message);
+
+		try {
+			const warned = new Hop({...options, validateResponses: 'warn'});
+			const result = await warned.channels.tokens.get('leap_token_1');
+
+			assert.equal(result.is_online, 'yes');
+			assert.equal(warnings.length, 1);
+			assert.match(String(warnings[0]), /token\.is_online/);
+		} finally {
+			console.warn = warn;
+		}
+	});
+}
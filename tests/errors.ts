@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import {test} from 'node:test';
+import {
+	Hop,
+	HopAPIError,
+	HopAuthError,
+	HopNotFoundError,
+	HopPermissionError,
+	HopRateLimitError,
+	HopValidationError,
+	PROJECT_PERMISSION,
+} from '../src/index.ts';
+import {fail, json} from './client.ts';
+
+export function errorTests() {
+	test('The HTTP client throws typed errors', async () => {
+		const hop = new Hop({
+			authentication: 'ptk_testing',
+			fetch: async request =>
+				request.url.endsWith('/v1/channels')
+					? fail(429, 'ratelimited', {'Retry-After': '2'})
+					: fail(404, 'channel_not_found'),
+			retry: false,
+		});
+
+		await assert.rejects(
+			() => hop.channels.get('missing'),
+			(error: unknown) =>
+				error instanceof HopNotFoundError && error.resource === 'channel',
+		);
+
+		await assert.rejects(
+			() => hop.channels.getAll(),
+			(error: unknown) =>
+				error instanceof HopRateLimitError && error.retryAfter === 2000,
+		);
+	});
+
+	test('Errors are mapped from their status and code', async () => {
+		const cases = [
+			[fail(401, 'invalid_auth'), HopAuthError],
+			[fail(400, 'missing_permission'), HopPermissionError],
+			[fail(400, 'deployment_not_found'), HopNotFoundError],
+			[fail(422, 'invalid_body'), HopValidationError],
+			[fail(409, 'conflict'), HopAPIError],
+		] as const;
+
+		for (const [response, type] of cases) {
+			const hop = new Hop({
+				authentication: 'ptk_testing',
+				fetch: async () => response,
+				retry: false,
+			});
+
+			await assert.rejects(
+				() => hop.channels.getAll(),
+				(error: unknown) => error instanceof type && error.constructor === type,
+			);
+		}
+
+		const hop = new Hop({
+			authentication: 'ptk_testing',
+			fetch: async () =>
+				json(403, {
+					success: false,
+					error: {
+						code: 'missing_permission',
+						message: `Missing permission ${PROJECT_PERMISSION.READ_CHANNELS}`,
+					},
+				}),
+			retry: false,
+		});
+
+		await assert.rejects(
+			() => hop.channels.getAll(),
+			(error: unknown) =>
+				error instanceof HopPermissionError &&
+				error.permission === PROJECT_PERMISSION.READ_CHANNELS,
+		);
+	});
+
+	test('Errored responses without a JSON body are mapped by their status', async () => {
+		const hop = new Hop({
+			authentication: 'ptk_testing',
+			fetch: async () =>
+				new Response('<html>Bad gateway</html>', {
+					status: 404,
+					headers: {'Content-Type': 'application/json'},
+				}),
+			retry: false,
+		});
+
+		await assert.rejects(() => hop.channels.getAll(), HopNotFoundError);
+	});
+}
@@ -0,0 +1,37 @@
+import {
+	Hop,
+	RestartPolicy,
+	RuntimeType,
+	type Middleware,
+} from '../src/index.ts';
+import {
+	ContainerStrategy,
+	type CreateDeploymentConfig,
+} from '../src/rest/types/ignite.ts';
+import {FakeHopAPI} from '../src/utils/testing/index.ts';
+
+/**
+ * A small persistent deployment that can be scaled by hand
+ */
+export const deploymentConfig = {
+	name: 'api',
+	type: RuntimeType.PERSISTENT,
+	version: '12-12-2022',
+	container_strategy: ContainerStrategy.MANUAL,
+	image: {name: 'api', auth: null, gh_repo: null},
+	env: {},
+	resources: {vcpu: 0.5, ram: '512MB'},
+	restart_policy: RestartPolicy.ALWAYS,
+} satisfies CreateDeploymentConfig;
+
+/**
+ * Creates a fake API, a client for it and a deployment with {@link deploymentConfig}
+ */
+export async function setup(middleware: Middleware[] = []) {
+	const api = new FakeHopAPI();
+	const hop = new Hop({...api.clientOptions, middleware});
+
+	const deployment = await hop.ignite.deployments.create(deploymentConfig);
+
+	return {api, hop, deployment};
+}
@@ -0,0 +1,744 @@
+import assert from 'node:assert/strict';
+import {test} from 'node:test';
+import {
+	BuildMethod,
+	BuildState,
+	ContainerState,
+	GatewayType,
+	Hop,
+	HopBuildFailedError,
+	HopContainerStateError,
+	HopManifestError,
+	HopNotFoundError,
+	HopRolloutFailedError,
+	HopWaitTimeoutError,
+	RolloutState,
+	RuntimeType,
+	VolumeFormat,
+	diffDeploymentConfig,
+	formatDeploymentManifest,
+	type ContainerLog,
+	type Timestamp,
+} from '../src/index.ts';
+import {setup} from './fixtures.ts';
+import {ContainerStrategy} from '../src/rest/types/ignite.ts';
+
+export function igniteTests() {
+	test('It streams container logs until the container exits', async () => {
+		const {api, hop, deployment} = await setup();
+		const container = await deployment.createContainer();
+
+		api.addContainerLogs(container.id, [
+			{message: 'old', timestamp: '2020-01-01T00:00:00.000Z' as Timestamp},
+			{message: 'one'},
+			{message: 'noise', level: 'stderr'},
+		]);
+
+		const messages: string[] = [];
+
+		const stream = hop.ignite.containers.streamLogs(container.id, {
+			follow: true,
+			since: '2021-01-01T00:00:00.000Z',
+			levels: ['stdout'],
+			interval: 5,
+		});
+
+		for await (const log of stream) {
+			messages.push(log.message);
+
+			if (log.message === 'one') {
+				api.addContainerLogs(container.id, [{message: 'two'}]);
+			}
+
+			if (log.message === 'two') {
+				api.addContainerLogs(container.id, [{message: 'three'}]);
+				api.setContainerState(container.id, ContainerState.EXITED);
+			}
+		}
+
+		assert.deepEqual(messages, ['one', 'two', 'three']);
+	});
+
+	test('Following container logs only downloads new logs', async () => {
+		const {api, deployment} = await setup();
+		const container = await deployment.createContainer();
+		let downloaded = 0;
+
+		const hop = new Hop({
+			...api.clientOptions,
+			middleware: [
+				async (request, next) => {
+					const response = await next(request);
+
+					if (request.url.includes('/logs')) {
+						const {data} = (await response.clone().json()) as {
+							data: {logs: unknown[]};
+						};
+
+						downloaded += data.logs.length;
+					}
+
+					return response;
+				},
+			],
+		});
+
+		api.addContainerLogs(
+			container.id,
+			Array.from({length: 500}, (_, index) => ({
+				message: 'old',
+				timestamp: new Date(
+					Date.UTC(2020, 0, 1, 0, 0, index),
+				).toISOString() as Timestamp,
+			})),
+		);
+
+		api.addContainerLogs(container.id, [{message: 'one'}]);
+
+		const messages: string[] = [];
+
+		const stream = hop.ignite.containers.streamLogs(container.id, {
+			follow: true,
+			since: '2021-01-01T00:00:00.000Z',
+			interval: 5,
+		});
+
+		for await (const log of stream) {
+			messages.push(log.message);
+
+			if (log.message === 'one') {
+				api.addContainerLogs(container.id, [{message: 'two'}]);
+			}
+
+			if (log.message === 'two') {
+				api.setContainerState(container.id, ContainerState.EXITED);
+			}
+		}
+
+		assert.deepEqual(messages, ['one', 'two']);
+
+		// Every poll reads at most one small page of logs it has already seen
+		assert.ok(downloaded < 50, `downloaded ${downloaded} logs`);
+	});
+
+	test('Streaming container logs stops when aborted', async () => {
+		const {api, hop, deployment} = await setup();
+		const container = await deployment.createContainer();
+		api.addContainerLogs(container.id, [{message: 'one'}]);
+
+		const controller = new AbortController();
+		const logs: ContainerLog[] = [];
+
+		const stream = hop.ignite.containers.streamLogs(
+			container.id,
+			{follow: true, interval: 5},
+			{signal: controller.signal},
+		);
+
+		for await (const log of stream) {
+			logs.push(log);
+			controller.abort();
+		}
+
+		assert.equal(logs.length, 1);
+	});
+
+	test('It merges the logs of every container in a deployment', async () => {
+		const {api, hop, deployment} = await setup();
+		const first = await deployment.createContainer();
+		const second = await deployment.createContainer();
+
+		const at = (seconds: number) =>
+			new Date(Date.UTC(2023, 0, 1, 0, 0, seconds)).toISOString() as Timestamp;
+
+		api.addContainerLogs(first.id, [
+			{message: 'a', timestamp: at(1)},
+			{message: 'c', timestamp: at(3)},
+		]);
+
+		api.addContainerLogs(second.id, [{message: 'b', timestamp: at(2)}]);
+
+		const logs: Array<[string, string]> = [];
+
+		for await (const log of hop.ignite.deployments.getLogs(deployment.id)) {
+			logs.push([log.message, log.container_id]);
+		}
+
+		assert.deepEqual(logs, [
+			['a', first.id],
+			['b', second.id],
+			['c', first.id],
+		]);
+
+		const controller = new AbortController();
+		const tail = hop.ignite.deployments.getLogs(
+			deployment.id,
+			{follow: true, interval: 5},
+			{signal: controller.signal},
+		);
+
+		const messages: string[] = [];
+
+		for await (const log of tail) {
+			messages.push(log.message);
+
+			if (log.message === 'c') {
+				await hop.ignite.containers.delete(first.id);
+				const third = await deployment.createContainer();
+				api.addContainerLogs(third.id, [{message: 'd'}]);
+			}
+
+			if (log.message === 'd') {
+				controller.abort();
+			}
+		}
+
+		assert.deepEqual(messages, ['a', 'b', 'c', 'd']);
+	});
+
+	test('It waits for rollouts and containers', async () => {
+		const {api, hop, deployment} = await setup();
+		const container = await deployment.createContainer();
+
+		const rollout = await hop.ignite.deployments.rollout(deployment.id);
+		api.updateRollout(rollout.id, {state: RolloutState.PENDING});
+
+		const states: RolloutState[] = [];
+
+		const finished = await hop.ignite.waitForRollout(deployment.id, {
+			interval: 5,
+			onProgress: rollout => {
+				states.push(rollout.state);
+				api.updateRollout(rollout.id, {state: RolloutState.FINISHED});
+			},
+		});
+
+		assert.equal(finished.id, rollout.id);
+		assert.deepEqual(states, [RolloutState.PENDING, RolloutState.FINISHED]);
+
+		api.updateRollout(rollout.id, {
+			state: RolloutState.FAILED,
+			health_check_failed: true,
+		});
+
+		await assert.rejects(
+			() => hop.ignite.waitForRollout(rollout),
+			(error: HopRolloutFailedError) => error.healthCheckFailed,
+		);
+
+		const [replacement] = await deployment.getContainers();
+		api.setContainerState(replacement!.id, ContainerState.PENDING);
+
+		const running = await hop.ignite.waitForContainerState(
+			replacement!.id,
+			ContainerState.RUNNING,
+			{
+				interval: 5,
+				onProgress: () => {
+					api.setContainerState(replacement!.id, ContainerState.RUNNING);
+				},
+			},
+		);
+
+		assert.equal(running.state, ContainerState.RUNNING);
+
+		await assert.rejects(
+			() =>
+				hop.ignite.waitForContainerState(container.id, ContainerState.RUNNING),
+			HopContainerStateError,
+		);
+	});
+
+	test('It waits for builds', async () => {
+		const {api, hop, deployment} = await setup();
+		const build = api.createBuild(deployment.id);
+
+		await assert.rejects(
+			() => hop.ignite.waitForBuild(build.id, {timeout: 20, interval: 5}),
+			HopWaitTimeoutError,
+		);
+
+		await assert.rejects(
+			() =>
+				hop.ignite.waitForBuild(build.id, {
+					interval: 5,
+					onProgress: () => {
+						api.updateBuild(build.id, {
+							state: BuildState.VALIDATION_FAILED,
+							validation_failure: {
+								reason: 'No Dockerfile found',
+								help_link: 'https://docs.hop.io',
+							},
+						});
+					},
+				}),
+			(error: HopBuildFailedError) =>
+				error.validationFailure?.reason === 'No Dockerfile found' &&
+				error.message.includes('https://docs.hop.io'),
+		);
+
+		const next = api.createBuild(deployment.id, {
+			state: BuildState.SUCCEEDED,
+		});
+
+		const succeeded = await hop.ignite.waitForBuild(next.id);
+		assert.equal(succeeded.state, BuildState.SUCCEEDED);
+	});
+
+	test('It manages builds', async () => {
+		const {api, hop, deployment} = await setup();
+
+		const first = api.createBuild(deployment.id, {
+			method: BuildMethod.GITHUB,
+			state: BuildState.SUCCEEDED,
+			metadata: {
+				repo_id: 1,
+				repo_name: 'hopinc/api',
+				branch: 'main',
+				commit_sha: 'abc123',
+				commit_msg: 'Initial commit',
+			},
+		});
+
+		api.addBuildLogs(first.id, [
+			{message: 'Installing'},
+			{message: 'Built', level: 'info'},
+		]);
+
+		const logs: string[] = [];
+
+		for await (const log of hop.ignite.builds.streamLogs(first.id, {
+			follow: true,
+			interval: 5,
+		})) {
+			logs.push(log.message);
+		}
+
+		assert.deepEqual(logs, ['Installing', 'Built']);
+
+		const next = await hop.ignite.builds.retrigger(first.id, {
+			commitSha: 'def456',
+		});
+
+		assert.equal(next.metadata?.commit_sha, 'def456');
+		assert.deepEqual(
+			(await hop.ignite.builds.getAll(deployment.id)).map(build => build.id),
+			[next.id, first.id],
+		);
+
+		const cancelled = await hop.ignite.builds.cancel(next.id);
+		assert.equal(cancelled.state, BuildState.CANCELLED);
+
+		await assert.rejects(
+			() => hop.ignite.builds.wait(next.id),
+			HopBuildFailedError,
+		);
+
+		await assert.rejects(() => hop.ignite.builds.cancel(first.id));
+	});
+
+	test('Containers, rollouts, builds and health checks have methods', async () => {
+		const {api, hop, deployment} = await setup();
+		const container = await deployment.createContainer();
+
+		await container.stop();
+		assert.equal((await container.refresh()).state, ContainerState.STOPPED);
+
+		const replacement = await container.recreate();
+		assert.notEqual(replacement.id, container.id);
+		await assert.rejects(() => container.refresh(), HopNotFoundError);
+
+		const rollout = await hop.ignite.deployments.rollout(deployment.id);
+		const finished = await rollout.wait({interval: 5});
+		assert.equal(finished.state, RolloutState.FINISHED);
+
+		const build = api.createBuild(deployment.id);
+		const model = await hop.ignite.builds.get(build.id);
+		await model.cancel();
+		assert.equal((await model.refresh()).state, BuildState.CANCELLED);
+
+		const check = await hop.ignite.healthChecks.create(deployment.id, {
+			protocol: 'http',
+			path: '/health',
+			port: 8080,
+			interval: 60,
+			timeout: 50,
+			initial_delay: 5,
+			max_retries: 3,
+		});
+
+		const updated = await check.update({path: '/ready'});
+		assert.equal(updated.path, '/ready');
+		assert.equal((await updated.refresh()).path, '/ready');
+	});
+
+	test('It updates and deletes gateways and manages redirects', async () => {
+		const {hop, deployment} = await setup();
+
+		const gateway = await deployment.createGateway({
+			type: GatewayType.EXTERNAL,
+			protocol: 'http',
+			name: 'web',
+			targetPort: 8080,
+		});
+
+		const updated = await gateway.update({name: 'public', targetPort: 3000});
+		assert.equal(updated.name, 'public');
+		assert.equal(updated.target_port, 3000);
+
+		const disabled = await updated.setHopShDomainEnabled(false);
+		assert.equal(disabled.hopsh_domain_enabled, false);
+
+		await gateway.addRedirect('www.example.com', {
+			url: 'https://example.com',
+			status_code: 308,
+		});
+
+		await assert.rejects(
+			() =>
+				gateway.addRedirect('old.example.com', {
+					url: 'https://example.com',
+					status_code: 200 as 301,
+				}),
+			/301, 302, 307 or 308/,
+		);
+
+		const [domain] = (await hop.ignite.gateways.get(gateway.id)).domains;
+		assert.deepEqual(domain?.redirect, {
+			url: 'https://example.com',
+			status_code: 308,
+		});
+
+		const cleared = await hop.ignite.domains.setRedirect(domain!.id, null);
+		assert.equal(cleared.redirect, null);
+
+		await gateway.delete();
+		assert.deepEqual(await hop.ignite.gateways.getAll(deployment.id), []);
+	});
+
+	test('It diffs deployment configs', async () => {
+		const {hop, deployment} = await setup();
+		const {config} = deployment;
+
+		const diff = diffDeploymentConfig(config, {
+			...config,
+			type: RuntimeType.STATEFUL,
+			container_strategy: ContainerStrategy.MANUAL,
+			env: {PORT: '8080'},
+			resources: {vcpu: 0.5, ram: '4MB'},
+		});
+
+		assert.deepEqual(
+			diff.changes.map(change => [
+				change.path,
+				change.kind,
+				change.requiresRollout,
+				change.blocked !== null,
+			]),
+			[
+				['type', 'changed', false, true],
+				['env.PORT', 'added', true, false],
+				['resources.ram', 'changed', true, true],
+			],
+		);
+
+		assert.ok(diff.requiresRollout);
+		assert.match(diff.blocked[1]?.blocked ?? '', /6MB/);
+
+		const volume = diffDeploymentConfig(config, {
+			...config,
+			volume: {fs: VolumeFormat.EXT4, size: '1GB', mount_path: '/data'},
+		});
+
+		assert.equal(volume.changes.length, 3);
+		assert.ok(volume.changes.every(change => change.kind === 'added'));
+		assert.match(volume.blocked[0]?.blocked ?? '', /stateful/);
+
+		assert.deepEqual(diffDeploymentConfig(config, config).changes, []);
+
+		await assert.rejects(
+			() =>
+				hop.ignite.deployments.create({
+					...config,
+					name: 'stateless',
+					volume: {fs: VolumeFormat.EXT4, size: '1GB', mount_path: '/data'},
+				}),
+			{
+				message:
+					'Cannot create a deployment with a volume that is not stateful.',
+			},
+		);
+	});
+
+	test('It exports and imports deployment manifests', async () => {
+		const {api, hop, deployment} = await setup();
+
+		await hop.ignite.deployments.update(deployment.id, {
+			env: {DATABASE_URL: '${DATABASE_URL}', TOKEN: '${TOKEN}'},
+		});
+
+		await hop.ignite.groups.create('backend', {deploymentIds: [deployment.id]});
+		await hop.ignite.healthChecks.create(deployment.id, {
+			protocol: 'http',
+			path: '/health',
+			port: 8080,
+			interval: 60,
+			timeout: 50,
+			initial_delay: 5,
+			max_retries: 3,
+		});
+
+		const gateway = await hop.ignite.gateways.create(deployment.id, {
+			type: GatewayType.EXTERNAL,
+			protocol: 'http',
+			name: 'web',
+			targetPort: 8080,
+		});
+
+		await hop.ignite.gateways.addDomain(gateway.id, 'api.example.com');
+
+		const manifest = await hop.ignite.deployments.exportManifest(deployment.id);
+
+		assert.equal(manifest.group, 'backend');
+		assert.deepEqual(manifest.secrets, ['DATABASE_URL', 'TOKEN']);
+		assert.equal(manifest.health_check?.path, '/health');
+		assert.ok(!('created_at' in (manifest.health_check ?? {})));
+		assert.deepEqual(manifest.gateways[0]?.domains, ['api.example.com']);
+
+		const yaml = formatDeploymentManifest(manifest, 'yaml');
+		assert.match(yaml, /^version: 1\nkind: "deployment"\n/);
+		assert.match(yaml, /\n {2}-\n {4}name: "web"\n/);
+
+		const other = api.createProject('Other');
+		const otherHop = new Hop({
+			...api.clientOptions,
+			authentication: other.token,
+		});
+
+		// API responses can be used as manifests, the fields owned by the API are ignored
+		const text = formatDeploymentManifest({
+			...manifest,
+			id: deployment.id,
+			active_rollout: null,
+		} as typeof manifest);
+
+		const imported = await otherHop.ignite.deployments.importManifest(text, {
+			name: 'api-copy',
+			secrets: {TOKEN: 'API_TOKEN'},
+			domains: false,
+		});
+
+		assert.equal(imported.name, 'api-copy');
+		assert.deepEqual(imported.config.env, {
+			DATABASE_URL: '${DATABASE_URL}',
+			TOKEN: '${API_TOKEN}',
+		});
+		assert.notEqual(imported.group_id, null);
+
+		const [copy] = await otherHop.ignite.gateways.getAll(imported.id);
+		assert.equal(copy?.name, 'web');
+		assert.deepEqual(copy?.domains, []);
+
+		const check = await otherHop.ignite.healthChecks.get(imported.id);
+		assert.equal(check.path, '/health');
+
+		// Exported YAML can be imported again
+		const fromYAML = await otherHop.ignite.deployments.importManifest(yaml, {
+			name: 'api-yaml',
+			domains: false,
+		});
+
+		assert.deepEqual(fromYAML.config.env, manifest.config.env);
+		assert.deepEqual(fromYAML.config.resources, manifest.config.resources);
+		assert.equal(
+			(await otherHop.ignite.healthChecks.get(fromYAML.id)).port,
+			manifest.health_check?.port,
+		);
+
+		await assert.rejects(
+			() =>
+				otherHop.ignite.deployments.importManifest({
+					...manifest,
+					config: {...manifest.config, resources: {vcpu: 0.5, ram: '1MB'}},
+				}),
+			(error: HopManifestError) => error.issues[0]?.path === 'resources.ram',
+		);
+
+		await assert.rejects(
+			() =>
+				otherHop.ignite.deployments.importManifest(
+					JSON.stringify({...manifest, version: 2}),
+				),
+			/version 2 is not supported/,
+		);
+
+		const failing = new Hop({
+			...api.clientOptions,
+			authentication: other.token,
+			middleware: [
+				async (request, next) => {
+					if (request.url.includes('/gateways')) {
+						throw new Error('Gateway failed');
+					}
+
+					return next(request);
+				},
+			],
+		});
+
+		await assert.rejects(
+			() => failing.ignite.deployments.importManifest(manifest, {name: 'half'}),
+			/Gateway failed/,
+		);
+
+		const {deployments} = await otherHop.ignite.deployments.getAll();
+		assert.ok(!deployments.some(({name}) => name === 'half'));
+	});
+
+	test('It clones deployments and reports missing secrets', async () => {
+		const {api, hop, deployment} = await setup();
+
+		await hop.projects.secrets.create('DATABASE_URL', 'postgres://localhost');
+		await hop.ignite.deployments.update(deployment.id, {
+			env: {DATABASE_URL: '${DATABASE_URL}'},
+		});
+
+		await hop.ignite.gateways.create(deployment.id, {
+			type: GatewayType.INTERNAL,
+			protocol: null,
+			name: 'internal',
+			targetPort: 3000,
+			internalDomain: 'api',
+		});
+
+		const preview = await hop.ignite.deployments.clone(deployment.id, {
+			name: 'api-preview',
+			envOverrides: {TOKEN: '${PREVIEW_TOKEN}'},
+		});
+
+		assert.equal(preview.deployment.name, 'api-preview');
+		assert.deepEqual(preview.missingSecrets, ['PREVIEW_TOKEN']);
+
+		const [gateway] = await hop.ignite.gateways.getAll(preview.deployment.id);
+		assert.equal(gateway?.internal_domain, 'api.hop');
+
+		const sibling = await hop.ignite.deployments.clone(deployment.id);
+		assert.equal(sibling.deployment.name, 'api-clone');
+
+		const other = api.createProject('Other');
+		const bearer = new Hop({
+			...api.clientOptions,
+			authentication: 'bearer_test',
+		});
+
+		const copy = await bearer.ignite.deployments.clone(deployment.id, {
+			targetProject: other.project.id,
+		});
+
+		assert.equal(copy.deployment.name, 'api');
+		assert.deepEqual(copy.missingSecrets, ['DATABASE_URL']);
+
+		await assert.rejects(
+			() =>
+				hop.ignite.deployments.clone(deployment.id, {
+					targetProject: other.project.id,
+				}),
+			/only clone deployments within their own project/,
+		);
+	});
+
+	test('It scales deployments and removes failed containers first', async () => {
+		const {api, hop, deployment} = await setup();
+
+		const scaled = await hop.ignite.deployments.scale(deployment.id, 3, {
+			concurrency: 2,
+			interval: 5,
+		});
+
+		assert.equal(scaled.running_container_count, 3);
+
+		const [failed, stopped, running] =
+			await hop.ignite.deployments.getContainers(deployment.id);
+
+		api.setContainerState(failed!.id, ContainerState.FAILED);
+		api.setContainerState(stopped!.id, ContainerState.STOPPED);
+
+		await hop.ignite.deployments.scale(deployment.id, 1, {interval: 5});
+
+		const containers = await hop.ignite.deployments.getContainers(
+			deployment.id,
+		);
+
+		assert.deepEqual(
+			containers.map(container => container.id),
+			[running!.id],
+		);
+
+		await assert.rejects(
+			() => hop.ignite.deployments.scale(deployment.id, -1),
+			/whole number/,
+		);
+	});
+
+	test('It rolls back a single update', async () => {
+		const {hop, deployment} = await setup();
+
+		await hop.ignite.deployments.update(deployment.id, {env: {VERSION: '1'}});
+		await hop.ignite.deployments.rollout(deployment.id);
+
+		await hop.ignite.deployments.rollback(deployment.id);
+
+		const current = await hop.ignite.deployments.get(deployment.id);
+		assert.deepEqual(current.config.env, {});
+	});
+
+	test('It rolls back to earlier configs and builds', async () => {
+		const {api, hop, deployment} = await setup();
+
+		await hop.ignite.deployments.update(deployment.id, {env: {VERSION: '1'}});
+		const first = await hop.ignite.deployments.rollout(deployment.id);
+
+		await hop.ignite.deployments.update(deployment.id, {env: {VERSION: '2'}});
+		await hop.ignite.deployments.rollout(deployment.id);
+
+		await hop.ignite.deployments.rollback(deployment.id);
+		let current = await hop.ignite.deployments.get(deployment.id);
+		assert.deepEqual(current.config.env, {VERSION: '1'});
+
+		await hop.ignite.deployments.update(deployment.id, {env: {VERSION: '3'}});
+		await hop.ignite.deployments.rollback(deployment.id, {toRollout: first.id});
+		current = await hop.ignite.deployments.get(deployment.id);
+		assert.deepEqual(current.config.env, {VERSION: '1'});
+
+		const history = hop.ignite.deployments.getHistory(deployment.id);
+		assert.equal(history.length, 6);
+		assert.equal(history.at(-1)?.rolloutId, current.latest_rollout?.id);
+
+		await hop
+			.project(api.project.id)
+			.ignite.deployments.update(deployment.id, {env: {VERSION: '4'}});
+
+		assert.equal(hop.ignite.deployments.getHistory(deployment.id).length, 7);
+
+		await hop.ignite.deployments.rollback(deployment.id);
+		current = await hop.ignite.deployments.get(deployment.id);
+		assert.deepEqual(current.config.env, {VERSION: '1'});
+
+		const build = api.createBuild(deployment.id, {
+			state: BuildState.SUCCEEDED,
+			digest: 'sha256:abc',
+		});
+
+		await hop.ignite.deployments.rollback(deployment.id, {toBuild: build.id});
+		current = await hop.ignite.deployments.get(deployment.id);
+		assert.equal(current.config.image.name, 'api@sha256:abc');
+
+		await assert.rejects(
+			() =>
+				hop.ignite.deployments.rollback(deployment.id, {
+					toRollout: 'rollout_missing' as typeof first.id,
+				}),
+			/not in the local history/,
+		);
+	});
+}
@@ -4,21 +4,43 @@ import assert from 'node:assert/strict';
 import {test} from 'node:test';
 
 import {Hop, id, validateId} from '../src/index.ts';
+import {FakeHopAPI} from '../src/utils/testing/index.ts';
+import {autoscalerTests} from './autoscaler.ts';
+import {canaryTests} from './canary.ts';
+import {catalogTests} from './catalog.ts';
 import {channelsTests} from './channels.ts';
+import {clientTests} from './client.ts';
+import {errorTests} from './errors.ts';
+import {fleetTests} from './fleet.ts';
+import {igniteTests} from './ignite.ts';
+import {infraTests} from './infra.ts';
+import {middlewareTests} from './middleware.ts';
+import {openAPITests} from './openapi.ts';
 import {membersTest} from './projects/members.ts';
 import {webhookTests} from './projects/webhooks.ts';
+import {releasesTests} from './releases.ts';
+import {retryTests} from './retry.ts';
+import {fakeAPITests} from './testing.ts';
+import {timeoutTests} from './timeouts.ts';
 
 const SDK_TESTS = [webhookTests, membersTest, channelsTests];
 
 // @ts-expect-error This is usually injected by tsup
 globalThis.TSUP_IS_NODE = true;
 
-const BASE_URL = process.env.TEST_HOP_API_BASE_URL ?? 'https://api.hop.io';
+// Without a token, tests run against an in-memory fake of the API
+const fake = process.env.HOP_TOKEN ? null : new FakeHopAPI();
 
-const hop = new Hop(
-	id(process.env.HOP_TOKEN, ['ptk', 'bearer', 'pat']),
-	BASE_URL,
-);
+if (fake) {
+	SDK_TESTS.push(fleetTests);
+}
+
+const BASE_URL =
+	process.env.TEST_HOP_API_BASE_URL ?? fake?.baseUrl ?? 'https://api.hop.io';
+
+const hop = fake
+	? new Hop({...fake.clientOptions, validateResponses: 'strict'})
+	: new Hop(id(process.env.HOP_TOKEN, ['ptk', 'bearer', 'pat']), BASE_URL);
 
 test('The HTTP client correctly forms URLs', () => {
 	assert.equal(
@@ -63,6 +85,20 @@ test('It validates that the token is valid', () => {
 	assert(validateId('ptk_testing', 'ptk'), "Couldn't validate Project Token");
 });
 
+autoscalerTests();
+canaryTests();
+catalogTests();
+clientTests();
+errorTests();
+fakeAPITests();
+igniteTests();
+infraTests();
+middlewareTests();
+openAPITests();
+releasesTests();
+retryTests();
+timeoutTests();
+
 for (const SDKTest of SDK_TESTS) {
 	SDKTest(hop);
 }
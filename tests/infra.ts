@@ -0,0 +1,220 @@
+import assert from 'node:assert/strict';
+import {test} from 'node:test';
+import {GatewayType, Hop, sdks} from '../src/index.ts';
+import {FakeHopAPI} from '../src/utils/testing/index.ts';
+import {deploymentConfig} from './fixtures.ts';
+
+const {name, ...apiConfig} = deploymentConfig;
+
+const config: sdks.InfraConfig = {
+	secrets: {DATABASE_URL: 'postgres://localhost'},
+	groups: ['backend'],
+	deployments: {
+		api: {
+			group: 'backend',
+			config: {
+				...apiConfig,
+				env: {DATABASE_URL: '${DATABASE_URL}'},
+			},
+			healthCheck: {
+				protocol: 'http',
+				path: '/health',
+				port: 8080,
+				interval: 60,
+				timeout: 50,
+				initial_delay: 5,
+				max_retries: 3,
+			},
+			gateways: {
+				web: {
+					type: GatewayType.EXTERNAL,
+					targetPort: 8080,
+					domains: ['api.example.com'],
+				},
+			},
+		},
+	},
+};
+
+export function infraTests() {
+	test('It plans and applies infrastructure from a config', async () => {
+		const api = new FakeHopAPI();
+		const hop = new Hop(api.clientOptions);
+
+		const old = await hop.ignite.deployments.create({
+			...config.deployments!.api!.config,
+			name: 'old',
+		});
+
+		const printed: string[] = [];
+		const plan = await hop.infra.apply(config, {
+			print: diff => printed.push(diff),
+		});
+
+		assert.deepEqual(
+			plan.changes.map(change => `${change.action} ${change.resource}`),
+			[
+				'create secret',
+				'create group',
+				'create deployment',
+				'update deployment',
+				'create health_check',
+				'create gateway',
+				'create domain',
+			],
+		);
+
+		assert.match(printed[0] ?? '', /^6 to create, 1 to update, 0 to delete/);
+		assert.match(printed[0] ?? '', /\+ domain api\/web\/api\.example\.com/);
+
+		const {deployments, groups} = await hop.ignite.deployments.getAll();
+		const deployment = deployments.find(({name}) => name === 'api');
+		assert.equal(deployment?.group_id, groups[0]?.id);
+
+		const [gateway] = await hop.ignite.gateways.getAll(deployment!.id);
+		assert.equal(gateway?.domains[0]?.domain, 'api.example.com');
+
+		// Only secret values can't be compared, so they are always planned
+		const again = await hop.infra.plan(config);
+		assert.deepEqual(
+			again.changes.map(change => `${change.action} ${change.resource}`),
+			['update secret'],
+		);
+
+		const checked = await hop.infra.plan({
+			...config,
+			deployments: {
+				api: {
+					...config.deployments!.api!,
+					healthCheck: {...config.deployments!.api!.healthCheck!, interval: 30},
+				},
+			},
+		});
+
+		assert.deepEqual(
+			checked.changes.find(change => change.resource === 'health_check')
+				?.fields,
+			[{path: 'interval', before: 60, after: 30}],
+		);
+
+		const changed = await hop.infra.plan({
+			...config,
+			prune: true,
+			secrets: {},
+			deployments: {
+				api: {
+					...config.deployments!.api!,
+					config: {
+						...config.deployments!.api!.config,
+						env: {PORT: '8080'},
+						resources: {vcpu: 1, ram: '512MB'},
+					},
+					gateways: {
+						web: {type: GatewayType.EXTERNAL, targetPort: 3000},
+					},
+				},
+			},
+		});
+
+		const update = changed.changes.find(
+			change => change.resource === 'deployment',
+		);
+
+		assert.deepEqual(update?.fields, [
+			{path: 'env.DATABASE_URL', before: '${DATABASE_URL}', after: undefined},
+			{path: 'env.PORT', before: undefined, after: '8080'},
+			{path: 'resources.vcpu', before: 0.5, after: 1},
+		]);
+
+		assert.deepEqual(
+			changed.changes
+				.filter(change => change.action === 'delete')
+				.map(change => `${change.resource} ${change.name}`),
+			[
+				'domain api/web/api.example.com',
+				'deployment old',
+				'secret DATABASE_URL',
+			],
+		);
+
+		assert.deepEqual(
+			changed.changes.find(change => change.resource === 'gateway')?.fields,
+			[{path: 'target_port', before: 8080, after: 3000}],
+		);
+
+		assert.match(sdks.formatInfraPlan(changed), /resources\.vcpu: 0\.5 -> 1/);
+
+		await hop.infra.apply(changed, {print: false});
+
+		await assert.rejects(
+			() => hop.ignite.deployments.get(old.id),
+			/not found/i,
+		);
+
+		const [updated] = await hop.ignite.gateways.getAll(deployment!.id);
+		assert.equal(updated?.target_port, 3000);
+
+		assert.deepEqual(await hop.projects.secrets.getAll(), []);
+		await assert.rejects(() => hop.infra.apply(changed, {print: false}));
+	});
+
+	test('A group missing from the config is reported in the plan', async () => {
+		const api = new FakeHopAPI();
+		const hop = new Hop(api.clientOptions);
+
+		const plan = await hop.infra.plan({
+			groups: [],
+			deployments: {
+				api: {...config.deployments!.api!, group: 'missing', gateways: {}},
+			},
+		});
+
+		assert.match(
+			sdks.formatInfraPlan(plan),
+			/! deployment api can't move to group missing/,
+		);
+
+		assert.ok(
+			plan.changes.every(change =>
+				change.fields.every(field => field.path !== 'group'),
+			),
+		);
+	});
+
+	test('A plan can not be applied again after a step fails', async () => {
+		const api = new FakeHopAPI();
+
+		const hop = new Hop({
+			...api.clientOptions,
+			middleware: [
+				async (request, next) => {
+					if (request.url.includes('health-check')) {
+						throw new Error('Health check failed');
+					}
+
+					return next(request);
+				},
+			],
+		});
+
+		const plan = await hop.infra.plan({
+			deployments: {api: {...config.deployments!.api!, gateways: {}}},
+		});
+
+		await assert.rejects(
+			() => hop.infra.apply(plan, {print: false}),
+			/Health check failed/,
+		);
+
+		await assert.rejects(
+			() => hop.infra.apply(plan, {print: false}),
+			/already been applied/,
+		);
+
+		const {deployments} = await hop.ignite.deployments.getAll();
+		assert.deepEqual(
+			deployments.map(({name}) => name),
+			['api'],
+		);
+	});
+}
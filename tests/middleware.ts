@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import {test} from 'node:test';
+import {Hop, HopAPIError, type Middleware} from '../src/index.ts';
+import {fail, json} from './client.ts';
+
+export function middlewareTests() {
+	test('Middleware can change requests and see errors', async () => {
+		const seen: unknown[] = [];
+
+		const hop = new Hop({
+			authentication: 'ptk_testing',
+			fetch: async request =>
+				request.headers.get('X-Trace-Id') === 'abc'
+					? fail(403, 'missing_permission')
+					: json(200, {success: true, data: {}}),
+			middleware: [
+				async (request, next) => {
+					request.headers.set('X-Trace-Id', 'abc');
+
+					try {
+						return await next(request);
+					} catch (error: unknown) {
+						seen.push(error);
+						throw error;
+					}
+				},
+			],
+		});
+
+		await assert.rejects(() => hop.channels.getAll(), HopAPIError);
+		assert.equal(seen.length, 1);
+		assert.ok(seen[0] instanceof HopAPIError);
+	});
+
+	test('Middleware runs in order around every attempt', async () => {
+		const calls: string[] = [];
+		let attempts = 0;
+
+		const named =
+			(name: string): Middleware =>
+			async (request, next) => {
+				calls.push(`${name} in`);
+				const response = await next(request);
+				calls.push(`${name} out`);
+				return response;
+			};
+
+		const hop = new Hop({
+			authentication: 'ptk_testing',
+			fetch: async () =>
+				++attempts === 1
+					? fail(503, 'unavailable')
+					: json(200, {success: true, data: {channels: []}}),
+			retry: {baseDelay: 1},
+			middleware: [named('outer'), named('inner')],
+		});
+
+		await hop.channels.getAll();
+
+		// The failed first attempt rejects, so it never comes back out
+		assert.deepEqual(calls, [
+			'outer in',
+			'inner in',
+			'outer in',
+			'inner in',
+			'inner out',
+			'outer out',
+		]);
+	});
+}
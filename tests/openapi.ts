@@ -0,0 +1,31 @@
+import assert from 'node:assert/strict';
+import {test} from 'node:test';
+import {generateOpenAPIDocument} from '../build/openapi.ts';
+import {ENDPOINT_CATALOG} from '../src/index.ts';
+
+export function openAPITests() {
+	test('It generates an OpenAPI document from the endpoint types', () => {
+		const document = generateOpenAPIDocument();
+
+		const operations = Object.values(document.paths).flatMap(Object.keys);
+		assert.equal(operations.length, ENDPOINT_CATALOG.length);
+
+		const {schemas} = document.components;
+		assert.ok(schemas.Deployment && schemas.Gateway && schemas.ChannelToken);
+		assert.deepEqual(schemas.ErroredAPIResponse?.required, [
+			'success',
+			'error',
+		]);
+
+		const get = document.paths['/v1/ignite/gateways/{gateway_id}']?.get as {
+			'responses': Record<string, unknown>;
+			'x-hop-permission': string;
+		};
+
+		assert.equal(get['x-hop-permission'], 'read_gateways');
+		assert.match(
+			JSON.stringify(get.responses['200']),
+			/"data":\{"type":"object","properties":\{"gateway":\{"\$ref":"#\/components\/schemas\/Gateway"\}/,
+		);
+	});
+}
@@ -0,0 +1,235 @@
+import assert from 'node:assert/strict';
+import {test} from 'node:test';
+import {GatewayType, type Middleware, type sdks} from '../src/index.ts';
+import type {ContainerStrategy} from '../src/rest/types/ignite.ts';
+import {setup} from './fixtures.ts';
+
+async function setupRelease(middleware: Middleware[] = []) {
+	const {api, hop, deployment: live} = await setup(middleware);
+
+	await hop.ignite.deployments.scale(live.id, 2);
+
+	const gateway = await hop.ignite.gateways.create(live.id, {
+		type: GatewayType.EXTERNAL,
+		protocol: 'http',
+		name: 'web',
+		targetPort: 8080,
+	});
+
+	await gateway.addDomain('api.example.com');
+
+	const domainsOf = async (deploymentId: typeof live.id) => {
+		const gateways = await hop.ignite.gateways.getAll(deploymentId);
+		return gateways.flatMap(gateway => gateway.domains.map(d => d.domain));
+	};
+
+	return {api, hop, live, domainsOf};
+}
+
+export function releasesTests() {
+	test('A blue/green release moves domains and can be reverted', async () => {
+		const {hop, live, domainsOf} = await setupRelease();
+		const steps: sdks.ReleaseStep[] = [];
+
+		const release = await hop.releases.blueGreen(live.id, {
+			standby: {name: 'api-green'},
+			config: {image: {name: 'api:2', auth: null, gh_repo: null}},
+			teardown: 'scale_down',
+			wait: {interval: 5},
+			onStep: step => steps.push(step),
+		});
+
+		const standby = await hop.ignite.deployments.get(release.standby);
+		assert.equal(standby.config.image.name, 'api:2');
+		assert.equal(standby.running_container_count, 2);
+
+		assert.deepEqual(await domainsOf(standby.id), ['api.example.com']);
+		assert.deepEqual(await domainsOf(live.id), []);
+
+		const scaledDown = await hop.ignite.deployments.get(live.id);
+		assert.equal(scaledDown.target_container_count, 0);
+
+		assert.deepEqual(
+			release.steps.map(step => step.name),
+			[
+				'prepare_standby',
+				'prepare_standby',
+				'roll_out_standby',
+				'move_domain',
+				'teardown',
+			],
+		);
+
+		await release.revert();
+
+		assert.deepEqual(await domainsOf(live.id), ['api.example.com']);
+		assert.equal(
+			(await hop.ignite.deployments.get(live.id)).running_container_count,
+			2,
+		);
+
+		await assert.rejects(() => hop.ignite.deployments.get(standby.id));
+		assert.ok(release.steps.every(step => step.state === 'undone'));
+		assert.equal(steps.length, 10);
+	});
+
+	test('A failed blue/green release moves domains back', async () => {
+		const failDelete: Middleware = async (request, next) => {
+			if (request.method === 'DELETE' && request.url.includes('deployments')) {
+				throw new Error('Could not delete');
+			}
+
+			return next(request);
+		};
+
+		const {hop, live, domainsOf} = await setupRelease([failDelete]);
+
+		const standby = await hop.ignite.deployments.create({
+			...live.config,
+			name: 'api-green',
+		});
+
+		await assert.rejects(
+			() =>
+				hop.releases.blueGreen(live.id, {
+					standby: standby.id,
+					containers: 1,
+					teardown: 'delete',
+					wait: {interval: 5},
+				}),
+			/Could not delete/,
+		);
+
+		assert.deepEqual(await domainsOf(live.id), ['api.example.com']);
+		assert.deepEqual(await domainsOf(standby.id), []);
+	});
+
+	test('A blue/green release checks container strategies before changing anything', async () => {
+		const requests: string[] = [];
+
+		const record: Middleware = async (request, next) => {
+			requests.push(`${request.method} ${new URL(request.url).pathname}`);
+			return next(request);
+		};
+
+		const {hop, live} = await setupRelease([record]);
+		requests.length = 0;
+
+		await assert.rejects(
+			() =>
+				hop.releases.blueGreen(live.id, {
+					standby: {name: 'api-green'},
+					config: {container_strategy: 'autoscale' as ContainerStrategy},
+				}),
+			/api-green must use the manual container strategy/,
+		);
+
+		assert.ok(requests.every(request => request.startsWith('GET ')));
+	});
+
+	test('A blue/green release copies the health check config to a new standby', async () => {
+		const bodies: unknown[] = [];
+
+		const record: Middleware = async (request, next) => {
+			if (request.method === 'POST' && request.url.includes('health-check')) {
+				bodies.push(await request.clone().json());
+			}
+
+			return next(request);
+		};
+
+		const {hop, live} = await setupRelease([record]);
+
+		const check = {
+			protocol: 'http' as const,
+			path: '/health',
+			port: 8080,
+			interval: 30,
+			timeout: 5000,
+			initial_delay: 5,
+			max_retries: 3,
+		};
+
+		await hop.ignite.healthChecks.create(live.id, check);
+
+		bodies.length = 0;
+
+		await hop.releases.blueGreen(live.id, {
+			standby: {name: 'api-green'},
+			wait: {interval: 5},
+		});
+
+		assert.deepEqual(bodies, [check]);
+	});
+
+	test('Reverting a release removes the gateways it added to an existing standby', async () => {
+		const {hop, live, domainsOf} = await setupRelease();
+
+		const standby = await hop.ignite.deployments.create({
+			...live.config,
+			name: 'api-green',
+		});
+
+		const release = await hop.releases.blueGreen(live.id, {
+			standby: standby.id,
+			containers: 1,
+			wait: {interval: 5},
+		});
+
+		assert.deepEqual(await domainsOf(standby.id), ['api.example.com']);
+
+		await release.revert();
+
+		assert.deepEqual(await hop.ignite.gateways.getAll(standby.id), []);
+		assert.deepEqual(await domainsOf(live.id), ['api.example.com']);
+	});
+
+	test('A release that deletes the live deployment can not be reverted', async () => {
+		const {hop, live, domainsOf} = await setupRelease();
+
+		const release = await hop.releases.blueGreen(live.id, {
+			standby: {name: 'api-green'},
+			teardown: 'delete',
+			wait: {interval: 5},
+		});
+
+		assert.ok(release.steps.every(step => step.state === 'final'));
+
+		await release.revert();
+
+		assert.deepEqual(await domainsOf(release.standby), ['api.example.com']);
+	});
+
+	test('A failed scale down scales the live deployment back up', async () => {
+		let deleted = 0;
+
+		// Only the first container of the live deployment can be deleted
+		const failLaterDeletes: Middleware = async (request, next) => {
+			if (request.method === 'DELETE' && request.url.includes('containers')) {
+				deleted++;
+
+				if (deleted > 1) {
+					throw new Error('Could not delete container');
+				}
+			}
+
+			return next(request);
+		};
+
+		const {hop, live, domainsOf} = await setupRelease([failLaterDeletes]);
+
+		await assert.rejects(
+			() =>
+				hop.releases.blueGreen(live.id, {
+					standby: {name: 'api-green'},
+					teardown: 'scale_down',
+					wait: {interval: 5},
+				}),
+			/Could not delete container/,
+		);
+
+		const restored = await hop.ignite.deployments.get(live.id);
+		assert.equal(restored.target_container_count, 2);
+		assert.deepEqual(await domainsOf(live.id), ['api.example.com']);
+	});
+}
@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import {test} from 'node:test';
+import {Hop, HopAPIError, parseRetryAfter} from '../src/index.ts';
+import {fail, json} from './client.ts';
+
+export function retryTests() {
+	test('The HTTP client retries failed idempotent requests', async () => {
+		const statuses: number[] = [];
+		const retries: number[] = [];
+
+		const responses = [
+			fail(503, 'unavailable'),
+			fail(429, 'ratelimited', {'Retry-After': '0'}),
+			json(200, {success: true, data: {channels: []}}),
+		];
+
+		const hop = new Hop({
+			authentication: 'ptk_testing',
+			fetch: async () => {
+				const response = responses.shift()!;
+				statuses.push(response.status);
+				return response;
+			},
+			retry: {baseDelay: 1, onRetry: event => retries.push(event.attempt)},
+		});
+
+		assert.deepEqual(await hop.channels.getAll(), []);
+		assert.deepEqual(statuses, [503, 429, 200]);
+		assert.deepEqual(retries, [1, 2]);
+	});
+
+	test('The HTTP client does not retry non-idempotent requests', async () => {
+		let calls = 0;
+
+		const hop = new Hop({
+			authentication: 'ptk_testing',
+			fetch: async () => {
+				calls++;
+				return fail(503, 'unavailable');
+			},
+			retry: {baseDelay: 1},
+		});
+
+		await assert.rejects(
+			() => hop.client.post('/v1/channels/tokens', {state: {}}, {}),
+			HopAPIError,
+		);
+
+		assert.equal(calls, 1);
+	});
+
+	test('It parses Retry-After headers', () => {
+		assert.equal(parseRetryAfter('2'), 2000);
+		assert.equal(parseRetryAfter(null), null);
+		assert.equal(parseRetryAfter('soon'), null);
+		assert.equal(parseRetryAfter(new Date(0).toUTCString()), 0);
+	});
+}
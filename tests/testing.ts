@@ -0,0 +1,116 @@
+import assert from 'node:assert/strict';
+import {test} from 'node:test';
+import {
+	ChannelType,
+	ContainerState,
+	Hop,
+	HopNotFoundError,
+	type Middleware,
+} from '../src/index.ts';
+import {FakeHopAPI} from '../src/utils/testing/index.ts';
+import {deploymentConfig} from './fixtures.ts';
+
+export function fakeAPITests() {
+	test('The fake API runs deployments and containers', async () => {
+		const api = new FakeHopAPI();
+		const hop = new Hop(api.clientOptions);
+
+		const deployment = await hop.ignite.deployments.create(deploymentConfig);
+
+		const container = await deployment.createContainer();
+		assert.equal(container.state, ContainerState.RUNNING);
+
+		await hop.ignite.containers.stop(container.id);
+		api.addContainerLogs(container.id, [{message: 'hello'}]);
+
+		const [log] = await hop.ignite.containers.getLogs(container.id);
+		assert.equal(log?.message, 'hello');
+
+		const rollout = await hop.ignite.deployments.rollout(deployment.id);
+		assert.equal(rollout.count, 1);
+
+		const containers = await deployment.getContainers();
+		assert.equal(containers.length, 1);
+		assert.notEqual(containers[0]?.id, container.id);
+
+		const fetched = await hop.ignite.deployments.get('api');
+		assert.equal(fetched.container_count, 1);
+	});
+
+	test('The fake API keeps projects apart', async () => {
+		const api = new FakeHopAPI();
+		const other = api.createProject('Other');
+
+		const hop = new Hop(api.clientOptions);
+		const otherHop = new Hop({
+			...api.clientOptions,
+			authentication: other.token,
+		});
+
+		const token = await hop.channels.tokens.create();
+
+		await assert.rejects(
+			() => otherHop.channels.tokens.get(token.id),
+			HopNotFoundError,
+		);
+
+		api.reset();
+
+		await assert.rejects(
+			() => hop.channels.tokens.get(token.id),
+			HopNotFoundError,
+		);
+	});
+
+	test('A project scoped client fills in the project', async () => {
+		const api = new FakeHopAPI();
+		const paths: string[] = [];
+
+		const record: Middleware = async (request, next) => {
+			const url = new URL(request.url);
+			paths.push(url.pathname + url.search);
+			return next(request);
+		};
+
+		const bearer = new Hop({
+			...api.clientOptions,
+			authentication: 'bearer_test',
+			middleware: [record],
+		}).project(api.project.id);
+
+		const channel = await bearer.channels.create(ChannelType.PRIVATE, 'room');
+		await bearer.channels.get(channel.id);
+		await bearer.projects.secrets.create('token', 'value');
+
+		assert.deepEqual(paths, [
+			`/v1/channels/room?project=${api.project.id}`,
+			`/v1/channels/room?project=${api.project.id}`,
+			`/v1/projects/@this/secrets/token?project=${api.project.id}`,
+		]);
+
+		paths.length = 0;
+
+		const deployment = await bearer.ignite.deployments.create(deploymentConfig);
+
+		const container = await deployment.createContainer();
+		await bearer.ignite.containers.stop(container.id);
+
+		// Deployments and containers are found by their ID alone
+		assert.deepEqual(paths, [
+			`/v1/ignite/deployments?project=${api.project.id}`,
+			`/v1/ignite/deployments/${deployment.id}/containers`,
+			`/v1/ignite/containers/${container.id}/state`,
+		]);
+
+		paths.length = 0;
+
+		const ptk = new Hop({...api.clientOptions, middleware: [record]}).project(
+			api.project.id,
+		);
+
+		await ptk.projects.secrets.getAll();
+		await ptk.channels.getAll();
+
+		assert.deepEqual(paths, ['/v1/projects/@this/secrets', '/v1/channels']);
+	});
+}
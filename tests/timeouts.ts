@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import {test} from 'node:test';
+import {
+	DEFAULT_TIMEOUT,
+	Hop,
+	HopTimeoutError,
+	type FetchFunction,
+} from '../src/index.ts';
+import {json} from './client.ts';
+
+// Never responds, only rejects once the request is aborted
+const hang: FetchFunction = (_request, init) =>
+	new Promise((_resolve, reject) => {
+		if (init.signal?.aborted) {
+			reject(new Error('Aborted'));
+		}
+
+		init.signal?.addEventListener('abort', () => {
+			reject(new Error('Aborted'));
+		});
+	});
+
+export function timeoutTests() {
+	test('The HTTP client times out requests', async () => {
+		const hop = new Hop({authentication: 'ptk_testing', fetch: hang});
+
+		await assert.rejects(
+			() => hop.channels.getAll({timeout: 10}),
+			HopTimeoutError,
+		);
+	});
+
+	test('Requests time out after 30 seconds by default', async () => {
+		const delays: unknown[] = [];
+		const {setTimeout} = globalThis;
+
+		// Records the timers that are started, without waiting on them
+		globalThis.setTimeout = ((callback: () => void, delay?: number) => {
+			delays.push(delay);
+			return setTimeout(callback, 0);
+		}) as typeof setTimeout;
+
+		try {
+			const hop = new Hop({
+				authentication: 'ptk_testing',
+				fetch: hang,
+				retry: false,
+			});
+
+			await assert.rejects(
+				() => hop.channels.getAll(),
+				(error: unknown) =>
+					error instanceof HopTimeoutError && error.timeout === DEFAULT_TIMEOUT,
+			);
+		} finally {
+			globalThis.setTimeout = setTimeout;
+		}
+
+		assert.ok(delays.includes(DEFAULT_TIMEOUT));
+	});
+
+	test('Timeouts can be turned off', async () => {
+		let signal: AbortSignal | null = null;
+
+		const hop = new Hop({
+			authentication: 'ptk_testing',
+			timeout: false,
+			fetch: async (_request, init) => {
+				signal = init.signal ?? null;
+				return json(200, {success: true, data: {channels: []}});
+			},
+		});
+
+		await hop.channels.getAll();
+		assert.equal(signal!.aborted, false);
+	});
+
+	test('Aborted requests do not count as timed out', async () => {
+		const hop = new Hop({authentication: 'ptk_testing', fetch: hang});
+		const controller = new AbortController();
+
+		const request = hop.channels.getAll({signal: controller.signal});
+		controller.abort();
+
+		await assert.rejects(
+			() => request,
+			(error: unknown) => !(error instanceof HopTimeoutError),
+		);
+	});
+}